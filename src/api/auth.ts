@@ -0,0 +1,117 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import Joi from 'joi';
+import { UserRole } from '@prisma/client';
+import { authService } from '@/services/authService';
+import { authenticate, authorize } from '@/middleware/auth';
+import { createError } from '@/middleware/errorHandler';
+
+const router = Router();
+
+// Validation schemas
+const loginSchema = Joi.object({
+  email: Joi.string().email().required(),
+  password: Joi.string().required(),
+});
+
+const refreshTokenSchema = Joi.object({
+  refreshToken: Joi.string().required(),
+});
+
+const createUserSchema = Joi.object({
+  email: Joi.string().email().required(),
+  password: Joi.string().min(8).max(128).required(),
+  name: Joi.string().min(2).max(100).optional(),
+  role: Joi.string().valid(...Object.values(UserRole)).required(),
+  transporterId: Joi.string().when('role', {
+    is: UserRole.TRANSPORTER,
+    then: Joi.required(),
+    otherwise: Joi.forbidden(),
+  }),
+});
+
+// Validation middleware
+const validateRequest = (schema: Joi.ObjectSchema) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const { error } = schema.validate(req.body);
+    if (error) {
+      return next(createError(error.details[0].message, 400));
+    }
+    next();
+  };
+};
+
+// Routes
+
+// POST /api/v1/auth/login - Exchange credentials for access and refresh tokens
+router.post('/login', validateRequest(loginSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { email, password } = req.body;
+    const result = await authService.login(email, password);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/v1/auth/refresh - Rotate a refresh token
+router.post('/refresh', validateRequest(refreshTokenSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tokens = await authService.refresh(req.body.refreshToken);
+
+    res.json({
+      success: true,
+      data: tokens,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/v1/auth/logout - Revoke a refresh token
+router.post('/logout', validateRequest(refreshTokenSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await authService.logout(req.body.refreshToken);
+
+    res.json({
+      success: true,
+      message: 'Logged out successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/auth/me - Get the authenticated user
+router.get('/me', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = await authService.getUserById(req.user!.userId);
+
+    res.json({
+      success: true,
+      data: user,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/v1/auth/users - Create a user account (admin only)
+router.post('/users', authenticate, authorize(UserRole.ADMIN), validateRequest(createUserSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = await authService.createUser(req.body);
+
+    res.status(201).json({
+      success: true,
+      data: user,
+      message: 'User created successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,195 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import Joi from 'joi';
+import { FleetPlanObjective, UserRole } from '@prisma/client';
+import { dispatchService } from '@/services/dispatchService';
+import { fleetPlanningService } from '@/services/fleetPlanningService';
+import { jobService } from '@/services/jobService';
+import { authenticate, authorize } from '@/middleware/auth';
+import { createError } from '@/middleware/errorHandler';
+
+const router = Router();
+
+router.use(authenticate, authorize(UserRole.DISPATCHER, UserRole.ADMIN));
+
+// Validation schemas
+const createPlanSchema = Joi.object({
+  windowStart: Joi.date().iso().required(),
+  windowEnd: Joi.date().iso().greater(Joi.ref('windowStart')).required(),
+  maxDetourKm: Joi.number().positive().max(1000).optional(),
+});
+
+const createFleetPlanSchema = Joi.object({
+  orderIds: Joi.array().items(Joi.string()).min(1).max(200).unique().required(),
+  transporters: Joi.array().items(Joi.object({
+    transporterId: Joi.string().required(),
+    depot: Joi.object({
+      latitude: Joi.number().min(-90).max(90).required(),
+      longitude: Joi.number().min(-180).max(180).required(),
+      address: Joi.string().optional(),
+    }).optional(),
+  })).min(1).max(50).unique('transporterId').required(),
+  objective: Joi.string().valid(...Object.values(FleetPlanObjective)).optional(),
+  departureTime: Joi.date().iso().optional(),
+});
+
+// Validation middleware
+const validateRequest = (schema: Joi.ObjectSchema) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const { error } = schema.validate(req.body);
+    if (error) {
+      return next(createError(error.details[0].message, 400));
+    }
+    next();
+  };
+};
+
+// Routes
+
+// POST /api/v1/dispatch/plans - Propose a globally optimal assignment for pending orders
+router.post('/plans', validateRequest(createPlanSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const plan = await dispatchService.createPlan({
+      windowStart: new Date(req.body.windowStart),
+      windowEnd: new Date(req.body.windowEnd),
+      maxDetourKm: req.body.maxDetourKm,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: plan,
+      message: 'Dispatch plan proposed',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/dispatch/plans/:id - Get dispatch plan
+router.get('/plans/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const plan = await dispatchService.getPlanById(req.params.id);
+
+    res.json({
+      success: true,
+      data: plan,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/v1/dispatch/plans/:id/apply - Assign transporters and create routes for the whole plan
+router.post('/plans/:id/apply', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await dispatchService.applyPlan(req.params.id, { actor: req.user!.userId });
+
+    res.json({
+      success: true,
+      data: result,
+      message: `Dispatch plan applied: ${result.applied.length} assigned, ${result.skipped.length} skipped, ${result.failed.length} failed`,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/v1/dispatch/plans/:id - Discard a proposed plan
+router.delete('/plans/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const plan = await dispatchService.discardPlan(req.params.id);
+
+    res.json({
+      success: true,
+      data: plan,
+      message: 'Dispatch plan discarded',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/v1/dispatch/fleet-plans - Queue multi-vehicle route planning for a set of orders
+router.post('/fleet-plans', validateRequest(createFleetPlanSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const request = {
+      orderIds: req.body.orderIds,
+      transporters: req.body.transporters,
+      objective: req.body.objective,
+      departureTime: req.body.departureTime ? new Date(req.body.departureTime) : undefined,
+    };
+
+    // Refuse what the job would only fail on, rather than queueing it
+    await fleetPlanningService.assertPlannable(request);
+
+    // Solving takes up to the VRP time budget, too long to hold the request
+    const job = await jobService.enqueueFleetPlanning({ request });
+
+    res.status(202).json({
+      success: true,
+      data: { jobId: String(job.id) },
+      message: 'Fleet planning queued',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/dispatch/fleet-plans/jobs/:jobId - Get the status of a queued fleet planning; its result holds the plan id
+router.get('/fleet-plans/jobs/:jobId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const status = await jobService.getJobStatus('fleet-planning', req.params.jobId);
+
+    res.json({
+      success: true,
+      data: status,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/dispatch/fleet-plans/:id - Get fleet plan
+router.get('/fleet-plans/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const plan = await fleetPlanningService.getPlanById(req.params.id);
+
+    res.json({
+      success: true,
+      data: plan,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/v1/dispatch/fleet-plans/:id/apply - Assign orders and create a route for each
+router.post('/fleet-plans/:id/apply', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await fleetPlanningService.applyPlan(req.params.id, { actor: req.user!.userId });
+
+    res.json({
+      success: true,
+      data: result,
+      message: `Fleet plan applied: ${result.applied.length} assigned, ${result.skipped.length} skipped`,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/v1/dispatch/fleet-plans/:id - Discard a proposed fleet plan
+router.delete('/fleet-plans/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const plan = await fleetPlanningService.discardPlan(req.params.id);
+
+    res.json({
+      success: true,
+      data: plan,
+      message: 'Fleet plan discarded',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
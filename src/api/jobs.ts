@@ -0,0 +1,95 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import Joi from 'joi';
+import { UserRole } from '@prisma/client';
+import { jobService, JobQueueName, JOB_QUEUES } from '@/services/jobService';
+import { authenticate, authorize } from '@/middleware/auth';
+import { createError } from '@/middleware/errorHandler';
+
+const router = Router();
+
+// Queue internals are for operators only
+router.use(authenticate, authorize(UserRole.ADMIN));
+
+// Validation schemas
+const listQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(200).optional(),
+});
+
+// Validation middleware
+const validateQuery = (schema: Joi.ObjectSchema) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const { error } = schema.validate(req.query);
+    if (error) {
+      return next(createError(error.details[0].message, 400));
+    }
+    next();
+  };
+};
+
+// Routes
+
+// GET /api/v1/jobs/queues - Job counts per queue, including the dead-letter queue
+router.get('/queues', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const stats = await jobService.getQueueStats();
+
+    res.json({
+      success: true,
+      data: stats,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/jobs/queues/:name/failed - Most recent failed jobs of a queue
+router.get('/queues/:name/failed', validateQuery(listQuerySchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!JOB_QUEUES.includes(req.params.name as JobQueueName)) {
+      return next(createError(`Unknown queue ${req.params.name}`, 404));
+    }
+
+    const jobs = await jobService.getFailedJobs(
+      req.params.name as JobQueueName,
+      req.query.limit ? parseInt(req.query.limit as string) : undefined
+    );
+
+    res.json({
+      success: true,
+      data: jobs,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/jobs/dead-letter - Jobs that exhausted their retries
+router.get('/dead-letter', validateQuery(listQuerySchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const jobs = await jobService.getDeadLetters(req.query.limit ? parseInt(req.query.limit as string) : undefined);
+
+    res.json({
+      success: true,
+      data: jobs,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/v1/jobs/dead-letter/:id/retry - Requeue a dead-lettered job on its original queue
+router.post('/dead-letter/:id/retry', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const requeued = await jobService.retryDeadLetter(req.params.id);
+
+    res.status(202).json({
+      success: true,
+      data: requeued,
+      message: 'Job requeued',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,138 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import Joi from 'joi';
+import { UserRole } from '@prisma/client';
+import { matchingService } from '@/services/matchingService';
+import { jobService } from '@/services/jobService';
+import { authenticate, authorize } from '@/middleware/auth';
+import { createError } from '@/middleware/errorHandler';
+
+const router = Router();
+
+// Matching decisions are made by dispatch staff only
+router.use(authenticate, authorize(UserRole.DISPATCHER, UserRole.ADMIN));
+
+// Validation schemas
+const candidatesQuerySchema = Joi.object({
+  radiusKm: Joi.number().positive().max(1000).optional(),
+  limit: Joi.number().integer().min(1).max(50).optional(),
+});
+
+const autoAssignSchema = Joi.object({
+  radiusKm: Joi.number().positive().max(1000).optional(),
+  // Queue the assignment and answer 202 with the job ID
+  async: Joi.boolean().optional(),
+});
+
+const historyQuerySchema = Joi.object({
+  orderId: Joi.string().optional(),
+  transporterId: Joi.string().optional(),
+  limit: Joi.number().integer().min(1).max(100).optional(),
+  offset: Joi.number().integer().min(0).optional(),
+});
+
+// Validation middleware
+const validateRequest = (schema: Joi.ObjectSchema) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const { error } = schema.validate(req.body);
+    if (error) {
+      return next(createError(error.details[0].message, 400));
+    }
+    next();
+  };
+};
+
+const validateQuery = (schema: Joi.ObjectSchema) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const { error } = schema.validate(req.query);
+    if (error) {
+      return next(createError(error.details[0].message, 400));
+    }
+    next();
+  };
+};
+
+// Routes
+
+// GET /api/v1/matching/orders/:orderId/candidates - Preview ranked transporters for an order
+router.get('/orders/:orderId/candidates', validateQuery(candidatesQuerySchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const candidates = await matchingService.findCandidates(req.params.orderId, {
+      radiusKm: req.query.radiusKm ? parseFloat(req.query.radiusKm as string) : undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+    });
+
+    res.json({
+      success: true,
+      data: candidates,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/v1/matching/orders/:orderId/assign - Assign the best ranked transporter
+router.post('/orders/:orderId/assign', validateRequest(autoAssignSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (req.body.async) {
+      const job = await jobService.enqueueAutoMatch({
+        orderId: req.params.orderId,
+        options: { radiusKm: req.body.radiusKm },
+        context: { actor: req.user!.userId },
+      });
+
+      return res.status(202).json({
+        success: true,
+        data: { jobId: String(job.id) },
+        message: 'Automatic assignment queued',
+      });
+    }
+
+    const result = await matchingService.autoAssign(req.params.orderId, {
+      radiusKm: req.body.radiusKm,
+    }, { actor: req.user!.userId });
+
+    res.json({
+      success: true,
+      data: result,
+      message: 'Transporter assigned automatically',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/matching/jobs/:jobId - Get the status of a queued automatic assignment
+router.get('/jobs/:jobId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const status = await jobService.getJobStatus('auto-matching', req.params.jobId);
+
+    res.json({
+      success: true,
+      data: status,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/matching/history - List past matching decisions
+router.get('/history', validateQuery(historyQuerySchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await matchingService.getHistory({
+      orderId: req.query.orderId as string | undefined,
+      transporterId: req.query.transporterId as string | undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
+    });
+
+    res.json({
+      success: true,
+      data: result.history,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,139 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import Joi from 'joi';
+import { NotificationStatus, NotificationTemplate, UserRole } from '@prisma/client';
+import { notificationService, NotificationFilters } from '@/services/notificationService';
+import { isValidTwilioSignature, mapTwilioStatus } from '@/services/notificationChannels';
+import { authenticate, isStaff } from '@/middleware/auth';
+import { createError } from '@/middleware/errorHandler';
+import { logger } from '@/utils/logger';
+
+const router = Router();
+
+// Validation schemas
+const preferencesSchema = Joi.object({
+  smsEnabled: Joi.boolean().optional(),
+  emailEnabled: Joi.boolean().optional(),
+  phoneNumber: Joi.string().pattern(/^\+[1-9]\d{6,14}$/).allow(null).optional()
+    .messages({ 'string.pattern.base': 'phoneNumber must be in E.164 format, e.g. +14155550123' }),
+  mutedTemplates: Joi.array().items(Joi.string().valid(...Object.values(NotificationTemplate))).unique().optional(),
+}).min(1);
+
+const notificationFiltersSchema = Joi.object({
+  orderId: Joi.string().optional(),
+  userId: Joi.string().optional(),
+  transporterId: Joi.string().optional(),
+  status: Joi.string().valid(...Object.values(NotificationStatus)).optional(),
+  limit: Joi.number().integer().min(1).max(100).optional(),
+  offset: Joi.number().integer().min(0).optional(),
+});
+
+// Validation middleware
+const validateRequest = (schema: Joi.ObjectSchema) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const { error } = schema.validate(req.body);
+    if (error) {
+      return next(createError(error.details[0].message, 400));
+    }
+    next();
+  };
+};
+
+const validateQuery = (schema: Joi.ObjectSchema) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const { error } = schema.validate(req.query);
+    if (error) {
+      return next(createError(error.details[0].message, 400));
+    }
+    next();
+  };
+};
+
+// Routes
+
+// POST /api/v1/notifications/status/twilio - Twilio delivery report; authenticated by its signature
+router.post('/status/twilio', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const authToken = process.env.TWILIO_AUTH_TOKEN;
+    const callbackUrl = process.env.NOTIFICATION_STATUS_CALLBACK_URL;
+    const signature = req.header('X-Twilio-Signature');
+
+    if (!authToken || !callbackUrl || !signature || !isValidTwilioSignature(authToken, callbackUrl, req.body, signature)) {
+      logger.warn('Rejected Twilio status callback with an invalid signature');
+      return next(createError('Invalid signature', 403));
+    }
+
+    const status = mapTwilioStatus(req.body.MessageStatus);
+    if (status && req.body.MessageSid) {
+      const error = req.body.ErrorCode ? `Twilio error ${req.body.ErrorCode}` : undefined;
+      await notificationService.recordDeliveryStatus(req.body.MessageSid, status, error);
+    }
+
+    // Twilio only needs a 2xx; intermediate statuses are acknowledged and ignored
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.use(authenticate);
+
+// GET /api/v1/notifications/preferences - Get the caller's notification preferences
+router.get('/preferences', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const preferences = await notificationService.getPreferences(req.user!.userId);
+
+    res.json({
+      success: true,
+      data: preferences,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/v1/notifications/preferences - Update the caller's notification preferences
+router.put('/preferences', validateRequest(preferencesSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const preferences = await notificationService.updatePreferences(req.user!.userId, req.body);
+
+    res.json({
+      success: true,
+      data: preferences,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/notifications - List sent notifications with their delivery status
+router.get('/', validateQuery(notificationFiltersSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const filters: NotificationFilters = {
+      ...req.query,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
+    };
+
+    // Customers and transporters only ever see messages sent to them
+    if (req.user!.role === UserRole.TRANSPORTER) {
+      if (!req.user!.transporterId) {
+        return next(createError('Insufficient permissions', 403));
+      }
+      filters.transporterId = req.user!.transporterId;
+    } else if (!isStaff(req.user!)) {
+      filters.userId = req.user!.userId;
+    }
+
+    const result = await notificationService.getNotifications(filters);
+
+    res.json({
+      success: true,
+      data: result.notifications,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,13 +1,25 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
-import { OrderStatus } from '@prisma/client';
-import { orderService, CreateOrderData } from '@/services/orderService';
+import multer from 'multer';
+import { OrderStatus, UserRole } from '@prisma/client';
+import { orderService, CreateOrderData, OrderFilters } from '@/services/orderService';
+import { authenticate, authorize, assertOrderAccess } from '@/middleware/auth';
 import { createError } from '@/middleware/errorHandler';
+import { quoteService } from '@/services/quoteService';
+import { proofOfDeliveryService, POD_IMAGE_TYPES, UploadedImage } from '@/services/proofOfDeliveryService';
+import { trailService, Trail, TrailOptions } from '@/services/trailService';
+import { exportTrail, TrailFormat, TRAIL_FORMATS } from '@/utils/trailExport';
 
 const router = Router();
 
+router.use(authenticate);
+
+// The operational transitions a transporter makes itself; delivery goes through proof of delivery,
+// and cancelling or handing an order back is for dispatchers
+const TRANSPORTER_STATUSES: OrderStatus[] = [OrderStatus.IN_TRANSIT, OrderStatus.FAILED];
+
 // Validation schemas
-const createOrderSchema = Joi.object({
+export const createOrderSchema = Joi.object({
   customerId: Joi.string().required(),
   pickupLocation: Joi.object({
     latitude: Joi.number().min(-90).max(90).required(),
@@ -28,6 +40,18 @@ const createOrderSchema = Joi.object({
     height: Joi.number().positive().required(),
   }).required(),
   specialRequirements: Joi.string().optional(),
+  // High-value handover: the recipient must give the driver a one-time PIN
+  requiresDeliveryPin: Joi.boolean().optional(),
+});
+
+export const createOrderFromQuoteSchema = Joi.object({
+  quoteId: Joi.string().required(),
+});
+
+// Orders are either described in full or created from a binding quote
+const orderRequestSchema = Joi.alternatives().conditional(Joi.object({ quoteId: Joi.exist() }).unknown(), {
+  then: createOrderFromQuoteSchema,
+  otherwise: createOrderSchema,
 });
 
 const orderFiltersSchema = Joi.object({
@@ -40,12 +64,41 @@ const orderFiltersSchema = Joi.object({
   offset: Joi.number().integer().min(0).optional(),
 });
 
-const assignTransporterSchema = Joi.object({
+export const assignTransporterSchema = Joi.object({
   transporterId: Joi.string().required(),
 });
 
+const updateStatusSchema = Joi.object({
+  status: Joi.string().valid(...Object.values(OrderStatus)).required(),
+  reason: Joi.string().max(500).optional(),
+  location: Joi.object({
+    latitude: Joi.number().min(-90).max(90).required(),
+    longitude: Joi.number().min(-180).max(180).required(),
+  }).optional(),
+});
+
+const trailQuerySchema = Joi.object({
+  from: Joi.date().iso().optional(),
+  to: Joi.date().iso().min(Joi.ref('from')).optional(),
+  format: Joi.string().valid(...TRAIL_FORMATS).optional(),
+  simplifyMeters: Joi.number().positive().max(1000).optional(),
+  stops: Joi.boolean().optional(),
+  stopRadiusMeters: Joi.number().positive().max(1000).optional(),
+  minStopSeconds: Joi.number().integer().min(1).optional(),
+});
+
+// Multipart text fields; the signature and photos arrive as files
+const proofOfDeliverySchema = Joi.object({
+  recipientName: Joi.string().trim().min(1).max(200).required(),
+  pin: Joi.string().pattern(/^\d{6}$/).optional(),
+  latitude: Joi.number().min(-90).max(90).required(),
+  longitude: Joi.number().min(-180).max(180).required(),
+  accuracyMeters: Joi.number().min(0).optional(),
+  capturedAt: Joi.date().iso().required(),
+});
+
 // Validation middleware
-const validateRequest = (schema: Joi.ObjectSchema) => {
+const validateRequest = (schema: Joi.Schema) => {
   return (req: Request, res: Response, next: NextFunction) => {
     const { error } = schema.validate(req.body);
     if (error) {
@@ -65,32 +118,135 @@ const validateQuery = (schema: Joi.ObjectSchema) => {
   };
 };
 
+// Proof of delivery images are buffered in memory and handed to the blob store
+const proofUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: parseInt(process.env.POD_MAX_FILE_BYTES || '5242880'),
+    files: parseInt(process.env.POD_MAX_PHOTOS || '5') + 1,
+  },
+  fileFilter: (req, file, callback) => {
+    if (!POD_IMAGE_TYPES[file.mimetype]) {
+      return callback(createError(`Unsupported image type ${file.mimetype}`, 400));
+    }
+    callback(null, true);
+  },
+}).fields([
+  { name: 'signature', maxCount: 1 },
+  { name: 'photos', maxCount: parseInt(process.env.POD_MAX_PHOTOS || '5') },
+]);
+
+const uploadProofFiles = (req: Request, res: Response, next: NextFunction) => {
+  proofUpload(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      return next(createError(error.message, 400));
+    }
+    next(error);
+  });
+};
+
+const toUploadedImage = (file: Express.Multer.File): UploadedImage => ({
+  data: file.buffer,
+  contentType: file.mimetype,
+});
+
+const parseTrailOptions = (query: Request['query']): TrailOptions => ({
+  from: query.from ? new Date(query.from as string) : undefined,
+  to: query.to ? new Date(query.to as string) : undefined,
+  simplifyToleranceMeters: query.simplifyMeters ? parseFloat(query.simplifyMeters as string) : undefined,
+  detectStops: query.stops === 'true',
+  stopRadiusMeters: query.stopRadiusMeters ? parseFloat(query.stopRadiusMeters as string) : undefined,
+  minStopSeconds: query.minStopSeconds ? parseInt(query.minStopSeconds as string) : undefined,
+});
+
+const sendTrail = (res: Response, trail: Trail, format: TrailFormat = 'json') => {
+  if (format === 'json') {
+    return res.json({ success: true, data: trail });
+  }
+
+  const file = exportTrail(trail, format);
+  res.type(file.contentType).attachment(file.fileName).send(file.body);
+};
+
 // Routes
 
-// POST /api/v1/orders - Create new order
-router.post('/', validateRequest(createOrderSchema), async (req: Request, res: Response, next: NextFunction) => {
+// POST /api/v1/orders - Create new order, or redeem a quote
+router.post('/', authorize(UserRole.CUSTOMER, UserRole.DISPATCHER, UserRole.ADMIN), validateRequest(orderRequestSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
+    if (req.body.quoteId) {
+      const quote = await quoteService.getQuote(req.body.quoteId);
+
+      if (req.user!.role === UserRole.CUSTOMER && quote.customerId !== req.user!.userId) {
+        return next(createError('Customers can only use their own quotes', 403));
+      }
+
+      // Created with the quoted details at the quoted price
+      const order = await orderService.createOrderFromQuote(quote.id, { actor: req.user!.userId });
+
+      return res.status(201).json({
+        success: true,
+        data: order,
+      });
+    }
+
     const orderData: CreateOrderData = req.body;
-    
-    // Calculate estimated cost
-    const estimatedCost = await orderService.calculateEstimatedCost(orderData);
-    
-    // Create order
+
+    if (req.user!.role === UserRole.CUSTOMER && orderData.customerId !== req.user!.userId) {
+      return next(createError('Customers can only create orders for themselves', 403));
+    }
+
+    // Priced and stored with its breakdown on creation
     const order = await orderService.createOrder({
       ...orderData,
       pickupTime: new Date(orderData.pickupTime),
       deliveryTime: orderData.deliveryTime ? new Date(orderData.deliveryTime) : undefined,
+    }, { actor: req.user!.userId });
+
+    res.status(201).json({
+      success: true,
+      data: order,
     });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/v1/orders/quotes - Issue a binding quote, valid until expiresAt
+router.post('/quotes', authorize(UserRole.CUSTOMER, UserRole.DISPATCHER, UserRole.ADMIN), validateRequest(createOrderSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const orderData: CreateOrderData = req.body;
 
-    // Update with estimated cost
-    const updatedOrder = await orderService.updateOrderStatus(order.id, OrderStatus.PENDING);
+    if (req.user!.role === UserRole.CUSTOMER && orderData.customerId !== req.user!.userId) {
+      return next(createError('Customers can only request quotes for themselves', 403));
+    }
+
+    const quote = await quoteService.createQuote({
+      ...orderData,
+      pickupTime: new Date(orderData.pickupTime),
+      deliveryTime: orderData.deliveryTime ? new Date(orderData.deliveryTime) : undefined,
+    });
 
     res.status(201).json({
       success: true,
-      data: {
-        ...updatedOrder,
-        estimatedCost,
-      },
+      data: quote,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/orders/quotes/:id - Get a quote
+router.get('/quotes/:id', authorize(UserRole.CUSTOMER, UserRole.DISPATCHER, UserRole.ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const quote = await quoteService.getQuote(req.params.id);
+
+    if (req.user!.role === UserRole.CUSTOMER && quote.customerId !== req.user!.userId) {
+      return next(createError('Insufficient permissions', 403));
+    }
+
+    res.json({
+      success: true,
+      data: quote,
     });
   } catch (error) {
     next(error);
@@ -100,7 +256,7 @@ router.post('/', validateRequest(createOrderSchema), async (req: Request, res: R
 // GET /api/v1/orders - List orders with filters
 router.get('/', validateQuery(orderFiltersSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const filters = {
+    const filters: OrderFilters = {
       ...req.query,
       startDate: req.query.startDate ? new Date(req.query.startDate as string) : undefined,
       endDate: req.query.endDate ? new Date(req.query.endDate as string) : undefined,
@@ -108,6 +264,10 @@ router.get('/', validateQuery(orderFiltersSchema), async (req: Request, res: Res
       offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
     };
 
+    // Customers and transporters only ever see their own orders
+    if (req.user!.role === UserRole.CUSTOMER) filters.customerId = req.user!.userId;
+    if (req.user!.role === UserRole.TRANSPORTER) filters.transporterId = req.user!.transporterId;
+
     const result = await orderService.getOrders(filters);
 
     res.json({
@@ -124,6 +284,7 @@ router.get('/', validateQuery(orderFiltersSchema), async (req: Request, res: Res
 router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
   try {
     const order = await orderService.getOrderById(req.params.id);
+    assertOrderAccess(req.user!, order);
 
     res.json({
       success: true,
@@ -134,16 +295,69 @@ router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
   }
 });
 
+// GET /api/v1/orders/:id/events - Get order status transition history
+router.get('/:id/events', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    assertOrderAccess(req.user!, await orderService.getOrderById(req.params.id));
+    const events = await orderService.getOrderEvents(req.params.id);
+
+    res.json({
+      success: true,
+      data: events,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/orders/:id/geofence-events - Get detected pickup and delivery arrivals and departures
+router.get('/:id/geofence-events', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    assertOrderAccess(req.user!, await orderService.getOrderById(req.params.id));
+    const events = await orderService.getGeofenceEvents(req.params.id);
+
+    res.json({
+      success: true,
+      data: events,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/orders/:id/trail - Recorded trail of an order, as JSON or a GeoJSON, GPX or KML download
+router.get('/:id/trail', validateQuery(trailQuerySchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    assertOrderAccess(req.user!, await orderService.getOrderById(req.params.id));
+    const trail = await trailService.getOrderTrail(req.params.id, parseTrailOptions(req.query));
+
+    sendTrail(res, trail, req.query.format as TrailFormat | undefined);
+  } catch (error) {
+    next(error);
+  }
+});
+
 // PUT /api/v1/orders/:id - Update order status
-router.put('/:id', async (req: Request, res: Response, next: NextFunction) => {
+router.put('/:id', authorize(UserRole.TRANSPORTER, UserRole.DISPATCHER, UserRole.ADMIN), validateRequest(updateStatusSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { status } = req.body;
+    const { status, reason, location } = req.body;
 
-    if (!Object.values(OrderStatus).includes(status)) {
-      return next(createError('Invalid order status', 400));
+    if (req.user!.role === UserRole.TRANSPORTER) {
+      if (!TRANSPORTER_STATUSES.includes(status)) {
+        return next(createError(`Transporters can only set ${TRANSPORTER_STATUSES.join(' or ')}`, 403));
+      }
+      if (status === OrderStatus.FAILED && !reason) {
+        return next(createError('A reason is required to mark an order failed', 400));
+      }
     }
 
-    const order = await orderService.updateOrderStatus(req.params.id, status);
+    assertOrderAccess(req.user!, await orderService.getOrderById(req.params.id));
+
+    const order = await orderService.updateOrderStatus(req.params.id, status, {
+      actor: req.user!.userId,
+      reason,
+      location,
+    });
 
     res.json({
       success: true,
@@ -154,11 +368,118 @@ router.put('/:id', async (req: Request, res: Response, next: NextFunction) => {
   }
 });
 
+// POST /api/v1/orders/:id/proof-of-delivery - Submit proof of delivery and mark the order delivered
+router.post('/:id/proof-of-delivery', authorize(UserRole.TRANSPORTER), uploadProofFiles, validateRequest(proofOfDeliverySchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const files = (req.files || {}) as Record<string, Express.Multer.File[]>;
+    if (!files.signature?.length) {
+      return next(createError('A signature image is required', 400));
+    }
+    if (!req.user!.transporterId) {
+      return next(createError('Insufficient permissions', 403));
+    }
+
+    const order = await proofOfDeliveryService.submit(req.params.id, {
+      transporterId: req.user!.transporterId,
+      recipientName: req.body.recipientName.trim(),
+      pin: req.body.pin,
+      latitude: parseFloat(req.body.latitude),
+      longitude: parseFloat(req.body.longitude),
+      accuracyMeters: req.body.accuracyMeters !== undefined ? parseFloat(req.body.accuracyMeters) : undefined,
+      capturedAt: new Date(req.body.capturedAt),
+      signature: toUploadedImage(files.signature[0]),
+      photos: (files.photos || []).map(toUploadedImage),
+    }, { actor: req.user!.userId });
+
+    res.status(201).json({
+      success: true,
+      data: order,
+      message: 'Order delivered',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/orders/:id/proof-of-delivery - Get the recorded proof of delivery
+router.get('/:id/proof-of-delivery', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    assertOrderAccess(req.user!, await orderService.getOrderById(req.params.id));
+    const proof = await proofOfDeliveryService.getProof(req.params.id);
+
+    res.json({
+      success: true,
+      data: proof,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/orders/:id/proof-of-delivery/signature - Download the recipient's signature
+router.get('/:id/proof-of-delivery/signature', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    assertOrderAccess(req.user!, await orderService.getOrderById(req.params.id));
+    const file = await proofOfDeliveryService.getFile(req.params.id);
+
+    res.type(file.contentType).send(file.data);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/orders/:id/proof-of-delivery/photos/:index - Download a delivery photo, counting from 0
+router.get('/:id/proof-of-delivery/photos/:index', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const index = parseInt(req.params.index);
+    if (isNaN(index) || index < 0) {
+      return next(createError('Invalid photo index', 400));
+    }
+
+    assertOrderAccess(req.user!, await orderService.getOrderById(req.params.id));
+    const file = await proofOfDeliveryService.getFile(req.params.id, index);
+
+    res.type(file.contentType).send(file.data);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/v1/orders/:id/delivery-pin - Issue a new one-time PIN for the recipient to give the driver
+router.post('/:id/delivery-pin', authorize(UserRole.CUSTOMER, UserRole.DISPATCHER, UserRole.ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    assertOrderAccess(req.user!, await orderService.getOrderById(req.params.id));
+    const pin = await proofOfDeliveryService.issuePin(req.params.id, req.user!.userId);
+
+    res.status(201).json({
+      success: true,
+      data: { pin },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/orders/:id/delivery-pin/events - Audit trail of delivery PIN issuing and entry
+router.get('/:id/delivery-pin/events', authorize(UserRole.CUSTOMER, UserRole.DISPATCHER, UserRole.ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    assertOrderAccess(req.user!, await orderService.getOrderById(req.params.id));
+    const events = await proofOfDeliveryService.getPinEvents(req.params.id);
+
+    res.json({
+      success: true,
+      data: events,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // POST /api/v1/orders/:id/assign - Assign transporter to order
-router.post('/:id/assign', validateRequest(assignTransporterSchema), async (req: Request, res: Response, next: NextFunction) => {
+router.post('/:id/assign', authorize(UserRole.DISPATCHER, UserRole.ADMIN), validateRequest(assignTransporterSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { transporterId } = req.body;
-    const order = await orderService.assignTransporter(req.params.id, transporterId);
+    const order = await orderService.assignTransporter(req.params.id, transporterId, { actor: req.user!.userId });
 
     res.json({
       success: true,
@@ -170,9 +491,14 @@ router.post('/:id/assign', validateRequest(assignTransporterSchema), async (req:
 });
 
 // DELETE /api/v1/orders/:id - Cancel order
-router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+router.delete('/:id', authorize(UserRole.CUSTOMER, UserRole.DISPATCHER, UserRole.ADMIN), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const order = await orderService.cancelOrder(req.params.id);
+    assertOrderAccess(req.user!, await orderService.getOrderById(req.params.id));
+
+    const order = await orderService.cancelOrder(req.params.id, {
+      actor: req.user!.userId,
+      reason: req.body?.reason,
+    });
 
     res.json({
       success: true,
@@ -184,7 +510,7 @@ router.delete('/:id', async (req: Request, res: Response, next: NextFunction) =>
   }
 });
 
-// POST /api/v1/orders/estimate - Calculate cost estimate
+// POST /api/v1/orders/estimate - Calculate a non-binding cost estimate
 router.post('/estimate', validateRequest(createOrderSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const orderData: CreateOrderData = {
@@ -193,13 +519,13 @@ router.post('/estimate', validateRequest(createOrderSchema), async (req: Request
       deliveryTime: req.body.deliveryTime ? new Date(req.body.deliveryTime) : undefined,
     };
 
-    const estimatedCost = await orderService.calculateEstimatedCost(orderData);
+    const quote = await orderService.quoteOrder(orderData);
 
     res.json({
       success: true,
       data: {
-        estimatedCost,
-        currency: 'USD',
+        ...quote,
+        estimatedCost: quote.total,
       },
     });
   } catch (error) {
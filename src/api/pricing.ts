@@ -0,0 +1,157 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import Joi from 'joi';
+import { UserRole, VehicleType } from '@prisma/client';
+import { pricingService, CreateRateCardData, PricingZoneData } from '@/services/pricingService';
+import { authenticate, authorize } from '@/middleware/auth';
+import { createError } from '@/middleware/errorHandler';
+
+const router = Router();
+
+// Tariffs are internal; customers see prices through order estimates
+router.use(authenticate, authorize(UserRole.DISPATCHER, UserRole.ADMIN));
+
+// Validation schemas
+const surchargeSchema = Joi.object({
+  code: Joi.string().uppercase().max(40).required(),
+  label: Joi.string().max(100).required(),
+  keywords: Joi.array().items(Joi.string().min(1)).min(1).required(),
+  amount: Joi.number().min(0).optional(),
+  percent: Joi.number().min(0).max(1000).optional(),
+}).or('amount', 'percent');
+
+const timeBandSchema = Joi.object({
+  label: Joi.string().max(100).required(),
+  days: Joi.array().items(Joi.number().integer().min(0).max(6)).min(1).unique().optional(),
+  startHour: Joi.number().integer().min(0).max(23).required(),
+  endHour: Joi.number().integer().min(0).max(24).required(),
+  multiplier: Joi.number().positive().max(10).required(),
+});
+
+const createRateCardSchema = Joi.object({
+  zoneCode: Joi.string().uppercase().max(40).required(),
+  vehicleType: Joi.string().valid(...Object.values(VehicleType)).required(),
+  currency: Joi.string().length(3).uppercase().optional(),
+  baseFare: Joi.number().min(0).required(),
+  perKm: Joi.number().min(0).required(),
+  perKg: Joi.number().min(0).required(),
+  volumetricDivisor: Joi.number().positive().optional(),
+  minimumFare: Joi.number().min(0).optional(),
+  surcharges: Joi.array().items(surchargeSchema).unique('code').optional(),
+  timeBands: Joi.array().items(timeBandSchema).optional(),
+  effectiveFrom: Joi.date().iso().optional(),
+});
+
+const rateCardFiltersSchema = Joi.object({
+  zoneCode: Joi.string().uppercase().optional(),
+  vehicleType: Joi.string().valid(...Object.values(VehicleType)).optional(),
+});
+
+const zoneSchema = Joi.object({
+  name: Joi.string().max(100).required(),
+  center: Joi.object({
+    latitude: Joi.number().min(-90).max(90).required(),
+    longitude: Joi.number().min(-180).max(180).required(),
+  }).required(),
+  radiusKm: Joi.number().positive().max(1000).required(),
+  timezone: Joi.string().optional(),
+});
+
+const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Validation middleware
+const validateRequest = (schema: Joi.ObjectSchema) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const { error } = schema.validate(req.body);
+    if (error) {
+      return next(createError(error.details[0].message, 400));
+    }
+    next();
+  };
+};
+
+const validateQuery = (schema: Joi.ObjectSchema) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const { error } = schema.validate(req.query);
+    if (error) {
+      return next(createError(error.details[0].message, 400));
+    }
+    next();
+  };
+};
+
+// Routes
+
+// GET /api/v1/pricing/rate-cards - List rate card versions, newest first per zone and vehicle class
+router.get('/rate-cards', validateQuery(rateCardFiltersSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const rateCards = await pricingService.getRateCards({
+      zoneCode: (req.query.zoneCode as string | undefined)?.toUpperCase(),
+      vehicleType: req.query.vehicleType as VehicleType | undefined,
+    });
+
+    res.json({
+      success: true,
+      data: rateCards,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/v1/pricing/rate-cards - Publish a new rate card version
+router.post('/rate-cards', authorize(UserRole.ADMIN), validateRequest(createRateCardSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { value } = createRateCardSchema.validate(req.body);
+    const rateCard = await pricingService.createRateCard(value as CreateRateCardData, req.user!.userId);
+
+    res.status(201).json({
+      success: true,
+      data: rateCard,
+      message: `Rate card version ${rateCard.version} published`,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/pricing/zones - List pricing zones
+router.get('/zones', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const zones = await pricingService.getZones();
+
+    res.json({
+      success: true,
+      data: zones,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/v1/pricing/zones/:code - Create or update a pricing zone
+router.put('/zones/:code', authorize(UserRole.ADMIN), validateRequest(zoneSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (req.body.timezone && !isValidTimezone(req.body.timezone)) {
+      return next(createError(`Unknown timezone ${req.body.timezone}`, 400));
+    }
+
+    const zoneData: PricingZoneData = { ...req.body, code: req.params.code.toUpperCase() };
+    const zone = await pricingService.upsertZone(zoneData);
+
+    res.json({
+      success: true,
+      data: zone,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
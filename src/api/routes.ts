@@ -1,11 +1,20 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
-import { RouteStatus } from '@prisma/client';
-import { routingService, RouteOptimizationRequest, RouteWaypoint } from '@/services/routingService';
+import { RouteStatus, UserRole } from '@prisma/client';
+import { routingService, RouteOptimizationRequest, RouteWithRelations } from '@/services/routingService';
+import { ROUTING_PROVIDER_NAMES } from '@/services/routingProviders';
+import { routeDeviationMonitor } from '@/services/routeDeviationMonitor';
+import { jobService } from '@/services/jobService';
+import { authenticate, authorize, assertOrderAccess, AuthPrincipal } from '@/middleware/auth';
 import { createError } from '@/middleware/errorHandler';
 
 const router = Router();
 
+// How long POST /routes waits for the route before answering 202 with the job
+const routeJobWaitMs = () => parseInt(process.env.ROUTE_JOB_WAIT_MS || '2000');
+
+router.use(authenticate);
+
 // Validation schemas
 const waypointSchema = Joi.object({
   latitude: Joi.number().min(-90).max(90).required(),
@@ -14,7 +23,7 @@ const waypointSchema = Joi.object({
   estimatedArrival: Joi.date().iso().optional(),
 });
 
-const routeCalculationSchema = Joi.object({
+export const routeCalculationSchema = Joi.object({
   origin: waypointSchema.required(),
   destination: waypointSchema.required(),
   waypoints: Joi.array().items(waypointSchema).optional(),
@@ -23,6 +32,7 @@ const routeCalculationSchema = Joi.object({
   ).required(),
   trafficModel: Joi.string().valid('best_guess', 'pessimistic', 'optimistic').optional(),
   departureTime: Joi.date().iso().optional(),
+  provider: Joi.string().valid(...ROUTING_PROVIDER_NAMES).optional(),
 });
 
 const createRouteSchema = Joi.object({
@@ -31,14 +41,15 @@ const createRouteSchema = Joi.object({
   routeRequest: routeCalculationSchema.required(),
 });
 
-const optimizeMultipleSchema = Joi.object({
+export const optimizeMultipleSchema = Joi.object({
   transporterId: Joi.string().required(),
-  deliveryPoints: Joi.array().items(waypointSchema).min(2).required(),
-});
+  deliveryPoints: Joi.array().items(waypointSchema).min(1).max(200).optional(),
+  orderIds: Joi.array().items(Joi.string()).min(1).max(200).unique().optional(),
+  departureTime: Joi.date().iso().optional(),
+}).or('deliveryPoints', 'orderIds');
 
 const updateStatusSchema = Joi.object({
   status: Joi.string().valid(...Object.values(RouteStatus)).required(),
-  actualDuration: Joi.number().positive().optional(),
 });
 
 const recalculateRouteSchema = Joi.object({
@@ -56,10 +67,18 @@ const validateRequest = (schema: Joi.ObjectSchema) => {
   };
 };
 
+// Customers may read the route of their own order; transporters only their own routes
+const assertRouteAccess = (principal: AuthPrincipal, route: RouteWithRelations) => {
+  assertOrderAccess(principal, {
+    customerId: route.order.customerId,
+    transporterId: route.transporterId,
+  });
+};
+
 // Routes
 
 // POST /api/v1/routes/calculate - Calculate optimal route
-router.post('/calculate', validateRequest(routeCalculationSchema), async (req: Request, res: Response, next: NextFunction) => {
+router.post('/calculate', authorize(UserRole.TRANSPORTER, UserRole.DISPATCHER, UserRole.ADMIN), validateRequest(routeCalculationSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const routeRequest: RouteOptimizationRequest = {
       ...req.body,
@@ -77,15 +96,26 @@ router.post('/calculate', validateRequest(routeCalculationSchema), async (req: R
   }
 });
 
-// POST /api/v1/routes - Create route for order
-router.post('/', validateRequest(createRouteSchema), async (req: Request, res: Response, next: NextFunction) => {
+// POST /api/v1/routes - Create route for order; 202 with a job ID when the provider is slow
+router.post('/', authorize(UserRole.DISPATCHER, UserRole.ADMIN), validateRequest(createRouteSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { orderId, transporterId, routeRequest } = req.body;
 
-    const route = await routingService.createRoute(orderId, transporterId, {
-      ...routeRequest,
-      departureTime: routeRequest.departureTime ? new Date(routeRequest.departureTime) : undefined,
-    });
+    // Refuse what the job would only fail on, rather than queueing it
+    await routingService.assertRouteCreatable(orderId, transporterId);
+
+    const job = await jobService.enqueueRouteComputation({ orderId, transporterId, routeRequest });
+    const result = await jobService.waitForResult<{ routeId: string }>(job, routeJobWaitMs());
+
+    if (!result) {
+      return res.status(202).json({
+        success: true,
+        data: { jobId: String(job.id) },
+        message: 'Route computation queued',
+      });
+    }
+
+    const route = await routingService.getRouteById(result.routeId);
 
     res.status(201).json({
       success: true,
@@ -97,10 +127,25 @@ router.post('/', validateRequest(createRouteSchema), async (req: Request, res: R
   }
 });
 
+// GET /api/v1/routes/jobs/:jobId - Get the status of a queued route computation
+router.get('/jobs/:jobId', authorize(UserRole.DISPATCHER, UserRole.ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const status = await jobService.getJobStatus('route-computation', req.params.jobId);
+
+    res.json({
+      success: true,
+      data: status,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // GET /api/v1/routes/:id - Get route details
 router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
   try {
     const route = await routingService.getRouteById(req.params.id);
+    assertRouteAccess(req.user!, route);
 
     res.json({
       success: true,
@@ -112,10 +157,11 @@ router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
 });
 
 // PUT /api/v1/routes/:id/status - Update route status
-router.put('/:id/status', validateRequest(updateStatusSchema), async (req: Request, res: Response, next: NextFunction) => {
+router.put('/:id/status', authorize(UserRole.TRANSPORTER, UserRole.DISPATCHER, UserRole.ADMIN), validateRequest(updateStatusSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { status, actualDuration } = req.body;
-    const route = await routingService.updateRouteStatus(req.params.id, status, actualDuration);
+    const { status } = req.body;
+    assertRouteAccess(req.user!, await routingService.getRouteById(req.params.id));
+    const route = await routingService.updateRouteStatus(req.params.id, status);
 
     res.json({
       success: true,
@@ -127,11 +173,16 @@ router.put('/:id/status', validateRequest(updateStatusSchema), async (req: Reque
   }
 });
 
-// POST /api/v1/routes/optimize - Optimize multiple deliveries
-router.post('/optimize', validateRequest(optimizeMultipleSchema), async (req: Request, res: Response, next: NextFunction) => {
+// POST /api/v1/routes/optimize - Optimize multiple deliveries for one transporter; staff only, as solving takes up to the VRP budget
+router.post('/optimize', authorize(UserRole.DISPATCHER, UserRole.ADMIN), validateRequest(optimizeMultipleSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { transporterId, deliveryPoints } = req.body;
-    const optimizedRoute = await routingService.optimizeMultipleDeliveries(transporterId, deliveryPoints);
+    const { transporterId, deliveryPoints, orderIds, departureTime } = req.body;
+
+    const optimizedRoute = await routingService.optimizeMultipleDeliveries(transporterId, {
+      deliveryPoints,
+      orderIds,
+      departureTime: departureTime ? new Date(departureTime) : undefined,
+    });
 
     res.json({
       success: true,
@@ -146,13 +197,16 @@ router.post('/optimize', validateRequest(optimizeMultipleSchema), async (req: Re
 // GET /api/v1/routes/:id/traffic - Get real-time traffic conditions
 router.get('/:id/traffic', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const trafficConditions = await routingService.getRealTimeTrafficUpdate(req.params.id);
+    assertRouteAccess(req.user!, await routingService.getRouteById(req.params.id));
+    const traffic = await routingService.getRealTimeTrafficUpdate(req.params.id);
 
     res.json({
       success: true,
       data: {
         routeId: req.params.id,
-        trafficConditions,
+        provider: traffic.provider,
+        trafficConditions: traffic.conditions,
+        totalDelay: traffic.totalDelay,
         timestamp: new Date().toISOString(),
       },
     });
@@ -162,9 +216,10 @@ router.get('/:id/traffic', async (req: Request, res: Response, next: NextFunctio
 });
 
 // POST /api/v1/routes/:id/recalculate - Recalculate route from current position
-router.post('/:id/recalculate', validateRequest(recalculateRouteSchema), async (req: Request, res: Response, next: NextFunction) => {
+router.post('/:id/recalculate', authorize(UserRole.TRANSPORTER, UserRole.DISPATCHER, UserRole.ADMIN), validateRequest(recalculateRouteSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { currentLocation } = req.body;
+    assertRouteAccess(req.user!, await routingService.getRouteById(req.params.id));
     const newRoute = await routingService.recalculateRoute(req.params.id, currentLocation);
 
     res.json({
@@ -177,52 +232,30 @@ router.post('/:id/recalculate', validateRequest(recalculateRouteSchema), async (
   }
 });
 
-// GET /api/v1/routes/:id/tracking - Get route tracking information
-router.get('/:id/tracking', async (req: Request, res: Response, next: NextFunction) => {
+// GET /api/v1/routes/:id/events - Get off-route, back-on-route and automatic recalculation history
+router.get('/:id/events', authorize(UserRole.TRANSPORTER, UserRole.DISPATCHER, UserRole.ADMIN), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const route = await routingService.getRouteById(req.params.id);
-    
-    // Get latest tracking data for the transporter
-    const trackingData = await require('@/config/database').default.trackingData.findMany({
-      where: { 
-        transporterId: route.transporterId,
-        orderId: route.orderId 
-      },
-      orderBy: { timestamp: 'desc' },
-      take: 1,
-    });
+    assertRouteAccess(req.user!, await routingService.getRouteById(req.params.id));
+    const events = await routeDeviationMonitor.getEvents(req.params.id);
 
-    const currentLocation = trackingData[0] || null;
-    const routePath = route.optimizedPath as RouteWaypoint[];
-
-    // Calculate progress
-    let progress = 0;
-    if (currentLocation && routePath.length > 0) {
-      const distances = routePath.map(point => {
-        const R = 6371; // Earth's radius in km
-        const dLat = (point.latitude - currentLocation.latitude) * (Math.PI / 180);
-        const dLon = (point.longitude - currentLocation.longitude) * (Math.PI / 180);
-        
-        const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-                  Math.cos(currentLocation.latitude * (Math.PI / 180)) * Math.cos(point.latitude * (Math.PI / 180)) *
-                  Math.sin(dLon / 2) * Math.sin(dLon / 2);
-        
-        return 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a)) * R;
-      });
+    res.json({
+      success: true,
+      data: events,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
 
-      const closestPointIndex = distances.indexOf(Math.min(...distances));
-      progress = Math.round((closestPointIndex / (routePath.length - 1)) * 100);
-    }
+// GET /api/v1/routes/:id/tracking - Get route tracking information
+router.get('/:id/tracking', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const tracking = await routingService.getRouteTracking(req.params.id);
+    assertRouteAccess(req.user!, tracking.route);
 
     res.json({
       success: true,
-      data: {
-        route,
-        currentLocation,
-        progress,
-        estimatedTimeRemaining: route.estimatedDuration * (1 - progress / 100),
-        lastUpdate: currentLocation?.timestamp || null,
-      },
+      data: tracking,
     });
   } catch (error) {
     next(error);
@@ -1,11 +1,18 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
-import { TransporterStatus, VehicleType } from '@prisma/client';
+import { TransporterStatus, UserRole, VehicleType } from '@prisma/client';
 import { transporterService, CreateTransporterData, UpdateTransporterData } from '@/services/transporterService';
+import { geoIndexService } from '@/services/geoIndexService';
+import { telemetryService, TelemetryFix } from '@/services/telemetryService';
+import { authenticate, authorize, authorizeTransporterSelf, isStaff } from '@/middleware/auth';
 import { createError } from '@/middleware/errorHandler';
+import { trailService, Trail, TrailOptions } from '@/services/trailService';
+import { exportTrail, TrailFormat, TRAIL_FORMATS } from '@/utils/trailExport';
 
 const router = Router();
 
+router.use(authenticate);
+
 // Validation schemas
 const createTransporterSchema = Joi.object({
   name: Joi.string().min(2).max(100).required(),
@@ -24,20 +31,21 @@ const updateTransporterSchema = Joi.object({
   vehicleType: Joi.string().valid(...Object.values(VehicleType)).optional(),
   capacityWeight: Joi.number().positive().optional(),
   capacityVolume: Joi.number().positive().optional(),
-  currentLocation: Joi.object({
-    latitude: Joi.number().min(-90).max(90).required(),
-    longitude: Joi.number().min(-180).max(180).required(),
-  }).optional(),
-  availabilityStatus: Joi.string().valid(...Object.values(TransporterStatus)).optional(),
 });
 
-const transporterFiltersSchema = Joi.object({
+// What transporters may change on their own profile; location and availability have their own endpoints
+const selfUpdateTransporterSchema = Joi.object({
+  phoneNumber: Joi.string().pattern(/^\+?[\d\s\-\(\)]+$/).optional(),
+});
+
+export const transporterFiltersSchema = Joi.object({
   status: Joi.string().valid(...Object.values(TransporterStatus)).optional(),
   vehicleType: Joi.string().valid(...Object.values(VehicleType)).optional(),
   isVerified: Joi.boolean().optional(),
   nearLatitude: Joi.number().min(-90).max(90).optional(),
   nearLongitude: Joi.number().min(-180).max(180).optional(),
   radiusKm: Joi.number().positive().max(1000).optional(),
+  nearest: Joi.number().integer().min(1).max(100).optional(),
   minCapacityWeight: Joi.number().positive().optional(),
   minCapacityVolume: Joi.number().positive().optional(),
   limit: Joi.number().integer().min(1).max(100).optional(),
@@ -51,19 +59,65 @@ const statusUpdateSchema = Joi.object({
 const locationUpdateSchema = Joi.object({
   latitude: Joi.number().min(-90).max(90).required(),
   longitude: Joi.number().min(-180).max(180).required(),
+  speed: Joi.number().min(0),
+  heading: Joi.number().min(0).max(360),
+});
+
+interface TelemetryBatch {
+  fixes: TelemetryFix[];
+}
+
+const telemetryFixSchema = Joi.object<TelemetryFix>({
+  latitude: Joi.number().min(-90).max(90).required(),
+  longitude: Joi.number().min(-180).max(180).required(),
+  timestamp: Joi.date().iso().required(),
+  speed: Joi.number().min(0),
+  heading: Joi.number().min(0).max(360),
+  batteryLevel: Joi.number().integer().min(0).max(100),
+});
+
+const telemetryBatchSchema = Joi.object<TelemetryBatch>({
+  fixes: Joi.array().items(telemetryFixSchema).min(1).max(500).required(),
+});
+
+const verificationSchema = Joi.object({
+  isVerified: Joi.boolean().required(),
+});
+
+const ratingSchema = Joi.object({
+  orderId: Joi.string().required(),
+  rating: Joi.number().min(1).max(5).required(),
+});
+
+const trailQuerySchema = Joi.object({
+  from: Joi.date().iso().required(),
+  to: Joi.date().iso().min(Joi.ref('from')).required(),
+  format: Joi.string().valid(...TRAIL_FORMATS).optional(),
+  simplifyMeters: Joi.number().positive().max(1000).optional(),
+  stops: Joi.boolean().optional(),
+  stopRadiusMeters: Joi.number().positive().max(1000).optional(),
+  minStopSeconds: Joi.number().integer().min(1).optional(),
 });
 
 // Validation middleware
+// Replaces the body with the validated value, so handlers see converted types (e.g. dates)
 const validateRequest = (schema: Joi.ObjectSchema) => {
   return (req: Request, res: Response, next: NextFunction) => {
-    const { error } = schema.validate(req.body);
+    const { error, value } = schema.validate(req.body);
     if (error) {
       return next(createError(error.details[0].message, 400));
     }
+    req.body = value;
     next();
   };
 };
 
+// Staff edit the whole profile; transporters editing their own get the narrow schema
+const validateTransporterUpdate = (req: Request, res: Response, next: NextFunction) => {
+  const schema = req.user && isStaff(req.user) ? updateTransporterSchema : selfUpdateTransporterSchema;
+  validateRequest(schema)(req, res, next);
+};
+
 const validateQuery = (schema: Joi.ObjectSchema) => {
   return (req: Request, res: Response, next: NextFunction) => {
     const { error } = schema.validate(req.query);
@@ -74,10 +128,40 @@ const validateQuery = (schema: Joi.ObjectSchema) => {
   };
 };
 
+// Without an explicit radius, k-nearest searches look further than plain proximity filters
+const DEFAULT_RADIUS_KM = 10;
+const DEFAULT_NEAREST_RADIUS_KM = 200;
+
+const parseNearLocation = (query: Request['query']) => ({
+  latitude: parseFloat(query.nearLatitude as string),
+  longitude: parseFloat(query.nearLongitude as string),
+  radiusKm: query.radiusKm
+    ? parseFloat(query.radiusKm as string)
+    : query.nearest ? DEFAULT_NEAREST_RADIUS_KM : DEFAULT_RADIUS_KM,
+});
+
+const parseTrailOptions = (query: Request['query']): TrailOptions => ({
+  from: query.from ? new Date(query.from as string) : undefined,
+  to: query.to ? new Date(query.to as string) : undefined,
+  simplifyToleranceMeters: query.simplifyMeters ? parseFloat(query.simplifyMeters as string) : undefined,
+  detectStops: query.stops === 'true',
+  stopRadiusMeters: query.stopRadiusMeters ? parseFloat(query.stopRadiusMeters as string) : undefined,
+  minStopSeconds: query.minStopSeconds ? parseInt(query.minStopSeconds as string) : undefined,
+});
+
+const sendTrail = (res: Response, trail: Trail, format: TrailFormat = 'json') => {
+  if (format === 'json') {
+    return res.json({ success: true, data: trail });
+  }
+
+  const file = exportTrail(trail, format);
+  res.type(file.contentType).attachment(file.fileName).send(file.body);
+};
+
 // Routes
 
 // POST /api/v1/transporters - Register new transporter
-router.post('/', validateRequest(createTransporterSchema), async (req: Request, res: Response, next: NextFunction) => {
+router.post('/', authorize(UserRole.DISPATCHER, UserRole.ADMIN), validateRequest(createTransporterSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const transporterData: CreateTransporterData = req.body;
     const transporter = await transporterService.createTransporter(transporterData);
@@ -93,7 +177,7 @@ router.post('/', validateRequest(createTransporterSchema), async (req: Request,
 });
 
 // GET /api/v1/transporters - List transporters with filters
-router.get('/', validateQuery(transporterFiltersSchema), async (req: Request, res: Response, next: NextFunction) => {
+router.get('/', authorize(UserRole.DISPATCHER, UserRole.ADMIN), validateQuery(transporterFiltersSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const filters: any = {
       ...req.query,
@@ -105,18 +189,20 @@ router.get('/', validateQuery(transporterFiltersSchema), async (req: Request, re
 
     // Handle location-based filtering
     if (req.query.nearLatitude && req.query.nearLongitude) {
-      filters.nearLocation = {
-        latitude: parseFloat(req.query.nearLatitude as string),
-        longitude: parseFloat(req.query.nearLongitude as string),
-        radiusKm: req.query.radiusKm ? parseFloat(req.query.radiusKm as string) : 10,
-      };
-      
-      // Remove individual location params
-      delete filters.nearLatitude;
-      delete filters.nearLongitude;
-      delete filters.radiusKm;
+      filters.nearLocation = parseNearLocation(req.query);
+
+      // k-nearest: the closest `nearest` transporters
+      if (req.query.nearest) {
+        filters.limit = parseInt(req.query.nearest as string);
+      }
     }
 
+    // Remove individual location params
+    delete filters.nearLatitude;
+    delete filters.nearLongitude;
+    delete filters.radiusKm;
+    delete filters.nearest;
+
     const result = await transporterService.getTransporters(filters);
 
     res.json({
@@ -130,7 +216,7 @@ router.get('/', validateQuery(transporterFiltersSchema), async (req: Request, re
 });
 
 // GET /api/v1/transporters/available - Get available transporters
-router.get('/available', validateQuery(transporterFiltersSchema), async (req: Request, res: Response, next: NextFunction) => {
+router.get('/available', authorize(UserRole.DISPATCHER, UserRole.ADMIN), validateQuery(transporterFiltersSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const filters: any = {
       vehicleType: req.query.vehicleType,
@@ -139,11 +225,11 @@ router.get('/available', validateQuery(transporterFiltersSchema), async (req: Re
     };
 
     if (req.query.nearLatitude && req.query.nearLongitude) {
-      filters.nearLocation = {
-        latitude: parseFloat(req.query.nearLatitude as string),
-        longitude: parseFloat(req.query.nearLongitude as string),
-        radiusKm: req.query.radiusKm ? parseFloat(req.query.radiusKm as string) : 10,
-      };
+      filters.nearLocation = parseNearLocation(req.query);
+
+      if (req.query.nearest) {
+        filters.limit = parseInt(req.query.nearest as string);
+      }
     }
 
     const result = await transporterService.getAvailableTransporters(filters);
@@ -158,8 +244,23 @@ router.get('/available', validateQuery(transporterFiltersSchema), async (req: Re
   }
 });
 
+// POST /api/v1/transporters/geo-index/rebuild - Rebuild the proximity index from stored locations
+router.post('/geo-index/rebuild', authorize(UserRole.ADMIN), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const indexed = await geoIndexService.rebuildTransporterIndex();
+
+    res.json({
+      success: true,
+      data: { indexed },
+      message: 'Geo index rebuilt',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // GET /api/v1/transporters/:id - Get transporter profile
-router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/:id', authorizeTransporterSelf(), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const transporter = await transporterService.getTransporterById(req.params.id);
 
@@ -173,7 +274,7 @@ router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
 });
 
 // PUT /api/v1/transporters/:id - Update transporter profile
-router.put('/:id', validateRequest(updateTransporterSchema), async (req: Request, res: Response, next: NextFunction) => {
+router.put('/:id', authorizeTransporterSelf(), validateTransporterUpdate, async (req: Request, res: Response, next: NextFunction) => {
   try {
     const updateData: UpdateTransporterData = req.body;
     const transporter = await transporterService.updateTransporter(req.params.id, updateData);
@@ -189,7 +290,7 @@ router.put('/:id', validateRequest(updateTransporterSchema), async (req: Request
 });
 
 // PUT /api/v1/transporters/:id/status - Update availability status
-router.put('/:id/status', validateRequest(statusUpdateSchema), async (req: Request, res: Response, next: NextFunction) => {
+router.put('/:id/status', authorizeTransporterSelf(), validateRequest(statusUpdateSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { status } = req.body;
     const transporter = await transporterService.updateStatus(req.params.id, status);
@@ -205,10 +306,10 @@ router.put('/:id/status', validateRequest(statusUpdateSchema), async (req: Reque
 });
 
 // PUT /api/v1/transporters/:id/location - Update current location
-router.put('/:id/location', validateRequest(locationUpdateSchema), async (req: Request, res: Response, next: NextFunction) => {
+router.put('/:id/location', authorizeTransporterSelf('id', [UserRole.ADMIN]), validateRequest(locationUpdateSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { latitude, longitude } = req.body;
-    await transporterService.updateLocation(req.params.id, { latitude, longitude });
+    const { latitude, longitude, speed, heading } = req.body;
+    await transporterService.updateLocation(req.params.id, { latitude, longitude, speed, heading });
 
     res.json({
       success: true,
@@ -219,8 +320,36 @@ router.put('/:id/location', validateRequest(locationUpdateSchema), async (req: R
   }
 });
 
+// POST /api/v1/transporters/:id/telemetry - Ingest a batch of timestamped GPS fixes
+router.post('/:id/telemetry', authorizeTransporterSelf('id', [UserRole.ADMIN]), validateRequest(telemetryBatchSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { fixes }: TelemetryBatch = req.body;
+
+    const result = await telemetryService.ingestFixes(req.params.id, fixes);
+
+    res.json({
+      success: true,
+      data: result,
+      message: `${result.accepted} of ${fixes.length} fixes recorded`,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/transporters/:id/trail - Recorded trail over a time range, as JSON or a GeoJSON, GPX or KML download
+router.get('/:id/trail', authorizeTransporterSelf(), validateQuery(trailQuerySchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const trail = await trailService.getTransporterTrail(req.params.id, parseTrailOptions(req.query));
+
+    sendTrail(res, trail, req.query.format as TrailFormat | undefined);
+  } catch (error) {
+    next(error);
+  }
+});
+
 // GET /api/v1/transporters/:id/orders - Get transporter's orders
-router.get('/:id/orders', async (req: Request, res: Response, next: NextFunction) => {
+router.get('/:id/orders', authorizeTransporterSelf(), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const limit = req.query.limit ? parseInt(req.query.limit as string) : 20;
     const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
@@ -237,20 +366,37 @@ router.get('/:id/orders', async (req: Request, res: Response, next: NextFunction
   }
 });
 
-// POST /api/v1/transporters/:id/rating - Update transporter rating
-router.post('/:id/rating', async (req: Request, res: Response, next: NextFunction) => {
+// PUT /api/v1/transporters/:id/verification - Verify or unverify a transporter (admin only)
+router.put('/:id/verification', authorize(UserRole.ADMIN), validateRequest(verificationSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { rating } = req.body;
+    const { isVerified } = req.body;
+    const transporter = await transporterService.setVerification(req.params.id, isVerified);
 
-    if (!rating || rating < 1 || rating > 5) {
-      return next(createError('Rating must be between 1 and 5', 400));
-    }
+    res.json({
+      success: true,
+      data: transporter,
+      message: isVerified ? 'Transporter verified' : 'Transporter verification revoked',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
 
-    await transporterService.updateRating(req.params.id, rating);
+// POST /api/v1/transporters/:id/rating - Rate the transporter who delivered one of the customer's orders
+router.post('/:id/rating', authorize(UserRole.CUSTOMER), validateRequest(ratingSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { orderId, rating } = req.body;
 
-    res.json({
+    const transporterRating = await transporterService.rateTransporter(req.params.id, {
+      orderId,
+      customerId: req.user!.userId,
+      rating,
+    });
+
+    res.status(201).json({
       success: true,
-      message: 'Rating updated successfully',
+      data: transporterRating,
+      message: 'Rating recorded successfully',
     });
   } catch (error) {
     next(error);
@@ -0,0 +1,195 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import Joi from 'joi';
+import { UserRole, WebhookDeliveryStatus } from '@prisma/client';
+import { webhookService, CreateWebhookData, WEBHOOK_EVENT_TYPES } from '@/services/webhookService';
+import { authenticate, authorize, AuthPrincipal, isStaff } from '@/middleware/auth';
+import { createError } from '@/middleware/errorHandler';
+
+const router = Router();
+
+router.use(authenticate, authorize(UserRole.CUSTOMER, UserRole.DISPATCHER, UserRole.ADMIN));
+
+// Validation schemas
+// Receivers must be public https endpoints; the dispatcher refuses internal addresses when sending
+const webhookUrl = Joi.string().uri({ scheme: ['https'] }).max(2000);
+const eventTypes = Joi.array().items(Joi.string().valid(...WEBHOOK_EVENT_TYPES)).min(1);
+
+const createWebhookSchema = Joi.object({
+  // Staff create subscriptions on a customer's behalf; customers always for themselves
+  customerId: Joi.string().optional(),
+  url: webhookUrl.required(),
+  eventTypes: eventTypes.required(),
+  description: Joi.string().max(200).optional(),
+});
+
+const updateWebhookSchema = Joi.object({
+  url: webhookUrl.optional(),
+  eventTypes: eventTypes.optional(),
+  description: Joi.string().max(200).optional(),
+  isActive: Joi.boolean().optional(),
+}).min(1);
+
+const listQuerySchema = Joi.object({
+  customerId: Joi.string().optional(),
+});
+
+const deliveriesQuerySchema = Joi.object({
+  status: Joi.string().valid(...Object.values(WebhookDeliveryStatus)).optional(),
+  limit: Joi.number().integer().min(1).max(100).optional(),
+  offset: Joi.number().integer().min(0).optional(),
+});
+
+// Validation middleware
+const validateRequest = (schema: Joi.ObjectSchema) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const { error } = schema.validate(req.body);
+    if (error) {
+      return next(createError(error.details[0].message, 400));
+    }
+    next();
+  };
+};
+
+const validateQuery = (schema: Joi.ObjectSchema) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const { error } = schema.validate(req.query);
+    if (error) {
+      return next(createError(error.details[0].message, 400));
+    }
+    next();
+  };
+};
+
+// Customers manage only their own subscriptions
+const assertSubscriptionAccess = async (principal: AuthPrincipal, subscriptionId: string) => {
+  const subscription = await webhookService.getSubscription(subscriptionId);
+
+  if (!isStaff(principal) && subscription.customerId !== principal.userId) {
+    throw createError('Insufficient permissions', 403);
+  }
+
+  return subscription;
+};
+
+// Routes
+
+// POST /api/v1/webhooks - Subscribe a URL to order and route events
+router.post('/', validateRequest(createWebhookSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (isStaff(req.user!) && !req.body.customerId) {
+      return next(createError('customerId is required', 400));
+    }
+
+    const data: CreateWebhookData = {
+      ...req.body,
+      customerId: isStaff(req.user!) ? req.body.customerId : req.user!.userId,
+    };
+
+    // The only response that includes the signing secret
+    const subscription = await webhookService.createSubscription(data);
+
+    res.status(201).json({
+      success: true,
+      data: subscription,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/webhooks - List webhook subscriptions
+router.get('/', validateQuery(listQuerySchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const customerId = isStaff(req.user!) ? req.query.customerId as string | undefined : req.user!.userId;
+    const subscriptions = await webhookService.getSubscriptions(customerId);
+
+    res.json({
+      success: true,
+      data: subscriptions,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/webhooks/:id - Get a webhook subscription
+router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const subscription = await assertSubscriptionAccess(req.user!, req.params.id);
+
+    res.json({
+      success: true,
+      data: subscription,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/v1/webhooks/:id - Change the URL or event types, or pause the subscription
+router.put('/:id', validateRequest(updateWebhookSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await assertSubscriptionAccess(req.user!, req.params.id);
+    const subscription = await webhookService.updateSubscription(req.params.id, req.body);
+
+    res.json({
+      success: true,
+      data: subscription,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/v1/webhooks/:id - Delete a subscription and its delivery log
+router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await assertSubscriptionAccess(req.user!, req.params.id);
+    await webhookService.deleteSubscription(req.params.id);
+
+    res.json({
+      success: true,
+      message: 'Webhook subscription deleted',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/v1/webhooks/:id/deliveries - Delivery log, newest first
+router.get('/:id/deliveries', validateQuery(deliveriesQuerySchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await assertSubscriptionAccess(req.user!, req.params.id);
+    const result = await webhookService.getDeliveries(req.params.id, {
+      status: req.query.status as WebhookDeliveryStatus | undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
+    });
+
+    res.json({
+      success: true,
+      data: result.deliveries,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/v1/webhooks/:id/deliveries/:deliveryId/replay - Send a past delivery again
+router.post('/:id/deliveries/:deliveryId/replay', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await assertSubscriptionAccess(req.user!, req.params.id);
+    const delivery = await webhookService.replayDelivery(req.params.id, req.params.deliveryId);
+
+    res.status(202).json({
+      success: true,
+      data: delivery,
+      message: 'Delivery queued',
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,28 @@
+import Queue from 'bull';
+import { logger } from '@/utils/logger';
+
+const jobAttempts = () => parseInt(process.env.JOB_ATTEMPTS || '3');
+const jobBackoffMs = () => parseInt(process.env.JOB_BACKOFF_MS || '5000');
+// Finished jobs kept per queue for inspection; older ones are removed
+const KEEP_FINISHED_JOBS = 1000;
+
+/**
+ * A Bull queue on REDIS_URL. Jobs are retried JOB_ATTEMPTS times with
+ * exponential backoff starting at JOB_BACKOFF_MS.
+ */
+export const createQueue = <T>(name: string): Queue.Queue<T> => {
+  const queue = new Queue<T>(name, process.env.REDIS_URL || 'redis://localhost:6379', {
+    defaultJobOptions: {
+      attempts: jobAttempts(),
+      backoff: { type: 'exponential', delay: jobBackoffMs() },
+      removeOnComplete: KEEP_FINISHED_JOBS,
+      removeOnFail: KEEP_FINISHED_JOBS,
+    },
+  });
+
+  queue.on('error', (error) => {
+    logger.error('Job queue error', { queue: name, error });
+  });
+
+  return queue;
+};
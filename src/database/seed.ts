@@ -0,0 +1,39 @@
+import dotenv from 'dotenv';
+import { UserRole } from '@prisma/client';
+import prisma from '@/config/database';
+import { authService } from '@/services/authService';
+import { logger } from '@/utils/logger';
+
+dotenv.config();
+
+// Creates the initial admin account; every other account is created through POST /api/v1/auth/users
+const seed = async () => {
+  const email = process.env.SEED_ADMIN_EMAIL;
+  const password = process.env.SEED_ADMIN_PASSWORD;
+
+  if (!email || !password) {
+    throw new Error('SEED_ADMIN_EMAIL and SEED_ADMIN_PASSWORD must be set');
+  }
+
+  const existing = await prisma.user.findUnique({ where: { email: email.toLowerCase() } });
+  if (existing) {
+    logger.info('Admin user already exists, skipping', { email });
+    return;
+  }
+
+  await authService.createUser({
+    email,
+    password,
+    name: 'Administrator',
+    role: UserRole.ADMIN,
+  });
+
+  logger.info('Admin user created', { email });
+};
+
+seed()
+  .catch((error) => {
+    logger.error('Seeding failed', { error });
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
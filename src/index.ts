@@ -1,25 +1,41 @@
+// Load .env before any module reads process.env at import time
+import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
-import dotenv from 'dotenv';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
 
 import { logger } from '@/utils/logger';
+import { connectRedis } from '@/config/redis';
+import { geoIndexService } from '@/services/geoIndexService';
+import { routeDeviationMonitor } from '@/services/routeDeviationMonitor';
+import { etaService } from '@/services/etaService';
+import { trafficMonitor } from '@/services/trafficMonitor';
+import { jobService } from '@/services/jobService';
+import { notificationService } from '@/services/notificationService';
+import { webhookService } from '@/services/webhookService';
+import { proofOfDeliveryService } from '@/services/proofOfDeliveryService';
+import { attachSocketServer, RealtimeServer } from '@/realtime/socketServer';
 import { errorHandler } from '@/middleware/errorHandler';
 import { rateLimiter } from '@/middleware/rateLimiter';
 
 // Routes
+import authRoutes from '@/api/auth';
 import orderRoutes from '@/api/orders';
 import transporterRoutes from '@/api/transporters';
 import routeRoutes from '@/api/routes';
 import matchingRoutes from '@/api/matching';
-
-dotenv.config();
+import dispatchRoutes from '@/api/dispatch';
+import pricingRoutes from '@/api/pricing';
+import jobRoutes from '@/api/jobs';
+import notificationRoutes from '@/api/notifications';
+import webhookRoutes from '@/api/webhooks';
+import mcpRoutes from '@/mcp/http';
 
 const app = express();
 const server = createServer(app);
-const io = new Server(server, {
+const io: RealtimeServer = new Server(server, {
   cors: {
     origin: process.env.CLIENT_URL || "http://localhost:3000",
     methods: ["GET", "POST"]
@@ -41,31 +57,61 @@ app.get('/health', (req, res) => {
 });
 
 // API Routes
+app.use('/api/v1/auth', authRoutes);
 app.use('/api/v1/orders', orderRoutes);
 app.use('/api/v1/transporters', transporterRoutes);
 app.use('/api/v1/routes', routeRoutes);
 app.use('/api/v1/matching', matchingRoutes);
+app.use('/api/v1/dispatch', dispatchRoutes);
+app.use('/api/v1/pricing', pricingRoutes);
+app.use('/api/v1/jobs', jobRoutes);
+app.use('/api/v1/notifications', notificationRoutes);
+app.use('/api/v1/webhooks', webhookRoutes);
+
+// Model Context Protocol (streamable HTTP)
+app.use('/mcp', mcpRoutes);
 
 // WebSocket handling
-io.on('connection', (socket) => {
-  logger.info(`Client connected: ${socket.id}`);
-  
-  socket.on('join-order', (orderId) => {
-    socket.join(`order-${orderId}`);
-  });
-  
-  socket.on('join-transporter', (transporterId) => {
-    socket.join(`transporter-${transporterId}`);
-  });
-  
-  socket.on('disconnect', () => {
-    logger.info(`Client disconnected: ${socket.id}`);
-  });
-});
+attachSocketServer(io);
+
+// Compare live positions against planned routes and reroute off-route transporters
+routeDeviationMonitor.start();
+
+// Recompute arrival estimates of routes in progress on every fix
+etaService.start();
+
+// Keep traffic delays of routes in progress current
+trafficMonitor.start();
+
+// Text and email customers and drivers about their orders
+notificationService.start();
+
+// Queue signed webhook deliveries to customers' subscribed endpoints
+webhookService.start();
+
+// Issue delivery PINs to orders that need one as they go out for delivery
+proofOfDeliveryService.start();
+
+// Process queued route computations, assignments, ETA refreshes and notifications
+jobService.startWorkers();
 
 // Error handling
 app.use(errorHandler);
 
-server.listen(PORT, () => {
-  logger.info(`Ridelink MCP Server running on port ${PORT}`);
+const start = async () => {
+  await connectRedis();
+
+  // The geo index lives only in Redis; repopulate it in case Redis restarted empty
+  await geoIndexService.rebuildTransporterIndex().catch((error) => {
+    logger.error('Failed to rebuild transporter geo index', { error });
+  });
+
+  server.listen(PORT, () => {
+    logger.info(`Ridelink MCP Server running on port ${PORT}`);
+  });
+};
+
+start().catch((error) => {
+  logger.error('Failed to start server', { error });
+  process.exit(1);
 });
\ No newline at end of file
@@ -0,0 +1,39 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { UserRole } from '@prisma/client';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { createMcpServer } from '@/mcp/server';
+import { authenticate, authorize } from '@/middleware/auth';
+
+const router = Router();
+
+router.use(authenticate, authorize(UserRole.DISPATCHER, UserRole.ADMIN));
+
+// POST /mcp - Streamable HTTP endpoint. Stateless: every request gets its own
+// server and transport, bound to the authenticated user as actor.
+router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const server = createMcpServer({ actor: req.user!.userId });
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+
+    res.on('close', () => {
+      void transport.close();
+      void server.close();
+    });
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Sessions and server-initiated streams are not used in stateless mode
+router.all('/', (req: Request, res: Response) => {
+  res.status(405).json({
+    jsonrpc: '2.0',
+    error: { code: -32000, message: 'Method not allowed' },
+    id: null,
+  });
+});
+
+export default router;
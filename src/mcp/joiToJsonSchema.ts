@@ -0,0 +1,136 @@
+import Joi from 'joi';
+
+export interface JsonSchema {
+  type?: string;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: unknown[];
+  format?: string;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+interface JoiRule {
+  name: string;
+  args?: Record<string, unknown>;
+}
+
+interface JoiDescription {
+  type: string;
+  flags?: {
+    presence?: 'required' | 'optional' | 'forbidden';
+    only?: boolean;
+    description?: string;
+    format?: string | string[];
+  };
+  keys?: Record<string, JoiDescription>;
+  items?: JoiDescription[];
+  rules?: JoiRule[];
+  allow?: unknown[];
+}
+
+/**
+ * Converts a Joi schema into the JSON Schema subset MCP clients understand.
+ * Covers the constructs our request schemas use (objects, strings, numbers,
+ * dates, booleans, arrays, `valid()` enums and range rules); conditional
+ * `when()` keys are exposed as optional and left to Joi to enforce.
+ */
+export const joiToJsonSchema = (schema: Joi.Schema): JsonSchema => {
+  return convert(schema.describe() as JoiDescription);
+};
+
+const convert = (description: JoiDescription): JsonSchema => {
+  const result: JsonSchema = {};
+  const rules = description.rules || [];
+  const limit = (name: string) => {
+    const rule = rules.find(r => r.name === name);
+    return typeof rule?.args?.limit === 'number' ? rule.args.limit : undefined;
+  };
+
+  if (description.flags?.description) {
+    result.description = description.flags.description;
+  }
+
+  if (description.flags?.only && description.allow) {
+    result.enum = description.allow.filter(value => typeof value !== 'object' || value === null);
+  }
+
+  switch (description.type) {
+    case 'object': {
+      result.type = 'object';
+      result.properties = {};
+      const required: string[] = [];
+
+      Object.entries(description.keys || {}).forEach(([key, child]) => {
+        if (child.flags?.presence === 'forbidden') return;
+        result.properties![key] = convert(child);
+        if (child.flags?.presence === 'required') required.push(key);
+      });
+
+      if (required.length > 0) result.required = required;
+      result.additionalProperties = false;
+      break;
+    }
+
+    case 'array':
+      result.type = 'array';
+      if (description.items?.length) result.items = convert(description.items[0]);
+      result.minItems = limit('min');
+      result.maxItems = limit('max');
+      break;
+
+    case 'string': {
+      result.type = 'string';
+      result.minLength = limit('min');
+      result.maxLength = limit('max');
+      if (rules.some(r => r.name === 'email')) result.format = 'email';
+
+      const pattern = rules.find(r => r.name === 'pattern')?.args?.regex;
+      if (typeof pattern === 'string') {
+        // Joi describes regexes as "/source/flags"
+        result.pattern = pattern.slice(1, pattern.lastIndexOf('/'));
+      }
+      break;
+    }
+
+    case 'number': {
+      result.type = rules.some(r => r.name === 'integer') ? 'integer' : 'number';
+      result.minimum = limit('min');
+      result.maximum = limit('max');
+
+      const sign = rules.find(r => r.name === 'sign')?.args?.sign;
+      if (sign === 'positive') result.exclusiveMinimum = 0;
+      if (sign === 'negative') result.exclusiveMaximum = 0;
+      break;
+    }
+
+    case 'date':
+      result.type = 'string';
+      result.format = 'date-time';
+      break;
+
+    case 'boolean':
+      result.type = 'boolean';
+      break;
+
+    default:
+      break;
+  }
+
+  // Drop rules that were looked up but not present
+  (Object.keys(result) as Array<keyof JsonSchema>).forEach(key => {
+    if (result[key] === undefined) delete result[key];
+  });
+
+  return result;
+};
@@ -0,0 +1,265 @@
+import Joi from 'joi';
+import { VehicleType } from '@prisma/client';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  CallToolResult,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { createOrderSchema, createOrderFromQuoteSchema, assignTransporterSchema } from '@/api/orders';
+import { transporterFiltersSchema } from '@/api/transporters';
+import { routeCalculationSchema, optimizeMultipleSchema } from '@/api/routes';
+import { orderService, CreateOrderData } from '@/services/orderService';
+import { quoteService } from '@/services/quoteService';
+import { transporterService, TransporterFilters } from '@/services/transporterService';
+import { routingService, MultiStopRequest, RouteOptimizationRequest } from '@/services/routingService';
+import { joiToJsonSchema } from '@/mcp/joiToJsonSchema';
+import { logger } from '@/utils/logger';
+
+export interface McpServerContext {
+  // Recorded as the actor on order events triggered through MCP tools
+  actor: string;
+}
+
+interface ToolDefinition<TArgs> {
+  name: string;
+  description: string;
+  schema: Joi.ObjectSchema<TArgs>;
+  handler: (args: TArgs) => Promise<unknown>;
+}
+
+// A tool with its argument type erased; `call` validates before the handler sees the arguments
+interface Tool {
+  name: string;
+  description: string;
+  schema: Joi.ObjectSchema;
+  call: (args: unknown) => Promise<{ error: string } | { result: unknown }>;
+}
+
+interface AvailableTransporterArgs {
+  vehicleType?: VehicleType;
+  minCapacityWeight?: number;
+  minCapacityVolume?: number;
+  nearLatitude?: number;
+  nearLongitude?: number;
+  radiusKm?: number;
+  nearest?: number;
+}
+
+interface MultiStopArgs extends MultiStopRequest {
+  transporterId: string;
+}
+
+const defineTool = <TArgs>(definition: ToolDefinition<TArgs>): Tool => ({
+  name: definition.name,
+  description: definition.description,
+  schema: definition.schema,
+  call: async (args) => {
+    const { error, value } = definition.schema.validate(args);
+    if (error) {
+      return { error: error.details[0].message };
+    }
+    return { result: await definition.handler(value) };
+  },
+});
+
+const RESOURCE_LIST_LIMIT = 50;
+const RESOURCE_URI_PATTERN = /^ridelink:\/\/(orders|transporters|routes)\/([^/]+)$/;
+
+const buildTools = (context: McpServerContext): Tool[] => [
+  defineTool<CreateOrderData>({
+    name: 'create_order',
+    description: 'Create a new delivery order. Returns the order with its estimated cost and itemized pricing breakdown.',
+    schema: createOrderSchema,
+    handler: async (args) => orderService.createOrder(args, { actor: context.actor }),
+  }),
+  defineTool<CreateOrderData>({
+    name: 'estimate_cost',
+    description: 'Estimate the cost of an order without creating it, with the rate card used and an itemized breakdown.',
+    schema: createOrderSchema,
+    handler: async (args) => {
+      const quote = await orderService.quoteOrder(args);
+      return { ...quote, estimatedCost: quote.total };
+    },
+  }),
+  defineTool<CreateOrderData>({
+    name: 'create_quote',
+    description: 'Issue a binding price quote for an order. The price, breakdown and distance are locked until expiresAt; pass the quote id to create_order_from_quote.',
+    schema: createOrderSchema,
+    handler: async (args) => quoteService.createQuote(args),
+  }),
+  defineTool<{ quoteId: string }>({
+    name: 'create_order_from_quote',
+    description: 'Create the order a quote was issued for, at the quoted price. Fails if the quote has expired or was already used.',
+    schema: createOrderFromQuoteSchema,
+    handler: async (args) => orderService.createOrderFromQuote(args.quoteId, { actor: context.actor }),
+  }),
+  defineTool<AvailableTransporterArgs>({
+    name: 'find_available_transporters',
+    description: 'List verified, available transporters, optionally near a location (nearLatitude, nearLongitude, radiusKm), nearest first with distanceKm. Set nearest to get the k closest.',
+    schema: transporterFiltersSchema,
+    handler: async (args) => {
+      const filters: TransporterFilters = {
+        vehicleType: args.vehicleType,
+        minCapacityWeight: args.minCapacityWeight,
+        minCapacityVolume: args.minCapacityVolume,
+      };
+
+      if (args.nearLatitude !== undefined && args.nearLongitude !== undefined) {
+        filters.nearLocation = {
+          latitude: args.nearLatitude,
+          longitude: args.nearLongitude,
+          radiusKm: args.radiusKm || (args.nearest ? 200 : 10),
+        };
+        filters.limit = args.nearest;
+      }
+
+      const result = await transporterService.getAvailableTransporters(filters);
+      return result.transporters;
+    },
+  }),
+  defineTool<{ orderId: string; transporterId: string }>({
+    name: 'assign_transporter',
+    description: 'Assign a transporter to a pending or assigned order.',
+    schema: assignTransporterSchema.keys({
+      orderId: Joi.string().required().description('Order to assign'),
+    }),
+    handler: async (args) => orderService.assignTransporter(args.orderId, args.transporterId, { actor: context.actor }),
+  }),
+  defineTool<RouteOptimizationRequest>({
+    name: 'calculate_route',
+    description: 'Calculate the optimal route between an origin and destination, with optional waypoints.',
+    schema: routeCalculationSchema,
+    handler: async (args) => routingService.calculateOptimalRoute(args),
+  }),
+  defineTool<MultiStopArgs>({
+    name: 'optimize_multi_stop',
+    description: "Sequence a transporter's orders (pickups and deliveries, respecting capacity and time windows) and/or plain delivery points from its current location. Each stop gets an ETA.",
+    schema: optimizeMultipleSchema,
+    handler: async (args) => routingService.optimizeMultipleDeliveries(args.transporterId, {
+      deliveryPoints: args.deliveryPoints,
+      orderIds: args.orderIds,
+      departureTime: args.departureTime,
+    }),
+  }),
+  defineTool<{ routeId: string }>({
+    name: 'get_route_tracking',
+    description: 'Get the live position, progress and remaining time of a route.',
+    schema: Joi.object({
+      routeId: Joi.string().required().description('Route to track'),
+    }),
+    handler: async (args) => routingService.getRouteTracking(args.routeId),
+  }),
+];
+
+const toolResult = (data: unknown, isError = false): CallToolResult => ({
+  content: [{ type: 'text', text: typeof data === 'string' ? data : JSON.stringify(data, null, 2) }],
+  ...(isError && { isError }),
+});
+
+/**
+ * Builds an MCP server exposing the dispatch services as tools and orders,
+ * transporters and routes as resources. Tool input schemas are generated
+ * from the REST API's Joi schemas, which also validate every call.
+ */
+export const createMcpServer = (context: McpServerContext): Server => {
+  const server = new Server(
+    { name: 'ridelink-mcp', version: '1.0.0' },
+    { capabilities: { tools: {}, resources: {} } }
+  );
+
+  const tools = buildTools(context);
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: tools.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: joiToJsonSchema(tool.schema) as { type: 'object' },
+    })),
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const tool = tools.find(t => t.name === request.params.name);
+    if (!tool) {
+      return toolResult(`Unknown tool: ${request.params.name}`, true);
+    }
+
+    try {
+      const outcome = await tool.call(request.params.arguments || {});
+      if ('error' in outcome) {
+        return toolResult(outcome.error, true);
+      }
+
+      logger.info('MCP tool called', { tool: tool.name, actor: context.actor });
+      return toolResult(outcome.result);
+    } catch (error) {
+      // Operational errors carry a safe message; anything else is reported generically
+      const message = error instanceof Error && (error as any).isOperational ? error.message : 'Internal Server Error';
+      logger.error('MCP tool failed', { tool: tool.name, error });
+      return toolResult(message, true);
+    }
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: [
+      { uriTemplate: 'ridelink://orders/{id}', name: 'Order', mimeType: 'application/json' },
+      { uriTemplate: 'ridelink://transporters/{id}', name: 'Transporter', mimeType: 'application/json' },
+      { uriTemplate: 'ridelink://routes/{id}', name: 'Route', mimeType: 'application/json' },
+    ],
+  }));
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    const [{ orders }, { transporters }, { routes }] = await Promise.all([
+      orderService.getOrders({ limit: RESOURCE_LIST_LIMIT }),
+      transporterService.getTransporters({ limit: RESOURCE_LIST_LIMIT }),
+      routingService.getRoutes({ limit: RESOURCE_LIST_LIMIT }),
+    ]);
+
+    return {
+      resources: [
+        ...orders.map(order => ({
+          uri: `ridelink://orders/${order.id}`,
+          name: `Order ${order.id} (${order.status})`,
+          mimeType: 'application/json',
+        })),
+        ...transporters.map(transporter => ({
+          uri: `ridelink://transporters/${transporter.id}`,
+          name: `Transporter ${transporter.name} (${transporter.availabilityStatus})`,
+          mimeType: 'application/json',
+        })),
+        ...routes.map(route => ({
+          uri: `ridelink://routes/${route.id}`,
+          name: `Route ${route.id} (${route.status})`,
+          mimeType: 'application/json',
+        })),
+      ],
+    };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const match = RESOURCE_URI_PATTERN.exec(request.params.uri);
+    if (!match) {
+      throw new Error(`Unknown resource: ${request.params.uri}`);
+    }
+
+    const [, kind, id] = match;
+    const data = kind === 'orders'
+      ? await orderService.getOrderById(id)
+      : kind === 'transporters'
+        ? await transporterService.getTransporterById(id)
+        : await routingService.getRouteById(id);
+
+    return {
+      contents: [{
+        uri: request.params.uri,
+        mimeType: 'application/json',
+        text: JSON.stringify(data, null, 2),
+      }],
+    };
+  });
+
+  return server;
+};
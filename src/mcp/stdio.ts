@@ -0,0 +1,25 @@
+import 'dotenv/config';
+import winston from 'winston';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { createMcpServer } from '@/mcp/server';
+import { logger } from '@/utils/logger';
+
+// stdout carries the MCP protocol, so console logging has to move to stderr
+logger.transports
+  .filter(transport => transport instanceof winston.transports.Console)
+  .forEach(transport => logger.remove(transport));
+logger.add(new winston.transports.Console({
+  stderrLevels: Object.keys(winston.config.npm.levels),
+  format: winston.format.simple(),
+}));
+
+const main = async () => {
+  const server = createMcpServer({ actor: process.env.MCP_STDIO_ACTOR || 'mcp-stdio' });
+  await server.connect(new StdioServerTransport());
+  logger.info('Ridelink MCP server listening on stdio');
+};
+
+main().catch((error) => {
+  logger.error('Failed to start MCP stdio server', { error });
+  process.exit(1);
+});
@@ -0,0 +1,103 @@
+import { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import { UserRole } from '@prisma/client';
+import { createError } from '@/middleware/errorHandler';
+
+export interface AuthPrincipal {
+  userId: string;
+  role: UserRole;
+  transporterId?: string;
+}
+
+export interface AccessTokenPayload {
+  sub: string;
+  role: UserRole;
+  transporterId?: string;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthPrincipal;
+    }
+  }
+}
+
+const STAFF_ROLES: UserRole[] = [UserRole.DISPATCHER, UserRole.ADMIN];
+
+export const verifyAccessToken = (token: string): AuthPrincipal => {
+  try {
+    const payload = jwt.verify(token, process.env.JWT_SECRET as string) as AccessTokenPayload;
+    return {
+      userId: payload.sub,
+      role: payload.role,
+      transporterId: payload.transporterId,
+    };
+  } catch (error) {
+    throw createError('Invalid or expired access token', 401);
+  }
+};
+
+export const authenticate = (req: Request, res: Response, next: NextFunction) => {
+  const header = req.get('Authorization');
+
+  if (!header || !header.startsWith('Bearer ')) {
+    return next(createError('Authentication required', 401));
+  }
+
+  try {
+    req.user = verifyAccessToken(header.slice('Bearer '.length));
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const authorize = (...roles: UserRole[]) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return next(createError('Authentication required', 401));
+    }
+    if (!roles.includes(req.user.role)) {
+      return next(createError('Insufficient permissions', 403));
+    }
+    next();
+  };
+};
+
+/**
+ * Lets staff through, and transporters only when the transporter id in
+ * `req.params[param]` is their own. `staffRoles` narrows which staff roles
+ * may act on a transporter's behalf.
+ */
+export const authorizeTransporterSelf = (param = 'id', staffRoles: UserRole[] = STAFF_ROLES) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return next(createError('Authentication required', 401));
+    }
+    if (staffRoles.includes(req.user.role)) {
+      return next();
+    }
+    if (req.user.role === UserRole.TRANSPORTER && req.user.transporterId === req.params[param]) {
+      return next();
+    }
+    next(createError('Insufficient permissions', 403));
+  };
+};
+
+export const isStaff = (principal: AuthPrincipal): boolean => STAFF_ROLES.includes(principal.role);
+
+/**
+ * Customers own orders through `customerId` (their user id); transporters
+ * may see the orders assigned to them.
+ */
+export const assertOrderAccess = (
+  principal: AuthPrincipal,
+  order: { customerId: string; transporterId: string | null }
+): void => {
+  if (isStaff(principal)) return;
+  if (principal.role === UserRole.CUSTOMER && order.customerId === principal.userId) return;
+  if (principal.role === UserRole.TRANSPORTER && order.transporterId === principal.transporterId) return;
+
+  throw createError('Insufficient permissions', 403);
+};
@@ -0,0 +1,286 @@
+import Joi from 'joi';
+import { Server, Socket } from 'socket.io';
+import { OrderStatus, UserRole } from '@prisma/client';
+import prisma from '@/config/database';
+import { ApiError, createError } from '@/middleware/errorHandler';
+import { AuthPrincipal, assertOrderAccess, isStaff, verifyAccessToken } from '@/middleware/auth';
+import { logger } from '@/utils/logger';
+import {
+  eventBus,
+  GeofenceCrossedEvent,
+  NotificationEvent,
+  OrderStatusEvent,
+  RouteDeviationEvent,
+  RouteEtaEvent,
+  RouteRecalculatedEvent,
+  RouteTrafficDelayEvent,
+  TransporterLocationEvent,
+} from '@/services/eventBus';
+import { transporterService, LocationUpdate } from '@/services/transporterService';
+
+export type Ack = (response: { success: boolean; error?: { message: string } }) => void;
+
+export interface ServerToClientEvents {
+  'transporter-location': (event: TransporterLocationEvent) => void;
+  'order-status': (event: OrderStatusEvent & { transporterId: string | null }) => void;
+  'route-recalculated': (event: RouteRecalculatedEvent) => void;
+  'route-deviation': (event: RouteDeviationEvent) => void;
+  'route-eta': (event: RouteEtaEvent) => void;
+  'route-traffic-alert': (event: RouteTrafficDelayEvent) => void;
+  'geofence-event': (event: GeofenceCrossedEvent) => void;
+  'notification': (event: NotificationEvent) => void;
+}
+
+export interface ClientToServerEvents {
+  'join-order': (orderId: string, ack?: Ack) => void;
+  'leave-order': (orderId: string, ack?: Ack) => void;
+  'join-transporter': (transporterId: string, ack?: Ack) => void;
+  'leave-transporter': (transporterId: string, ack?: Ack) => void;
+  'location-update': (location: LocationUpdate, ack?: Ack) => void;
+}
+
+export interface SocketData {
+  user: AuthPrincipal;
+}
+
+export type RealtimeServer = Server<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>;
+type RealtimeSocket = Socket<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>;
+
+// Staff sockets join this room to follow the whole fleet
+export const DISPATCHERS_ROOM = 'dispatchers';
+export const orderRoom = (orderId: string) => `order-${orderId}`;
+export const transporterRoom = (transporterId: string) => `transporter-${transporterId}`;
+
+const locationUpdateSchema = Joi.object({
+  latitude: Joi.number().min(-90).max(90).required(),
+  longitude: Joi.number().min(-180).max(180).required(),
+  heading: Joi.number().min(0).max(360),
+  speed: Joi.number().min(0),
+});
+
+const idSchema = Joi.string().trim().required();
+
+// Accepts the token from the handshake auth payload or a Bearer header
+const extractToken = (socket: RealtimeSocket): string | undefined => {
+  const { token } = socket.handshake.auth as { token?: unknown };
+  if (typeof token === 'string' && token) {
+    return token;
+  }
+
+  const header = socket.handshake.headers.authorization;
+  if (header && header.startsWith('Bearer ')) {
+    return header.slice('Bearer '.length);
+  }
+
+  return undefined;
+};
+
+/**
+ * Runs a client request and answers through its acknowledgement callback,
+ * mirroring the `{ success, error }` shape of the HTTP API.
+ */
+const handle = (socket: RealtimeSocket, event: string, work: () => Promise<void>, ack?: Ack) => {
+  work()
+    .then(() => ack?.({ success: true }))
+    .catch((error: ApiError) => {
+      if (!error.statusCode) {
+        logger.error('Socket request failed', { error, event, socketId: socket.id });
+      }
+      ack?.({
+        success: false,
+        error: { message: error.isOperational ? error.message : 'Internal Server Error' },
+      });
+    });
+};
+
+const validate = <T>(schema: Joi.Schema, value: unknown): T => {
+  const result = schema.validate(value);
+  if (result.error) {
+    throw createError(result.error.details[0].message, 400);
+  }
+  return result.value as T;
+};
+
+// The transporter whose sockets may follow an order: its carrier, until the order is cancelled
+const followingTransporter = (order: { status: OrderStatus; transporterId: string | null }) =>
+  order.status === OrderStatus.CANCELLED ? null : order.transporterId;
+
+const registerHandlers = (socket: RealtimeSocket) => {
+  const { user } = socket.data;
+
+  socket.on('join-order', (orderId, ack) => handle(socket, 'join-order', async () => {
+    const id = validate<string>(idSchema, orderId);
+    const order = await prisma.order.findUnique({
+      where: { id },
+      select: { customerId: true, transporterId: true, status: true },
+    });
+
+    if (!order) {
+      throw createError('Order not found', 404);
+    }
+
+    assertOrderAccess(user, { customerId: order.customerId, transporterId: followingTransporter(order) });
+    await socket.join(orderRoom(id));
+  }, ack));
+
+  socket.on('leave-order', (orderId, ack) => handle(socket, 'leave-order', async () => {
+    await socket.leave(orderRoom(validate<string>(idSchema, orderId)));
+  }, ack));
+
+  socket.on('join-transporter', (transporterId, ack) => handle(socket, 'join-transporter', async () => {
+    const id = validate<string>(idSchema, transporterId);
+
+    if (!isStaff(user) && user.transporterId !== id) {
+      throw createError('Insufficient permissions', 403);
+    }
+
+    await socket.join(transporterRoom(id));
+  }, ack));
+
+  socket.on('leave-transporter', (transporterId, ack) => handle(socket, 'leave-transporter', async () => {
+    await socket.leave(transporterRoom(validate<string>(idSchema, transporterId)));
+  }, ack));
+
+  // Drivers stream positions over the socket instead of PUT /transporters/:id/location
+  socket.on('location-update', (location, ack) => handle(socket, 'location-update', async () => {
+    if (user.role !== UserRole.TRANSPORTER || !user.transporterId) {
+      throw createError('Only transporters can publish locations', 403);
+    }
+
+    await transporterService.updateLocation(user.transporterId, validate<LocationUpdate>(locationUpdateSchema, location));
+  }, ack));
+};
+
+// Access is checked when a socket joins, so sockets of a transporter that lost the order are removed here
+const evictFormerTransporters = async (io: RealtimeServer, orderId: string, transporterId: string | null) => {
+  const sockets = await io.in(orderRoom(orderId)).fetchSockets();
+
+  sockets
+    .filter(socket => socket.data.user.role === UserRole.TRANSPORTER && socket.data.user.transporterId !== transporterId)
+    .forEach(socket => socket.leave(orderRoom(orderId)));
+};
+
+/**
+ * Relays domain events to the rooms that follow them. Each transporter,
+ * each order and the dispatchers have a room; a position update reaches
+ * the transporter's room and the room of every order it is carrying.
+ */
+const subscribeToEvents = (io: RealtimeServer) => {
+  eventBus.on('transporter.location', (event) => {
+    io.to([
+      DISPATCHERS_ROOM,
+      transporterRoom(event.transporterId),
+      ...event.orderIds.map(orderRoom),
+    ]).emit('transporter-location', event);
+  });
+
+  eventBus.on('order.status', async (event) => {
+    const order = await prisma.order.findUnique({
+      where: { id: event.orderId },
+      select: { transporterId: true, status: true },
+    });
+    const transporterId = order?.transporterId ?? null;
+    const rooms = [DISPATCHERS_ROOM, orderRoom(event.orderId)];
+
+    if (transporterId) {
+      rooms.push(transporterRoom(transporterId));
+    }
+
+    io.to(rooms).emit('order-status', { ...event, transporterId });
+
+    // A transporter that was unassigned or whose order was cancelled stops following it
+    await evictFormerTransporters(io, event.orderId, order ? followingTransporter(order) : null);
+  });
+
+  eventBus.on('route.recalculated', (event) => {
+    io.to([
+      DISPATCHERS_ROOM,
+      transporterRoom(event.transporterId),
+      orderRoom(event.orderId),
+    ]).emit('route-recalculated', event);
+  });
+
+  // Deviations are operational noise for customers, so order rooms are left out
+  eventBus.on('route.deviation', (event) => {
+    io.to([
+      DISPATCHERS_ROOM,
+      transporterRoom(event.transporterId),
+    ]).emit('route-deviation', event);
+  });
+
+  eventBus.on('route.eta', (event) => {
+    io.to([
+      DISPATCHERS_ROOM,
+      transporterRoom(event.transporterId),
+      orderRoom(event.orderId),
+    ]).emit('route-eta', event);
+  });
+
+  eventBus.on('route.traffic-delay', (event) => {
+    io.to([
+      DISPATCHERS_ROOM,
+      transporterRoom(event.transporterId),
+    ]).emit('route-traffic-alert', event);
+  });
+
+  eventBus.on('geofence.event', (event) => {
+    io.to([
+      DISPATCHERS_ROOM,
+      transporterRoom(event.transporterId),
+      orderRoom(event.orderId),
+    ]).emit('geofence-event', event);
+  });
+
+  eventBus.on('notification', (event) => {
+    const { audience } = event;
+    const room = audience.type === 'dispatchers'
+      ? DISPATCHERS_ROOM
+      : audience.type === 'transporter' ? transporterRoom(audience.id) : orderRoom(audience.id);
+
+    io.to(room).emit('notification', event);
+  });
+};
+
+/**
+ * Wires authentication, room membership and event relaying onto the
+ * Socket.IO server. Clients authenticate with the same access token as the
+ * HTTP API. Transporters are placed in their own room and staff in the
+ * dispatchers room on connect; other rooms are joined on request once
+ * access is checked.
+ */
+export const attachSocketServer = (io: RealtimeServer): void => {
+  io.use((socket, next) => {
+    const token = extractToken(socket);
+
+    if (!token) {
+      return next(createError('Authentication required', 401));
+    }
+
+    try {
+      socket.data.user = verifyAccessToken(token);
+      next();
+    } catch (error) {
+      next(error as Error);
+    }
+  });
+
+  io.on('connection', (socket) => {
+    const { user } = socket.data;
+    logger.info(`Client connected: ${socket.id}`, { userId: user.userId, role: user.role });
+
+    if (user.role === UserRole.TRANSPORTER && user.transporterId) {
+      void socket.join(transporterRoom(user.transporterId));
+    }
+    if (isStaff(user)) {
+      void socket.join(DISPATCHERS_ROOM);
+    }
+
+    registerHandlers(socket);
+
+    socket.on('disconnect', () => {
+      logger.info(`Client disconnected: ${socket.id}`);
+    });
+  });
+
+  subscribeToEvents(io);
+};
@@ -0,0 +1,83 @@
+import crypto from 'crypto';
+import { RefreshToken, User, UserRole } from '@prisma/client';
+import prisma from '@/config/database';
+import { authService } from './authService';
+
+jest.mock('@/config/database', () => ({
+  __esModule: true,
+  default: {
+    refreshToken: { findUnique: jest.fn(), updateMany: jest.fn(), create: jest.fn() },
+  },
+}));
+
+const prismaMock = prisma as unknown as {
+  refreshToken: { findUnique: jest.Mock; updateMany: jest.Mock; create: jest.Mock };
+};
+
+const USER = { id: 'user-1', role: UserRole.CUSTOMER, transporterId: null, isActive: true } as User;
+const TOKEN = 'refresh-token';
+const hash = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+let tokens: RefreshToken[];
+
+// Keeps the user's refresh tokens in memory, applying the conditional updates the way the database would
+const installFakeDatabase = () => {
+  prismaMock.refreshToken.findUnique.mockImplementation(async ({ where }) => {
+    const token = tokens.find(candidate => candidate.tokenHash === where.tokenHash);
+    return token && { ...token, user: USER };
+  });
+  prismaMock.refreshToken.updateMany.mockImplementation(async ({ where, data }) => {
+    const matching = tokens.filter(token =>
+      (where.id === undefined || token.id === where.id)
+      && (where.userId === undefined || token.userId === where.userId)
+      && token.revokedAt === null
+    );
+    matching.forEach(token => { token.revokedAt = data.revokedAt; });
+    return { count: matching.length };
+  });
+  prismaMock.refreshToken.create.mockImplementation(async ({ data }) => {
+    const token = { id: `token-${tokens.length + 1}`, revokedAt: null, createdAt: new Date(), ...data };
+    tokens.push(token);
+    return token;
+  });
+};
+
+describe('AuthService.refresh', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tokens = [{
+      id: 'token-1',
+      userId: USER.id,
+      tokenHash: hash(TOKEN),
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      revokedAt: null,
+      createdAt: new Date(),
+    } as RefreshToken];
+    installFakeDatabase();
+  });
+
+  it('rotates the token into a new pair', async () => {
+    const pair = await authService.refresh(TOKEN);
+
+    expect(pair.refreshToken).not.toBe(TOKEN);
+    expect(tokens[0].revokedAt).not.toBeNull();
+    expect(tokens).toHaveLength(2);
+  });
+
+  it('gives only one of two concurrent refreshes with the same token a new pair', async () => {
+    const results = await Promise.allSettled([authService.refresh(TOKEN), authService.refresh(TOKEN)]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(results.find(result => result.status === 'rejected')).toMatchObject({
+      reason: { statusCode: 401 },
+    });
+    expect(prismaMock.refreshToken.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses a rotated token and revokes the tokens issued after it', async () => {
+    const pair = await authService.refresh(TOKEN);
+
+    await expect(authService.refresh(TOKEN)).rejects.toMatchObject({ statusCode: 401 });
+    await expect(authService.refresh(pair.refreshToken)).rejects.toMatchObject({ statusCode: 401 });
+  });
+});
@@ -0,0 +1,222 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { User, UserRole } from '@prisma/client';
+import prisma from '@/config/database';
+import { createError } from '@/middleware/errorHandler';
+import { AccessTokenPayload } from '@/middleware/auth';
+import { logger } from '@/utils/logger';
+
+export interface CreateUserData {
+  email: string;
+  password: string;
+  name?: string;
+  role: UserRole;
+  transporterId?: string;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: string;
+  tokenType: 'Bearer';
+}
+
+export type PublicUser = Omit<User, 'passwordHash'>;
+
+const PASSWORD_SALT_ROUNDS = 10;
+const REFRESH_TOKEN_BYTES = 48;
+
+export class AuthService {
+  // Read on use: services are constructed before dotenv runs in index.ts
+  private get jwtSecret(): string {
+    return process.env.JWT_SECRET as string;
+  }
+
+  private get accessTokenTtl(): string {
+    return process.env.JWT_EXPIRES_IN || '24h';
+  }
+
+  private get refreshTokenTtlDays(): number {
+    return parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30');
+  }
+
+  async login(email: string, password: string): Promise<{ user: PublicUser; tokens: AuthTokens }> {
+    try {
+      const user = await prisma.user.findUnique({ where: { email: email.toLowerCase() } });
+
+      // Same error for unknown users and bad passwords so accounts can't be enumerated
+      if (!user || !user.isActive || !(await bcrypt.compare(password, user.passwordHash))) {
+        throw createError('Invalid email or password', 401);
+      }
+
+      const updated = await prisma.user.update({
+        where: { id: user.id },
+        data: { lastLoginAt: new Date() },
+      });
+
+      const tokens = await this.issueTokens(updated);
+
+      logger.info('User logged in', { userId: user.id, role: user.role });
+      return { user: this.toPublicUser(updated), tokens };
+    } catch (error) {
+      if (error instanceof Error && (error as any).statusCode) {
+        throw error;
+      }
+      logger.error('Failed to log in', { error, email });
+      throw createError('Failed to log in', 500);
+    }
+  }
+
+  /**
+   * Exchanges a refresh token for a new token pair. Refresh tokens are
+   * single-use: presenting one that was already rotated revokes every
+   * outstanding token of that user, since it means the token leaked.
+   */
+  async refresh(refreshToken: string): Promise<AuthTokens> {
+    try {
+      const stored = await prisma.refreshToken.findUnique({
+        where: { tokenHash: this.hashToken(refreshToken) },
+        include: { user: true },
+      });
+
+      if (!stored) {
+        throw createError('Invalid refresh token', 401);
+      }
+
+      // Claimed atomically, so of two concurrent refreshes with one token only one gets a new pair
+      const claimed = await prisma.refreshToken.updateMany({
+        where: { id: stored.id, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+
+      if (claimed.count === 0) {
+        await this.revokeAllForUser(stored.userId);
+        logger.warn('Revoked refresh token reused', { userId: stored.userId });
+        throw createError('Invalid refresh token', 401);
+      }
+
+      if (stored.expiresAt < new Date() || !stored.user.isActive) {
+        throw createError('Invalid refresh token', 401);
+      }
+
+      return await this.issueTokens(stored.user);
+    } catch (error) {
+      if (error instanceof Error && (error as any).statusCode) {
+        throw error;
+      }
+      logger.error('Failed to refresh token', { error });
+      throw createError('Failed to refresh token', 500);
+    }
+  }
+
+  async logout(refreshToken: string): Promise<void> {
+    try {
+      await prisma.refreshToken.updateMany({
+        where: { tokenHash: this.hashToken(refreshToken), revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+    } catch (error) {
+      logger.error('Failed to log out', { error });
+      throw createError('Failed to log out', 500);
+    }
+  }
+
+  async createUser(data: CreateUserData): Promise<PublicUser> {
+    try {
+      const email = data.email.toLowerCase();
+      const existing = await prisma.user.findUnique({ where: { email } });
+
+      if (existing) {
+        throw createError('Email already registered', 400);
+      }
+
+      if (data.role === UserRole.TRANSPORTER) {
+        if (!data.transporterId) {
+          throw createError('Transporter accounts must reference a transporter', 400);
+        }
+
+        const transporter = await prisma.transporter.findUnique({ where: { id: data.transporterId } });
+        if (!transporter) {
+          throw createError('Transporter not found', 404);
+        }
+      }
+
+      const user = await prisma.user.create({
+        data: {
+          email,
+          passwordHash: await bcrypt.hash(data.password, PASSWORD_SALT_ROUNDS),
+          name: data.name,
+          role: data.role,
+          transporterId: data.role === UserRole.TRANSPORTER ? data.transporterId : undefined,
+        },
+      });
+
+      logger.info('User created', { userId: user.id, role: user.role });
+      return this.toPublicUser(user);
+    } catch (error) {
+      if (error instanceof Error && (error as any).statusCode) {
+        throw error;
+      }
+      logger.error('Failed to create user', { error, email: data.email, role: data.role });
+      throw createError('Failed to create user', 500);
+    }
+  }
+
+  async getUserById(id: string): Promise<PublicUser> {
+    const user = await prisma.user.findUnique({ where: { id } });
+
+    if (!user) {
+      throw createError('User not found', 404);
+    }
+
+    return this.toPublicUser(user);
+  }
+
+  private async issueTokens(user: User): Promise<AuthTokens> {
+    const payload: AccessTokenPayload = {
+      sub: user.id,
+      role: user.role,
+      ...(user.transporterId && { transporterId: user.transporterId }),
+    };
+
+    const accessToken = jwt.sign(payload, this.jwtSecret, {
+      expiresIn: this.accessTokenTtl as SignOptions['expiresIn'],
+    });
+
+    const refreshToken = crypto.randomBytes(REFRESH_TOKEN_BYTES).toString('base64url');
+    await prisma.refreshToken.create({
+      data: {
+        userId: user.id,
+        tokenHash: this.hashToken(refreshToken),
+        expiresAt: new Date(Date.now() + this.refreshTokenTtlDays * 24 * 60 * 60 * 1000),
+      },
+    });
+
+    return {
+      accessToken,
+      refreshToken,
+      expiresIn: this.accessTokenTtl,
+      tokenType: 'Bearer',
+    };
+  }
+
+  private async revokeAllForUser(userId: string): Promise<void> {
+    await prisma.refreshToken.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private toPublicUser(user: User): PublicUser {
+    const publicUser: Partial<User> = { ...user };
+    delete publicUser.passwordHash;
+    return publicUser as PublicUser;
+  }
+}
+
+export const authService = new AuthService();
@@ -0,0 +1,30 @@
+import { LocalBlobStore } from './localBlobStore';
+import { BlobStore, BlobStoreName, BLOB_STORE_NAMES } from './types';
+
+export * from './types';
+
+const isStoreName = (name: string): name is BlobStoreName =>
+  (BLOB_STORE_NAMES as string[]).includes(name);
+
+export class BlobStoreRegistry {
+  private readonly stores = new Map<BlobStoreName, BlobStore>();
+
+  register(store: BlobStore): void {
+    this.stores.set(store.name, store);
+  }
+
+  // The store named by BLOB_STORE, local by default
+  resolve(): BlobStore {
+    const configured = (process.env.BLOB_STORE || '').trim();
+    const store = this.stores.get(isStoreName(configured) ? configured : 'local');
+
+    if (!store) {
+      throw new Error(`Blob store ${configured} is not registered`);
+    }
+    return store;
+  }
+}
+
+export const blobStores = new BlobStoreRegistry();
+
+blobStores.register(new LocalBlobStore());
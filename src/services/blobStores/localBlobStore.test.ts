@@ -0,0 +1,56 @@
+import os from 'os';
+import path from 'path';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { LocalBlobStore } from './localBlobStore';
+
+describe('LocalBlobStore', () => {
+  let dir: string;
+  const store = new LocalBlobStore();
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'blob-store-'));
+    process.env.BLOB_STORE_LOCAL_DIR = path.join(dir, 'storage');
+  });
+
+  afterEach(async () => {
+    delete process.env.BLOB_STORE_LOCAL_DIR;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('stores a blob with its content type under a nested key', async () => {
+    await store.put('proofs/order-1/signature.png', Buffer.from('png-bytes'), 'image/png');
+
+    const blob = await store.get('proofs/order-1/signature.png');
+
+    expect(blob?.data.toString()).toBe('png-bytes');
+    expect(blob?.contentType).toBe('image/png');
+  });
+
+  it('returns null for a key that was never stored', async () => {
+    expect(await store.get('proofs/order-1/missing.png')).toBeNull();
+  });
+
+  it('deletes a blob and its content type', async () => {
+    await store.put('proofs/order-1/photo-1.jpg', Buffer.from('jpg-bytes'), 'image/jpeg');
+
+    await store.delete('proofs/order-1/photo-1.jpg');
+
+    expect(await store.get('proofs/order-1/photo-1.jpg')).toBeNull();
+    expect(await readdir(path.join(dir, 'storage', 'proofs', 'order-1'))).toEqual([]);
+  });
+
+  it.each([
+    '../outside.png',
+    'proofs/../../outside.png',
+    '../storage-sibling/outside.png',
+    '/etc/passwd',
+    '.',
+    '',
+  ])('refuses key %p that does not resolve to a file inside the root', async (key) => {
+    await expect(store.put(key, Buffer.from('x'), 'text/plain')).rejects.toThrow('Invalid blob key');
+    await expect(store.get(key)).rejects.toThrow('Invalid blob key');
+    await expect(store.delete(key)).rejects.toThrow('Invalid blob key');
+
+    expect(await readdir(dir)).toEqual([]);
+  });
+});
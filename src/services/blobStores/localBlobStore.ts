@@ -0,0 +1,57 @@
+import path from 'path';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { BlobStore, StoredBlob } from './types';
+
+// Content type is kept beside each blob, as `<file>.type`
+const TYPE_SUFFIX = '.type';
+
+/**
+ * Blobs as files under BLOB_STORE_LOCAL_DIR, for development and tests.
+ * Not shared between hosts, so unsuitable for more than one API instance.
+ */
+export class LocalBlobStore implements BlobStore {
+  readonly name = 'local' as const;
+
+  private get root() {
+    return path.resolve(process.env.BLOB_STORE_LOCAL_DIR || 'storage');
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    const file = this.resolve(key);
+
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, data);
+    await writeFile(`${file}${TYPE_SUFFIX}`, contentType);
+  }
+
+  async get(key: string): Promise<StoredBlob | null> {
+    const file = this.resolve(key);
+
+    try {
+      const [data, contentType] = await Promise.all([
+        readFile(file),
+        readFile(`${file}${TYPE_SUFFIX}`, 'utf8').catch(() => 'application/octet-stream'),
+      ]);
+      return { data, contentType };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const file = this.resolve(key);
+    await rm(file, { force: true });
+    await rm(`${file}${TYPE_SUFFIX}`, { force: true });
+  }
+
+  // Keys come from our own code, but never let one escape the root
+  private resolve(key: string): string {
+    const file = path.resolve(this.root, key);
+
+    if (!file.startsWith(`${this.root}${path.sep}`)) {
+      throw new Error(`Invalid blob key ${key}`);
+    }
+    return file;
+  }
+}
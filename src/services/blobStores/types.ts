@@ -0,0 +1,20 @@
+export type BlobStoreName = 'local';
+
+export const BLOB_STORE_NAMES: BlobStoreName[] = ['local'];
+
+export interface StoredBlob {
+  data: Buffer;
+  contentType: string;
+}
+
+export interface BlobStore {
+  readonly name: BlobStoreName;
+
+  // Keys are slash-separated paths such as `proofs/<orderId>/signature.png`
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+
+  // Null when nothing is stored under the key
+  get(key: string): Promise<StoredBlob | null>;
+
+  delete(key: string): Promise<void>;
+}
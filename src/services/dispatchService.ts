@@ -0,0 +1,322 @@
+import { DispatchPlan, DispatchPlanStatus, OrderStatus, Prisma, TransporterStatus } from '@prisma/client';
+import prisma from '@/config/database';
+import { createError } from '@/middleware/errorHandler';
+import { logger } from '@/utils/logger';
+import { solveAssignment } from '@/utils/assignment';
+import { matchingService } from '@/services/matchingService';
+import { matrixService } from '@/services/matrixService';
+import { orderService } from '@/services/orderService';
+import { TransitionContext } from '@/services/orderStateMachine';
+import { routingService } from '@/services/routingService';
+import { transporterService } from '@/services/transporterService';
+
+export interface DispatchPlanRequest {
+  windowStart: Date;
+  windowEnd: Date;
+  maxDetourKm?: number;
+}
+
+export interface DispatchAssignment {
+  orderId: string;
+  transporterId: string;
+  cost: number;
+  detourKm: number;
+  matchScore: number;
+}
+
+export interface UnassignedOrder {
+  orderId: string;
+  reason: string;
+}
+
+export type DispatchOutcomeStatus = 'applied' | 'skipped' | 'failed';
+
+export interface DispatchOutcome extends DispatchAssignment {
+  status: DispatchOutcomeStatus;
+  // Why the assignment was skipped or failed
+  reason?: string;
+}
+
+export interface DispatchApplyResult {
+  plan: DispatchPlan;
+  applied: DispatchAssignment[];
+  skipped: Array<DispatchAssignment & { reason: string }>;
+  failed: Array<DispatchAssignment & { reason: string }>;
+}
+
+interface Location {
+  latitude: number;
+  longitude: number;
+}
+
+const DEFAULT_MAX_DETOUR_KM = 50;
+const MAX_DISPATCH_TRANSPORTERS = 500;
+// Penalty, in km-equivalents, for a fully unused vehicle; steers small loads away from big trucks
+const CAPACITY_FIT_PENALTY_KM = 10;
+// Cost marking a pair the solver must not use; any assignment at this cost is discarded
+const INFEASIBLE_COST = 1e9;
+
+const toAssignment = ({ orderId, transporterId, cost, detourKm, matchScore }: DispatchOutcome): DispatchAssignment => ({
+  orderId, transporterId, cost, detourKm, matchScore,
+});
+
+export class DispatchService {
+  async createPlan(request: DispatchPlanRequest): Promise<DispatchPlan> {
+    try {
+      if (request.windowEnd <= request.windowStart) {
+        throw createError('Dispatch window end must be after its start', 400);
+      }
+
+      const maxDetourKm = request.maxDetourKm || DEFAULT_MAX_DETOUR_KM;
+
+      const orders = await prisma.order.findMany({
+        where: {
+          status: OrderStatus.PENDING,
+          pickupTime: { gte: request.windowStart, lte: request.windowEnd },
+        },
+        orderBy: { pickupTime: 'asc' },
+      });
+
+      const { transporters } = await transporterService.getAvailableTransporters({
+        limit: MAX_DISPATCH_TRANSPORTERS,
+      });
+
+      logger.info('Building dispatch plan', { orders: orders.length, transporters: transporters.length });
+
+      // Road distances from every located transporter to every pickup
+      const located = transporters.filter(transporter => transporter.currentLocation);
+      const travel = await matrixService.getMatrix(
+        located.map(transporter => transporter.currentLocation as unknown as Location),
+        orders.map(order => order.pickupLocation as unknown as Location),
+        { departureTime: request.windowStart }
+      );
+
+      // Road distance of each order's own pickup to delivery leg
+      const legs = await Promise.all(orders.map(async (order) => {
+        const leg = await matrixService.getMatrix(
+          [order.pickupLocation as unknown as Location],
+          [order.deliveryLocation as unknown as Location],
+          { departureTime: request.windowStart }
+        );
+        return leg.distances[0][0];
+      }));
+
+      // Cost matrix: detour to pickup and the delivery leg, plus a penalty for capacity left unused
+      const scores = orders.map((order, i) =>
+        located.map((transporter, t) => Number.isFinite(legs[i])
+          ? matchingService.scoreTransporter(order, transporter, maxDetourKm, travel.distances[t][i])
+          : null)
+      );
+      const costMatrix = scores.map((row, i) =>
+        row.map(candidate =>
+          candidate
+            ? candidate.distanceToPickupKm + legs[i] + CAPACITY_FIT_PENALTY_KM * candidate.breakdown.capacity
+            : INFEASIBLE_COST
+        )
+      );
+
+      const solution = located.length > 0 ? solveAssignment(costMatrix) : orders.map(() => -1);
+
+      const assignments: DispatchAssignment[] = [];
+      const unassignedOrders: UnassignedOrder[] = [];
+
+      orders.forEach((order, i) => {
+        const column = solution[i];
+        const candidate = column >= 0 ? scores[i][column] : null;
+
+        if (!candidate) {
+          let reason = `No available transporter with enough capacity within ${maxDetourKm} km`;
+          if (!Number.isFinite(legs[i])) {
+            reason = 'Delivery location cannot be reached from the pickup';
+          } else if (scores[i].some(Boolean)) {
+            reason = 'Every suitable transporter was assigned a better-fitting order';
+          }
+          unassignedOrders.push({ orderId: order.id, reason });
+          return;
+        }
+
+        assignments.push({
+          orderId: order.id,
+          transporterId: candidate.transporter.id,
+          cost: Math.round(costMatrix[i][column] * 100) / 100,
+          detourKm: Math.round(candidate.distanceToPickupKm * 100) / 100,
+          matchScore: candidate.score,
+        });
+      });
+
+      const plan = await prisma.dispatchPlan.create({
+        data: {
+          windowStart: request.windowStart,
+          windowEnd: request.windowEnd,
+          status: DispatchPlanStatus.PROPOSED,
+          assignments: assignments as unknown as Prisma.InputJsonValue,
+          unassignedOrders: unassignedOrders as unknown as Prisma.InputJsonValue,
+          totalCost: assignments.reduce((sum, assignment) => sum + assignment.cost, 0),
+        },
+      });
+
+      logger.info('Dispatch plan proposed', {
+        planId: plan.id,
+        assigned: assignments.length,
+        unassigned: unassignedOrders.length,
+      });
+      return plan;
+    } catch (error) {
+      if (error instanceof Error && (error as any).statusCode) {
+        throw error;
+      }
+      logger.error('Failed to build dispatch plan', { error, request });
+      throw createError('Failed to build dispatch plan', 500);
+    }
+  }
+
+  async getPlanById(id: string): Promise<DispatchPlan> {
+    try {
+      const plan = await prisma.dispatchPlan.findUnique({
+        where: { id },
+      });
+
+      if (!plan) {
+        throw createError('Dispatch plan not found', 404);
+      }
+
+      return plan;
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Dispatch plan not found') {
+        throw error;
+      }
+      logger.error('Failed to fetch dispatch plan', { error, planId: id });
+      throw createError('Failed to fetch dispatch plan', 500);
+    }
+  }
+
+  /**
+   * Applies a proposed plan one assignment at a time. Assignments whose
+   * order or transporter changed state since the plan was built are
+   * skipped, and one that fails is rolled back without stopping the run.
+   * The outcome of every assignment is stored on the plan, which ends up
+   * PARTIALLY_APPLIED unless all of them went through.
+   */
+  async applyPlan(id: string, context: TransitionContext = {}): Promise<DispatchApplyResult> {
+    try {
+      const plan = await this.getPlanById(id);
+
+      if (plan.status !== DispatchPlanStatus.PROPOSED) {
+        throw createError(`Dispatch plan is already ${plan.status.toLowerCase()}`, 400);
+      }
+
+      const assignments = plan.assignments as unknown as DispatchAssignment[];
+      const outcomes: DispatchOutcome[] = [];
+
+      for (const assignment of assignments) {
+        outcomes.push(await this.applyAssignment(assignment, context));
+      }
+
+      const applied = outcomes.filter(outcome => outcome.status === 'applied');
+      const updatedPlan = await prisma.dispatchPlan.update({
+        where: { id },
+        data: {
+          status: applied.length === assignments.length ? DispatchPlanStatus.APPLIED : DispatchPlanStatus.PARTIALLY_APPLIED,
+          outcomes: outcomes as unknown as Prisma.InputJsonValue,
+          appliedAt: new Date(),
+        },
+      });
+
+      const withReason = (status: DispatchOutcomeStatus) => outcomes
+        .filter(outcome => outcome.status === status)
+        .map(outcome => ({ ...toAssignment(outcome), reason: outcome.reason as string }));
+
+      const result: DispatchApplyResult = {
+        plan: updatedPlan,
+        applied: applied.map(toAssignment),
+        skipped: withReason('skipped'),
+        failed: withReason('failed'),
+      };
+
+      logger.info('Dispatch plan applied', {
+        planId: id,
+        status: updatedPlan.status,
+        applied: result.applied.length,
+        skipped: result.skipped.length,
+        failed: result.failed.length,
+      });
+      return result;
+    } catch (error) {
+      if (error instanceof Error && (error as any).statusCode) {
+        throw error;
+      }
+      logger.error('Failed to apply dispatch plan', { error, planId: id });
+      throw createError('Failed to apply dispatch plan', 500);
+    }
+  }
+
+  async discardPlan(id: string): Promise<DispatchPlan> {
+    try {
+      const plan = await this.getPlanById(id);
+
+      if (plan.status !== DispatchPlanStatus.PROPOSED) {
+        throw createError(`Dispatch plan is already ${plan.status.toLowerCase()}`, 400);
+      }
+
+      return await prisma.dispatchPlan.update({
+        where: { id },
+        data: { status: DispatchPlanStatus.DISCARDED },
+      });
+    } catch (error) {
+      if (error instanceof Error && (error as any).statusCode) {
+        throw error;
+      }
+      logger.error('Failed to discard dispatch plan', { error, planId: id });
+      throw createError('Failed to discard dispatch plan', 500);
+    }
+  }
+
+  // Assigns and routes one order; a route that cannot be created puts the order back in the pool
+  private async applyAssignment(assignment: DispatchAssignment, context: TransitionContext): Promise<DispatchOutcome> {
+    const [order, transporter] = await Promise.all([
+      prisma.order.findUnique({ where: { id: assignment.orderId } }),
+      prisma.transporter.findUnique({ where: { id: assignment.transporterId } }),
+    ]);
+
+    if (!order || order.status !== OrderStatus.PENDING) {
+      return { ...assignment, status: 'skipped', reason: 'Order is no longer pending' };
+    }
+
+    if (!transporter || transporter.availabilityStatus !== TransporterStatus.AVAILABLE || !transporter.currentLocation) {
+      return { ...assignment, status: 'skipped', reason: 'Transporter is no longer available' };
+    }
+
+    let assigned = false;
+    try {
+      const assignedOrder = await orderService.assignTransporter(order.id, transporter.id, context);
+      assigned = true;
+
+      await routingService.createRoute(order.id, transporter.id, {
+        origin: transporter.currentLocation as unknown as Location,
+        waypoints: [order.pickupLocation as unknown as Location],
+        destination: order.deliveryLocation as unknown as Location,
+        vehicleType: transporter.vehicleType,
+        departureTime: order.pickupTime,
+      });
+      await matchingService.recordAssignment(assignedOrder, transporter.id, assignment.matchScore);
+
+      return { ...assignment, status: 'applied' };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      logger.warn('Dispatch assignment failed', { orderId: order.id, transporterId: transporter.id, reason });
+
+      if (assigned) {
+        await orderService.updateOrderStatus(order.id, OrderStatus.PENDING, {
+          ...context,
+          reason: `Dispatch assignment failed: ${reason}`,
+        }).catch((revertError) => {
+          logger.error('Failed to return order to the pool', { error: revertError, orderId: order.id });
+        });
+      }
+
+      return { ...assignment, status: 'failed', reason };
+    }
+  }
+}
+
+export const dispatchService = new DispatchService();
@@ -0,0 +1,324 @@
+import { Route, RouteStatus } from '@prisma/client';
+import prisma from '@/config/database';
+import redisClient from '@/config/redis';
+import { createError } from '@/middleware/errorHandler';
+import { logger } from '@/utils/logger';
+import { GeoPoint, haversineDistance, pathDistance, projectOntoPath } from '@/utils/geo';
+import { eventBus, RouteEtaEvent, TransporterLocationEvent } from '@/services/eventBus';
+
+interface EtaState {
+  // Identifies the path the progress was measured on
+  pathVersion: string;
+  distanceAlongKm: number;
+  arrivalAt: string;
+}
+
+interface SpeedSample {
+  location: GeoPoint;
+  speedKmh: number;
+}
+
+// Fixes older than this say nothing about current traffic
+const OBSERVED_WINDOW_MS = 10 * 60 * 1000;
+// How far ahead the observed speed still outweighs historical speeds, in km
+const OBSERVED_HORIZON_KM = 3;
+// Floor for segment speeds, so a parked transporter does not get an unbounded ETA
+const MIN_SPEED_KMH = 5;
+// Movement below GPS noise is not a speed sample
+const MIN_SAMPLE_DISTANCE_KM = 0.05;
+// How far a new ETA moves towards the fresh prediction; larger changes are taken outright
+const SMOOTHING = 0.5;
+const SMOOTHING_LIMIT_MS = 15 * 60 * 1000;
+// Uncertainty of a prediction with perfect agreement between speed sources
+const BASE_UNCERTAINTY = 0.1;
+const MAX_UNCERTAINTY = 0.6;
+
+const STATE_TTL_SECONDS = 12 * 60 * 60;
+
+// A cell nobody has driven through for this long forgets its speeds
+const segmentSpeedTtlSeconds = () => parseInt(process.env.ETA_SEGMENT_SPEED_TTL_DAYS || '30', 10) * 24 * 60 * 60;
+
+const stateKey = (routeId: string) => `eta:route:${routeId}`;
+// Roughly 1 km grid cells, each a hash of the speed sum and sample count
+const cellKey = (point: GeoPoint) => `eta:segment-speed:${point.latitude.toFixed(2)},${point.longitude.toFixed(2)}`;
+
+const midpoint = (a: GeoPoint, b: GeoPoint): GeoPoint => ({
+  latitude: (a.latitude + b.latitude) / 2,
+  longitude: (a.longitude + b.longitude) / 2,
+});
+
+/**
+ * Predicts arrival for routes in progress from the transporter's position
+ * projected onto the planned path. The remaining path is timed segment by
+ * segment: near the transporter the speed observed over its recent fixes
+ * dominates, further ahead the historical speed recorded for that area,
+ * falling back to the route's planned average speed; both are slowed by
+ * the route's current traffic delay. Estimates are
+ * recomputed on every fix and smoothed so that they do not jump around;
+ * progress along the path never moves backwards until the route is
+ * recalculated. Historical speeds and ETA state live in Redis and are
+ * skipped while it is unavailable.
+ */
+export class EtaService {
+  // Transporters whose previous fix is still being processed
+  private readonly processing = new Set<string>();
+
+  start(): () => void {
+    return eventBus.on('transporter.location', event => this.handleLocation(event));
+  }
+
+  async handleLocation(event: TransporterLocationEvent): Promise<void> {
+    if (this.processing.has(event.transporterId)) return;
+    this.processing.add(event.transporterId);
+
+    try {
+      const routes = await prisma.route.findMany({
+        where: { transporterId: event.transporterId, status: RouteStatus.IN_PROGRESS },
+      });
+
+      if (routes.length === 0) return;
+
+      const { observedSpeedKmh, sample } = await this.observeSpeed(event.transporterId);
+      if (sample) {
+        await this.recordSegmentSpeed(sample);
+      }
+
+      for (const route of routes) {
+        const estimate = await this.estimate(route, event, observedSpeedKmh, true);
+        if (estimate) {
+          eventBus.emit('route.eta', estimate);
+        }
+      }
+    } finally {
+      this.processing.delete(event.transporterId);
+    }
+  }
+
+  /**
+   * Current ETA for a route in progress, from the transporter's latest fix.
+   * Returns null when the route is not in progress or nothing is known
+   * about the transporter's position yet.
+   */
+  async getEta(routeId: string): Promise<RouteEtaEvent | null> {
+    try {
+      const route = await prisma.route.findUnique({ where: { id: routeId } });
+
+      if (!route) {
+        throw createError('Route not found', 404);
+      }
+
+      if (route.status !== RouteStatus.IN_PROGRESS) return null;
+
+      const latest = await prisma.trackingData.findFirst({
+        where: { transporterId: route.transporterId },
+        orderBy: { timestamp: 'desc' },
+      });
+
+      if (!latest) return null;
+
+      const { observedSpeedKmh } = await this.observeSpeed(route.transporterId);
+      return await this.estimate(route, latest, observedSpeedKmh, false);
+    } catch (error) {
+      if (error instanceof Error && (error as any).statusCode) {
+        throw error;
+      }
+      logger.error('Failed to estimate arrival', { error, routeId });
+      throw createError('Failed to estimate arrival', 500);
+    }
+  }
+
+  /**
+   * Only estimates made on a new fix are persisted as the basis for the
+   * next one; reads reuse that basis without moving it.
+   */
+  private async estimate(
+    route: Route,
+    fix: GeoPoint,
+    observedSpeedKmh: number | undefined,
+    persist: boolean
+  ): Promise<RouteEtaEvent | null> {
+    const path = route.optimizedPath as unknown as GeoPoint[];
+    if (!Array.isArray(path) || path.length < 2) return null;
+
+    // Routes are also updated for status and traffic; only a new path resets progress
+    const totalKm = pathDistance(path);
+    const pathVersion = `${path.length}:${totalKm.toFixed(4)}`;
+    const previous = await this.loadState(route.id);
+    const fromKm = previous?.pathVersion === pathVersion ? previous.distanceAlongKm : 0;
+
+    const projection = projectOntoPath(fix, path, fromKm);
+    // estimatedDuration includes current traffic; historical speeds are slowed down by the same share
+    const plannedSpeedKmh = route.estimatedDuration > 0
+      ? route.distance / (route.estimatedDuration / 60)
+      : undefined;
+    const freeFlowMinutes = route.estimatedDuration - route.trafficDelay;
+    const trafficFactor = freeFlowMinutes > 0 ? route.estimatedDuration / freeFlowMinutes : 1;
+
+    // Remaining path: from the projection to the end of the current segment, then the rest
+    const start = path[projection.segmentIndex];
+    const segmentEnd = path[projection.segmentIndex + 1];
+    const segmentKm = haversineDistance(start, segmentEnd);
+    const remaining: Array<{ lengthKm: number; midpoint: GeoPoint }> = [{
+      lengthKm: Math.max(0, segmentKm - projection.alongKm),
+      midpoint: midpoint(start, segmentEnd),
+    }];
+    for (let index = projection.segmentIndex + 1; index < path.length - 1; index++) {
+      remaining.push({
+        lengthKm: haversineDistance(path[index], path[index + 1]),
+        midpoint: midpoint(path[index], path[index + 1]),
+      });
+    }
+
+    const historical = await this.getSegmentSpeeds(remaining.map(segment => segment.midpoint));
+    const remainingKm = remaining.reduce((total, segment) => total + segment.lengthKm, 0);
+
+    let minutes = 0;
+    let aheadKm = 0;
+    let unknownKm = 0;
+    let disagreement = 0;
+
+    remaining.forEach((segment, index) => {
+      const trafficAdjusted = historical[index] !== undefined ? historical[index]! / trafficFactor : undefined;
+      const baseline = trafficAdjusted ?? plannedSpeedKmh ?? observedSpeedKmh ?? MIN_SPEED_KMH;
+      if (historical[index] === undefined) unknownKm += segment.lengthKm;
+
+      const weight = observedSpeedKmh !== undefined
+        ? Math.exp(-(aheadKm + segment.lengthKm / 2) / OBSERVED_HORIZON_KM)
+        : 0;
+      const speed = Math.max(MIN_SPEED_KMH, weight * (observedSpeedKmh ?? 0) + (1 - weight) * baseline);
+
+      if (observedSpeedKmh !== undefined) {
+        disagreement += segment.lengthKm * Math.abs(observedSpeedKmh - baseline) / Math.max(baseline, MIN_SPEED_KMH);
+      }
+
+      minutes += (segment.lengthKm / speed) * 60;
+      aheadKm += segment.lengthKm;
+    });
+
+    const now = Date.now();
+    let arrival = now + minutes * 60000;
+
+    if (previous?.pathVersion === pathVersion) {
+      const previousArrival = new Date(previous.arrivalAt).getTime();
+      if (Math.abs(arrival - previousArrival) < SMOOTHING_LIMIT_MS) {
+        arrival = previousArrival + SMOOTHING * (arrival - previousArrival);
+      }
+    }
+
+    const remainingMinutes = Math.max(0, (arrival - now) / 60000);
+    // Uncertain where speed sources disagree or nothing is known about the road ahead
+    const uncertainty = remainingKm > 0
+      ? Math.min(MAX_UNCERTAINTY, BASE_UNCERTAINTY + 0.5 * disagreement / remainingKm + 0.2 * unknownKm / remainingKm)
+      : 0;
+
+    if (persist) {
+      await this.saveState(route.id, {
+        pathVersion,
+        distanceAlongKm: projection.distanceAlongKm,
+        arrivalAt: new Date(arrival).toISOString(),
+      });
+    }
+
+    return {
+      routeId: route.id,
+      orderId: route.orderId,
+      transporterId: route.transporterId,
+      remainingDistanceKm: Math.round(remainingKm * 100) / 100,
+      remainingMinutes: Math.round(remainingMinutes),
+      arrivalAt: new Date(arrival),
+      // Delays are likelier than gains, so the range leans late
+      earliestArrivalAt: new Date(now + remainingMinutes * (1 - uncertainty / 2) * 60000),
+      latestArrivalAt: new Date(now + remainingMinutes * (1 + uncertainty) * 60000),
+      progress: totalKm > 0 ? Math.min(100, Math.round((projection.distanceAlongKm / totalKm) * 100)) : 100,
+      observedSpeedKmh: observedSpeedKmh !== undefined ? Math.round(observedSpeedKmh) : undefined,
+      computedAt: new Date(now),
+    };
+  }
+
+  /**
+   * Average speed over the transporter's recent fixes, plus the speed
+   * between its last two fixes as a sample for the historical speeds.
+   */
+  private async observeSpeed(transporterId: string): Promise<{ observedSpeedKmh?: number; sample?: SpeedSample }> {
+    const fixes = await prisma.trackingData.findMany({
+      where: {
+        transporterId,
+        timestamp: { gte: new Date(Date.now() - OBSERVED_WINDOW_MS) },
+      },
+      orderBy: { timestamp: 'asc' },
+      select: { latitude: true, longitude: true, timestamp: true },
+    });
+
+    if (fixes.length < 2) return {};
+
+    const elapsedHours = (fixes[fixes.length - 1].timestamp.getTime() - fixes[0].timestamp.getTime()) / 3600000;
+    if (elapsedHours <= 0) return {};
+
+    const observedSpeedKmh = pathDistance(fixes) / elapsedHours;
+
+    const [before, last] = fixes.slice(-2);
+    const sampleKm = haversineDistance(before, last);
+    const sampleHours = (last.timestamp.getTime() - before.timestamp.getTime()) / 3600000;
+    const sample = sampleKm >= MIN_SAMPLE_DISTANCE_KM && sampleHours > 0
+      ? { location: midpoint(before, last), speedKmh: sampleKm / sampleHours }
+      : undefined;
+
+    return { observedSpeedKmh, sample };
+  }
+
+  private async recordSegmentSpeed(sample: SpeedSample): Promise<void> {
+    if (!redisClient.isReady) return;
+
+    const cell = cellKey(sample.location);
+    try {
+      await redisClient.multi()
+        .hIncrByFloat(cell, 'sum', sample.speedKmh)
+        .hIncrBy(cell, 'count', 1)
+        .expire(cell, segmentSpeedTtlSeconds())
+        .exec();
+    } catch (error) {
+      logger.warn('Failed to record segment speed', { error, cell });
+    }
+  }
+
+  // Historical average speed around each point, undefined where none was recorded
+  private async getSegmentSpeeds(points: GeoPoint[]): Promise<Array<number | undefined>> {
+    if (!redisClient.isReady || points.length === 0) return points.map(() => undefined);
+
+    try {
+      const cells = await Promise.all(points.map(point => redisClient.hmGet(cellKey(point), ['sum', 'count'])));
+
+      return cells.map(([sum, count]) => {
+        const samples = parseInt(count ?? '', 10);
+        return samples > 0 ? parseFloat(sum ?? '') / samples : undefined;
+      });
+    } catch (error) {
+      logger.warn('Failed to read segment speeds', { error });
+      return points.map(() => undefined);
+    }
+  }
+
+  private async loadState(routeId: string): Promise<EtaState | null> {
+    if (!redisClient.isReady) return null;
+
+    try {
+      const value = await redisClient.get(stateKey(routeId));
+      return value ? JSON.parse(value) as EtaState : null;
+    } catch (error) {
+      logger.warn('Failed to read ETA state', { error, routeId });
+      return null;
+    }
+  }
+
+  private async saveState(routeId: string, state: EtaState): Promise<void> {
+    if (!redisClient.isReady) return;
+
+    try {
+      await redisClient.setEx(stateKey(routeId), STATE_TTL_SECONDS, JSON.stringify(state));
+    } catch (error) {
+      logger.warn('Failed to save ETA state', { error, routeId });
+    }
+  }
+}
+
+export const etaService = new EtaService();
@@ -0,0 +1,139 @@
+import { EventEmitter } from 'events';
+import { GeofenceEventType, GeofenceSite, OrderStatus, RouteEventType } from '@prisma/client';
+import { logger } from '@/utils/logger';
+
+export interface TransporterLocationEvent {
+  transporterId: string;
+  latitude: number;
+  longitude: number;
+  heading?: number;
+  speed?: number;
+  timestamp: Date;
+  // Orders the transporter is carrying or heading to
+  orderIds: string[];
+}
+
+export interface OrderStatusEvent {
+  orderId: string;
+  fromStatus: OrderStatus | null;
+  toStatus: OrderStatus;
+  actor?: string;
+  reason?: string;
+  timestamp: Date;
+}
+
+export interface RouteRecalculatedEvent {
+  routeId: string;
+  orderId: string;
+  transporterId: string;
+  distance: number;
+  estimatedDuration: number;
+  timestamp: Date;
+}
+
+export interface RouteDeviationEvent {
+  routeId: string;
+  orderId: string;
+  transporterId: string;
+  type: RouteEventType;
+  latitude: number;
+  longitude: number;
+  // Distance from the planned path
+  deviationMeters: number;
+  timestamp: Date;
+}
+
+export interface RouteTrafficDelayEvent {
+  routeId: string;
+  orderId: string;
+  transporterId: string;
+  // Total traffic delay on the rest of the route
+  delayMinutes: number;
+  thresholdMinutes: number;
+  timestamp: Date;
+}
+
+export interface RouteEtaEvent {
+  routeId: string;
+  orderId: string;
+  transporterId: string;
+  remainingDistanceKm: number;
+  remainingMinutes: number;
+  arrivalAt: Date;
+  // Range the arrival is expected to fall in
+  earliestArrivalAt: Date;
+  latestArrivalAt: Date;
+  // Share of the planned path already covered, 0-100
+  progress: number;
+  observedSpeedKmh?: number;
+  computedAt: Date;
+}
+
+export interface GeofenceCrossedEvent {
+  orderId: string;
+  transporterId: string;
+  site: GeofenceSite;
+  type: GeofenceEventType;
+  latitude: number;
+  longitude: number;
+  // Time spent inside the site, on departures
+  dwellSeconds?: number;
+  timestamp: Date;
+}
+
+// Who a notification is for; mirrors the realtime rooms
+export type NotificationAudience =
+  | { type: 'dispatchers' }
+  | { type: 'transporter'; id: string }
+  | { type: 'order'; id: string };
+
+export interface NotificationEvent {
+  audience: NotificationAudience;
+  type: string;
+  message: string;
+  data?: Record<string, unknown>;
+  timestamp: Date;
+}
+
+export interface DomainEvents {
+  'transporter.location': TransporterLocationEvent;
+  'order.status': OrderStatusEvent;
+  'route.recalculated': RouteRecalculatedEvent;
+  'route.deviation': RouteDeviationEvent;
+  'route.eta': RouteEtaEvent;
+  'route.traffic-delay': RouteTrafficDelayEvent;
+  'geofence.event': GeofenceCrossedEvent;
+  'notification': NotificationEvent;
+}
+
+type Listener<K extends keyof DomainEvents> = (payload: DomainEvents[K]) => void | Promise<void>;
+
+/**
+ * In-process, typed publish/subscribe for domain events. Services publish
+ * after their changes are committed; transports such as Socket.IO subscribe.
+ * A failing listener is logged and never affects the publisher.
+ */
+export class EventBus {
+  private readonly emitter = new EventEmitter();
+
+  constructor() {
+    this.emitter.setMaxListeners(50);
+  }
+
+  on<K extends keyof DomainEvents>(event: K, listener: Listener<K>): () => void {
+    const wrapped = (payload: DomainEvents[K]) => {
+      Promise.resolve()
+        .then(() => listener(payload))
+        .catch((error: unknown) => logger.error('Event listener failed', { event, error }));
+    };
+
+    this.emitter.on(event, wrapped);
+    return () => this.emitter.off(event, wrapped);
+  }
+
+  emit<K extends keyof DomainEvents>(event: K, payload: DomainEvents[K]): void {
+    this.emitter.emit(event, payload);
+  }
+}
+
+export const eventBus = new EventBus();
@@ -0,0 +1,361 @@
+import {
+  DispatchPlanStatus,
+  FleetPlan,
+  FleetPlanObjective,
+  OrderStatus,
+  Prisma,
+  TransporterStatus,
+} from '@prisma/client';
+import prisma from '@/config/database';
+import { createError } from '@/middleware/errorHandler';
+import { logger } from '@/utils/logger';
+import { solveFleetVrp, VrpStopKind, VrpVehicle } from '@/utils/vrp';
+import { matchingService, Dimensions } from '@/services/matchingService';
+import { matrixService } from '@/services/matrixService';
+import { orderService } from '@/services/orderService';
+import { TransitionContext } from '@/services/orderStateMachine';
+import { routingService, RouteWaypoint } from '@/services/routingService';
+import { UnassignedOrder } from '@/services/dispatchService';
+
+export interface FleetPlanRequest {
+  orderIds: string[];
+  transporters: Array<{ transporterId: string; depot?: RouteWaypoint }>;
+  objective?: FleetPlanObjective;
+  departureTime?: Date;
+}
+
+export interface FleetPlanStop {
+  orderId: string;
+  type: VrpStopKind;
+  latitude: number;
+  longitude: number;
+  address?: string;
+  estimatedArrival: Date;
+  lateByMinutes: number;
+}
+
+export interface FleetVehicleRoute {
+  transporterId: string;
+  vehicleType: string;
+  depot: RouteWaypoint;
+  stops: FleetPlanStop[];
+  distanceKm: number;
+  durationMinutes: number;
+  cost: number;
+}
+
+export interface FleetApplyResult {
+  plan: FleetPlan;
+  applied: Array<{ orderId: string; transporterId: string; routeId: string }>;
+  skipped: Array<{ orderId: string; transporterId: string; reason: string }>;
+}
+
+// Statuses a transporter can take new orders in; see lifecycleService.assignTransporter
+const PLANNABLE_TRANSPORTER_STATUSES: TransporterStatus[] = [TransporterStatus.AVAILABLE, TransporterStatus.BUSY];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export class FleetPlanningService {
+  /**
+   * Refuses a request createPlan would only fail on: unknown orders or
+   * transporters, orders that are no longer pending, and transporters that
+   * cannot take work or have no position. Checked before queueing a plan.
+   */
+  async assertPlannable(request: FleetPlanRequest): Promise<void> {
+    try {
+      await this.loadPlanInputs(request);
+    } catch (error) {
+      if (error instanceof Error && (error as any).statusCode) {
+        throw error;
+      }
+      logger.error('Failed to check fleet plan request', { error, request });
+      throw createError('Failed to check fleet plan request', 500);
+    }
+  }
+
+  /**
+   * Plans routes for a set of pending orders over a set of transporters,
+   * each starting from its depot (or current location). The DISTANCE
+   * objective minimises kilometres driven; COST weights each vehicle's
+   * kilometres by its fuel cost. The plan is only proposed here; nothing is
+   * assigned until it is applied.
+   */
+  async createPlan(request: FleetPlanRequest): Promise<FleetPlan> {
+    try {
+      const objective = request.objective || FleetPlanObjective.DISTANCE;
+      const departureTime = request.departureTime || new Date();
+      const { orders, fleet } = await this.loadPlanInputs(request);
+
+      const { points, stops, stopOrders } = routingService.buildOrderStops(orders, departureTime);
+      const nodes = [...fleet.map(v => v.depot), ...points];
+      const { distances, durations } = await matrixService.getMatrix(nodes, nodes, { departureTime });
+
+      // Work already on board or assigned is counted as load for the whole tour
+      const vehicles: VrpVehicle[] = fleet.map(({ transporter }) => ({
+        capacityWeight: transporter.capacityWeight,
+        capacityVolume: transporter.capacityVolume,
+        initialWeight: transporter.orders.reduce((sum, order) => sum + order.weight, 0),
+        initialVolume: transporter.orders.reduce(
+          (sum, order) => sum + matchingService.calculateOrderVolume(order.dimensions as unknown as Dimensions),
+          0
+        ),
+        costPerKm: objective === FleetPlanObjective.COST
+          ? routingService.calculateFuelCost(1, transporter.vehicleType)
+          : 1,
+      }));
+
+      logger.info('Building fleet plan', { orders: orders.length, transporters: fleet.length, objective });
+
+      const solution = solveFleetVrp({
+        vehicles,
+        stops,
+        distances,
+        durations,
+        // Per vehicle, but never more than the cap however large the fleet
+        timeBudgetMs: Math.min(
+          parseInt(process.env.VRP_TIME_BUDGET_MS || '500', 10) * fleet.length,
+          parseInt(process.env.VRP_MAX_TIME_BUDGET_MS || '5000', 10)
+        ),
+      });
+
+      const vehicleRoutes: FleetVehicleRoute[] = solution.routes
+        .filter(route => route.visits.length > 0)
+        .map(route => {
+          const { transporter, depot } = fleet[route.vehicle];
+          return {
+            transporterId: transporter.id,
+            vehicleType: transporter.vehicleType,
+            depot,
+            stops: route.visits.map(visit => ({
+              orderId: stopOrders[visit.stop]!,
+              type: stops[visit.stop].kind,
+              latitude: points[visit.stop].latitude,
+              longitude: points[visit.stop].longitude,
+              address: points[visit.stop].address,
+              estimatedArrival: new Date(departureTime.getTime() + visit.arrival * 60000),
+              lateByMinutes: Math.round(visit.lateness),
+            })),
+            distanceKm: round(route.totalDistance),
+            durationMinutes: Math.round(route.totalDuration),
+            cost: round(routingService.calculateFuelCost(route.totalDistance, transporter.vehicleType)),
+          };
+        });
+
+      const maxWeight = Math.max(0, ...vehicles.map(v => v.capacityWeight - (v.initialWeight || 0)));
+      const maxVolume = Math.max(0, ...vehicles.map(v => v.capacityVolume - (v.initialVolume || 0)));
+      const unassignedOrders: UnassignedOrder[] = [...new Set(solution.unassigned.map(index => stopOrders[index]!))]
+        .map(orderId => {
+          const index = stopOrders.indexOf(orderId);
+          const pickup = stops[index];
+          if (solution.unassignedReasons[index] === 'unreachable') {
+            return { orderId, reason: 'No vehicle can reach its pickup or delivery location' };
+          }
+          return {
+            orderId,
+            reason: pickup.weight > maxWeight || pickup.volume > maxVolume
+              ? 'Exceeds the free capacity of every vehicle'
+              : 'No vehicle has enough capacity left once other orders are loaded',
+          };
+        });
+
+      const plan = await prisma.fleetPlan.create({
+        data: {
+          objective,
+          status: DispatchPlanStatus.PROPOSED,
+          departureTime,
+          vehicleRoutes: vehicleRoutes as unknown as Prisma.InputJsonValue,
+          unassignedOrders: unassignedOrders as unknown as Prisma.InputJsonValue,
+          totalDistance: round(solution.totalDistance),
+          totalCost: round(vehicleRoutes.reduce((sum, route) => sum + route.cost, 0)),
+        },
+      });
+
+      logger.info('Fleet plan proposed', {
+        planId: plan.id,
+        vehicles: vehicleRoutes.length,
+        unassigned: unassignedOrders.length,
+        iterations: solution.iterations,
+      });
+      return plan;
+    } catch (error) {
+      if (error instanceof Error && (error as any).statusCode) {
+        throw error;
+      }
+      logger.error('Failed to build fleet plan', { error, request });
+      throw createError('Failed to build fleet plan', 500);
+    }
+  }
+
+  async getPlanById(id: string): Promise<FleetPlan> {
+    try {
+      const plan = await prisma.fleetPlan.findUnique({
+        where: { id },
+      });
+
+      if (!plan) {
+        throw createError('Fleet plan not found', 404);
+      }
+
+      return plan;
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Fleet plan not found') {
+        throw error;
+      }
+      logger.error('Failed to fetch fleet plan', { error, planId: id });
+      throw createError('Failed to fetch fleet plan', 500);
+    }
+  }
+
+  /**
+   * Applies a proposed plan: every order is assigned to its vehicle and gets
+   * a Route covering the vehicle's tour from the depot up to that order's
+   * delivery, linked back to the plan. Orders or vehicles that changed state
+   * since the plan was built are skipped rather than failing the run.
+   */
+  async applyPlan(id: string, context: TransitionContext = {}): Promise<FleetApplyResult> {
+    try {
+      const plan = await this.getPlanById(id);
+
+      if (plan.status !== DispatchPlanStatus.PROPOSED) {
+        throw createError(`Fleet plan is already ${plan.status.toLowerCase()}`, 400);
+      }
+
+      const vehicleRoutes = plan.vehicleRoutes as unknown as FleetVehicleRoute[];
+      const applied: FleetApplyResult['applied'] = [];
+      const skipped: FleetApplyResult['skipped'] = [];
+
+      for (const vehicleRoute of vehicleRoutes) {
+        const { transporterId } = vehicleRoute;
+        const deliveries = vehicleRoute.stops
+          .map((stop, index) => ({ stop, index }))
+          .filter(({ stop }) => stop.type === 'delivery');
+
+        const transporter = await prisma.transporter.findUnique({ where: { id: transporterId } });
+        if (!transporter || !PLANNABLE_TRANSPORTER_STATUSES.includes(transporter.availabilityStatus)) {
+          deliveries.forEach(({ stop }) => {
+            skipped.push({ orderId: stop.orderId, transporterId, reason: 'Transporter is no longer available' });
+          });
+          continue;
+        }
+
+        for (const { stop, index } of deliveries) {
+          const order = await prisma.order.findUnique({ where: { id: stop.orderId } });
+
+          if (!order || order.status !== OrderStatus.PENDING) {
+            skipped.push({ orderId: stop.orderId, transporterId, reason: 'Order is no longer pending' });
+            continue;
+          }
+
+          try {
+            await orderService.assignTransporter(order.id, transporterId, context, { allowBusy: true });
+          } catch (error) {
+            // The transporter filled up or went off duty since planning
+            if ((error as any)?.statusCode !== 409) throw error;
+            skipped.push({ orderId: order.id, transporterId, reason: (error as Error).message });
+            continue;
+          }
+          const route = await routingService.createRoute(order.id, transporterId, {
+            origin: vehicleRoute.depot,
+            waypoints: vehicleRoute.stops.slice(0, index).map(({ latitude, longitude, address }) => ({ latitude, longitude, address })),
+            destination: { latitude: stop.latitude, longitude: stop.longitude, address: stop.address },
+            vehicleType: transporter.vehicleType,
+            departureTime: plan.departureTime,
+          }, plan.id);
+
+          applied.push({ orderId: order.id, transporterId, routeId: route.id });
+        }
+      }
+
+      const updatedPlan = await prisma.fleetPlan.update({
+        where: { id },
+        data: {
+          status: DispatchPlanStatus.APPLIED,
+          appliedAt: new Date(),
+        },
+      });
+
+      logger.info('Fleet plan applied', { planId: id, applied: applied.length, skipped: skipped.length });
+      return { plan: updatedPlan, applied, skipped };
+    } catch (error) {
+      if (error instanceof Error && (error as any).statusCode) {
+        throw error;
+      }
+      logger.error('Failed to apply fleet plan', { error, planId: id });
+      throw createError('Failed to apply fleet plan', 500);
+    }
+  }
+
+  async discardPlan(id: string): Promise<FleetPlan> {
+    try {
+      const plan = await this.getPlanById(id);
+
+      if (plan.status !== DispatchPlanStatus.PROPOSED) {
+        throw createError(`Fleet plan is already ${plan.status.toLowerCase()}`, 400);
+      }
+
+      return await prisma.fleetPlan.update({
+        where: { id },
+        data: { status: DispatchPlanStatus.DISCARDED },
+      });
+    } catch (error) {
+      if (error instanceof Error && (error as any).statusCode) {
+        throw error;
+      }
+      logger.error('Failed to discard fleet plan', { error, planId: id });
+      throw createError('Failed to discard fleet plan', 500);
+    }
+  }
+
+  // Orders and vehicles for a plan, in the caller's vehicle order; throws on anything unplannable
+  private async loadPlanInputs(request: FleetPlanRequest) {
+    const orderIds = [...new Set(request.orderIds)];
+    const transporterIds = [...new Set(request.transporters.map(t => t.transporterId))];
+
+    const [orders, transporters] = await Promise.all([
+      prisma.order.findMany({ where: { id: { in: orderIds } } }),
+      prisma.transporter.findMany({
+        where: { id: { in: transporterIds } },
+        include: {
+          orders: {
+            where: { status: { in: [OrderStatus.ASSIGNED, OrderStatus.IN_TRANSIT] } },
+          },
+        },
+      }),
+    ]);
+
+    const missingOrders = orderIds.filter(id => !orders.some(order => order.id === id));
+    if (missingOrders.length > 0) {
+      throw createError(`Orders not found: ${missingOrders.join(', ')}`, 404);
+    }
+
+    const missingTransporters = transporterIds.filter(id => !transporters.some(t => t.id === id));
+    if (missingTransporters.length > 0) {
+      throw createError(`Transporters not found: ${missingTransporters.join(', ')}`, 404);
+    }
+
+    const notPending = orders.filter(order => order.status !== OrderStatus.PENDING);
+    if (notPending.length > 0) {
+      throw createError(`Only pending orders can be planned: ${notPending.map(order => order.id).join(', ')}`, 400);
+    }
+
+    // Keep the caller's vehicle order so vehicle index i maps to transporterIds[i]
+    const fleet = transporterIds.map(id => {
+      const transporter = transporters.find(t => t.id === id)!;
+      const requested = request.transporters.find(t => t.transporterId === id);
+      const depot = requested?.depot || (transporter.currentLocation as unknown as RouteWaypoint | null);
+
+      if (!PLANNABLE_TRANSPORTER_STATUSES.includes(transporter.availabilityStatus)) {
+        throw createError(`Transporter ${id} is ${transporter.availabilityStatus}`, 400);
+      }
+      if (!depot) {
+        throw createError(`Transporter ${id} has no current location; pass a depot`, 400);
+      }
+
+      return { transporter, depot: { latitude: depot.latitude, longitude: depot.longitude } };
+    });
+
+    return { orders, fleet };
+  }
+}
+
+export const fleetPlanningService = new FleetPlanningService();
@@ -0,0 +1,116 @@
+import { GeoReplyWith } from 'redis';
+import prisma from '@/config/database';
+import redisClient from '@/config/redis';
+import { createError } from '@/middleware/errorHandler';
+import { logger } from '@/utils/logger';
+import { GeoPoint, haversineDistance } from '@/utils/geo';
+
+export interface GeoMatch {
+  id: string;
+  distanceKm: number;
+}
+
+const TRANSPORTER_INDEX_KEY = 'geo:transporters';
+const REBUILD_BATCH_SIZE = 500;
+
+/**
+ * Redis GEO index of transporter positions, kept current by
+ * TransporterService.updateLocation. While Redis is unavailable, searches
+ * fall back to scanning locations in the database, so results stay correct
+ * and only get slower.
+ */
+export class GeoIndexService {
+  async upsertTransporter(transporterId: string, location: GeoPoint): Promise<void> {
+    if (!redisClient.isReady) return;
+
+    try {
+      await redisClient.geoAdd(TRANSPORTER_INDEX_KEY, {
+        longitude: location.longitude,
+        latitude: location.latitude,
+        member: transporterId,
+      });
+    } catch (error) {
+      // The next update or a rebuild repairs the entry; the location itself is already saved
+      logger.warn('Failed to index transporter location', { error, transporterId });
+    }
+  }
+
+  async removeTransporter(transporterId: string): Promise<void> {
+    if (!redisClient.isReady) return;
+
+    try {
+      await redisClient.zRem(TRANSPORTER_INDEX_KEY, transporterId);
+    } catch (error) {
+      logger.warn('Failed to remove transporter from geo index', { error, transporterId });
+    }
+  }
+
+  // Transporters within radiusKm of center, nearest first
+  async searchTransporters(center: GeoPoint, radiusKm: number): Promise<GeoMatch[]> {
+    if (redisClient.isReady) {
+      try {
+        const matches = await redisClient.geoSearchWith(
+          TRANSPORTER_INDEX_KEY,
+          { longitude: center.longitude, latitude: center.latitude },
+          { radius: radiusKm, unit: 'km' },
+          [GeoReplyWith.DISTANCE],
+          { SORT: 'ASC' }
+        );
+
+        return matches.map(match => ({ id: match.member, distanceKm: Number(match.distance) }));
+      } catch (error) {
+        logger.warn('Geo index search failed, scanning the database', { error });
+      }
+    }
+
+    const transporters = await prisma.transporter.findMany({
+      select: { id: true, currentLocation: true },
+    });
+
+    return transporters
+      .filter(transporter => transporter.currentLocation)
+      .map(transporter => ({
+        id: transporter.id,
+        distanceKm: haversineDistance(center, transporter.currentLocation as unknown as GeoPoint),
+      }))
+      .filter(match => match.distanceKm <= radiusKm)
+      .sort((a, b) => a.distanceKm - b.distanceKm);
+  }
+
+  /**
+   * Rebuilds the index from the transporters' stored locations, e.g. after
+   * Redis lost its data. Returns the number of transporters indexed.
+   */
+  async rebuildTransporterIndex(): Promise<number> {
+    if (!redisClient.isReady) {
+      throw createError('Redis is not connected', 503);
+    }
+
+    const transporters = await prisma.transporter.findMany({
+      select: { id: true, currentLocation: true },
+    });
+    const located = transporters.filter(transporter => transporter.currentLocation);
+
+    // Build under a temporary key and swap it in, so searches never see a half-built index
+    const buildKey = `${TRANSPORTER_INDEX_KEY}:rebuild`;
+    await redisClient.del(buildKey);
+
+    for (let i = 0; i < located.length; i += REBUILD_BATCH_SIZE) {
+      await redisClient.geoAdd(buildKey, located.slice(i, i + REBUILD_BATCH_SIZE).map(transporter => {
+        const location = transporter.currentLocation as unknown as GeoPoint;
+        return { longitude: location.longitude, latitude: location.latitude, member: transporter.id };
+      }));
+    }
+
+    if (located.length > 0) {
+      await redisClient.rename(buildKey, TRANSPORTER_INDEX_KEY);
+    } else {
+      await redisClient.del(TRANSPORTER_INDEX_KEY);
+    }
+
+    logger.info('Transporter geo index rebuilt', { indexed: located.length });
+    return located.length;
+  }
+}
+
+export const geoIndexService = new GeoIndexService();
@@ -0,0 +1,217 @@
+import { GeofenceEvent, GeofenceEventType, GeofenceSite, OrderStatus } from '@prisma/client';
+import prisma from '@/config/database';
+import { createError } from '@/middleware/errorHandler';
+import { logger } from '@/utils/logger';
+import { GeoPoint, haversineDistance } from '@/utils/geo';
+import { eventBus } from '@/services/eventBus';
+import { lifecycleService } from '@/services/lifecycleService';
+
+export interface GeofenceFix extends GeoPoint {
+  timestamp: Date;
+  // Orders the transporter held when the fix was taken
+  orderIds: string[];
+}
+
+interface SiteState {
+  inside: boolean;
+  since?: Date;
+  lastChecked?: Date;
+}
+
+// Recorded as the actor on order transitions triggered by a geofence
+export const GEOFENCE_ACTOR = 'geofence';
+
+const ACTIVE_ORDER_STATUSES: OrderStatus[] = [OrderStatus.ASSIGNED, OrderStatus.IN_TRANSIT];
+
+const radiusMeters = () => parseFloat(process.env.GEOFENCE_RADIUS_M || '150');
+// Extra distance needed to count as leaving, so GPS jitter at the edge does not flap
+const exitMarginMeters = () => parseFloat(process.env.GEOFENCE_EXIT_MARGIN_M || '50');
+const autoTransitionsEnabled = () => process.env.GEOFENCE_AUTO_TRANSITIONS !== 'false';
+
+const stateKey = (orderId: string, site: GeofenceSite) => `${orderId}:${site}`;
+
+export class GeofenceService {
+  /**
+   * Detects arrivals at and departures from the pickup and delivery
+   * locations of the orders a transporter holds, from fixes already
+   * accepted by telemetry ingestion. Fixes must be in timestamp order.
+   * Arrivals are recorded once the transporter is within GEOFENCE_RADIUS_M
+   * of a site; departures once it is further than the radius plus
+   * GEOFENCE_EXIT_MARGIN_M, with the time spent at the site. Delivery is
+   * only watched once the order has left pickup. Leaving pickup moves an
+   * ASSIGNED order to IN_TRANSIT unless GEOFENCE_AUTO_TRANSITIONS=false.
+   */
+  async processFixes(transporterId: string, fixes: GeofenceFix[]): Promise<GeofenceEvent[]> {
+    const orderIds = [...new Set(fixes.flatMap(fix => fix.orderIds))];
+    if (orderIds.length === 0) return [];
+
+    const orders = await prisma.order.findMany({
+      where: {
+        id: { in: orderIds },
+        transporterId,
+        status: { in: ACTIVE_ORDER_STATUSES },
+      },
+      select: { id: true, status: true, pickupLocation: true, deliveryLocation: true },
+    });
+
+    if (orders.length === 0) return [];
+
+    const states = await this.loadStates(orders.map(order => order.id));
+    const recorded: GeofenceEvent[] = [];
+
+    for (const order of orders) {
+      const sites: Record<GeofenceSite, GeoPoint> = {
+        [GeofenceSite.PICKUP]: order.pickupLocation as unknown as GeoPoint,
+        [GeofenceSite.DELIVERY]: order.deliveryLocation as unknown as GeoPoint,
+      };
+      let pickedUp = order.status === OrderStatus.IN_TRANSIT;
+
+      for (const fix of fixes) {
+        if (!fix.orderIds.includes(order.id)) continue;
+
+        const watched = pickedUp ? [GeofenceSite.PICKUP, GeofenceSite.DELIVERY] : [GeofenceSite.PICKUP];
+
+        for (const site of watched) {
+          const state = states.get(stateKey(order.id, site)) ?? { inside: false };
+          states.set(stateKey(order.id, site), state);
+
+          const event = await this.checkSite(transporterId, order.id, site, sites[site], fix, state);
+          if (!event) continue;
+
+          recorded.push(event);
+          if (site === GeofenceSite.PICKUP && event.type === GeofenceEventType.DEPARTED) {
+            pickedUp = true;
+          }
+        }
+      }
+    }
+
+    recorded.forEach(event => {
+      eventBus.emit('geofence.event', {
+        orderId: event.orderId,
+        transporterId: event.transporterId,
+        site: event.site,
+        type: event.type,
+        latitude: event.latitude,
+        longitude: event.longitude,
+        dwellSeconds: event.dwellSeconds ?? undefined,
+        timestamp: event.occurredAt,
+      });
+    });
+
+    if (autoTransitionsEnabled()) {
+      await this.applyTransitions(orders, recorded);
+    }
+
+    return recorded;
+  }
+
+  async getEvents(orderId: string): Promise<GeofenceEvent[]> {
+    try {
+      return await prisma.geofenceEvent.findMany({
+        where: { orderId },
+        orderBy: { occurredAt: 'asc' },
+      });
+    } catch (error) {
+      logger.error('Failed to fetch geofence events', { error, orderId });
+      throw createError('Failed to fetch geofence events', 500);
+    }
+  }
+
+  private async checkSite(
+    transporterId: string,
+    orderId: string,
+    site: GeofenceSite,
+    location: GeoPoint,
+    fix: GeofenceFix,
+    state: SiteState
+  ): Promise<GeofenceEvent | null> {
+    // Already judged against a later position, e.g. a backlog replayed out of band
+    if (state.lastChecked && fix.timestamp <= state.lastChecked) return null;
+    state.lastChecked = fix.timestamp;
+
+    const distanceMeters = haversineDistance(location, fix) * 1000;
+    let type: GeofenceEventType;
+
+    if (!state.inside && distanceMeters <= radiusMeters()) {
+      type = GeofenceEventType.ARRIVED;
+    } else if (state.inside && distanceMeters > radiusMeters() + exitMarginMeters()) {
+      type = GeofenceEventType.DEPARTED;
+    } else {
+      return null;
+    }
+
+    const dwellSeconds = type === GeofenceEventType.DEPARTED && state.since
+      ? Math.round((fix.timestamp.getTime() - state.since.getTime()) / 1000)
+      : null;
+
+    const event = await prisma.geofenceEvent.create({
+      data: {
+        orderId,
+        transporterId,
+        site,
+        type,
+        latitude: fix.latitude,
+        longitude: fix.longitude,
+        dwellSeconds,
+        occurredAt: fix.timestamp,
+      },
+    });
+
+    state.inside = type === GeofenceEventType.ARRIVED;
+    state.since = fix.timestamp;
+
+    logger.info('Geofence event recorded', { orderId, transporterId, site, type, dwellSeconds });
+    return event;
+  }
+
+  // Where each order stood at each site after its last recorded geofence event
+  private async loadStates(orderIds: string[]): Promise<Map<string, SiteState>> {
+    const events = await prisma.geofenceEvent.findMany({
+      where: { orderId: { in: orderIds } },
+      orderBy: { occurredAt: 'asc' },
+    });
+
+    const states = new Map<string, SiteState>();
+    events.forEach(event => {
+      states.set(stateKey(event.orderId, event.site), {
+        inside: event.type === GeofenceEventType.ARRIVED,
+        since: event.occurredAt,
+        lastChecked: event.occurredAt,
+      });
+    });
+
+    return states;
+  }
+
+  private async applyTransitions(
+    orders: { id: string; status: OrderStatus }[],
+    events: GeofenceEvent[]
+  ): Promise<void> {
+    for (const order of orders) {
+      if (order.status !== OrderStatus.ASSIGNED) continue;
+
+      const departure = events.find(event =>
+        event.orderId === order.id &&
+        event.site === GeofenceSite.PICKUP &&
+        event.type === GeofenceEventType.DEPARTED
+      );
+      if (!departure) continue;
+
+      try {
+        await lifecycleService.transitionOrder(order.id, OrderStatus.IN_TRANSIT, {
+          actor: GEOFENCE_ACTOR,
+          reason: departure.dwellSeconds !== null
+            ? `Left pickup after ${departure.dwellSeconds}s on site`
+            : 'Left pickup',
+          location: { latitude: departure.latitude, longitude: departure.longitude },
+        });
+      } catch (error) {
+        // The driver or a dispatcher may have moved the order in the meantime
+        logger.warn('Geofence status transition skipped', { error, orderId: order.id });
+      }
+    }
+  }
+}
+
+export const geofenceService = new GeofenceService();
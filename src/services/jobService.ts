@@ -0,0 +1,450 @@
+import Queue from 'bull';
+import { createQueue } from '@/config/queue';
+import { createError } from '@/middleware/errorHandler';
+import { logger } from '@/utils/logger';
+import { eventBus, NotificationAudience } from '@/services/eventBus';
+import { routingService, RouteOptimizationRequest } from '@/services/routingService';
+import { matchingService, MatchingOptions } from '@/services/matchingService';
+import { etaService } from '@/services/etaService';
+import { TransitionContext } from '@/services/orderStateMachine';
+import { notificationSender } from '@/services/notificationSender';
+import { fleetPlanningService, FleetPlanRequest } from '@/services/fleetPlanningService';
+import { webhookDispatcher } from '@/services/webhookDispatcher';
+
+export const JOB_QUEUES = [
+  'route-computation', 'fleet-planning', 'auto-matching', 'eta-refresh', 'notifications', 'notification-delivery',
+  'webhook-delivery',
+] as const;
+export type JobQueueName = typeof JOB_QUEUES[number];
+
+// Jobs that failed for good are copied here until retried or discarded by an admin
+export const DEAD_LETTER_QUEUE = 'dead-letter';
+
+export interface RouteComputationJob {
+  orderId: string;
+  transporterId: string;
+  routeRequest: RouteOptimizationRequest;
+}
+
+export interface FleetPlanningJob {
+  request: FleetPlanRequest;
+}
+
+export interface AutoMatchJob {
+  orderId: string;
+  options: MatchingOptions;
+  context: TransitionContext;
+}
+
+export interface EtaRefreshJob {
+  routeId: string;
+}
+
+export interface WebhookDeliveryJob {
+  deliveryId: string;
+}
+
+// No message body: a body with secrets is sealed in Redis (see NotificationSender.seal), never put in a job
+export interface NotificationDeliveryJob {
+  notificationId: string;
+  sealed: boolean;
+}
+
+export interface NotificationJob {
+  audience: NotificationAudience;
+  type: string;
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+interface JobPayloads {
+  'route-computation': RouteComputationJob;
+  'fleet-planning': FleetPlanningJob;
+  'auto-matching': AutoMatchJob;
+  'eta-refresh': EtaRefreshJob;
+  'notifications': NotificationJob;
+  'notification-delivery': NotificationDeliveryJob;
+  'webhook-delivery': WebhookDeliveryJob;
+}
+
+interface DeadLetterEntry<K extends JobQueueName> {
+  queue: K;
+  jobId: string;
+  data: JobPayloads[K];
+  failedReason: string;
+  attemptsMade: number;
+  failedAt: string;
+}
+
+// A failed job with the payload of the queue it came from
+export type DeadLetterJob<K extends JobQueueName = JobQueueName> = { [Q in K]: DeadLetterEntry<Q> }[K];
+
+export interface JobStatus {
+  id: string;
+  queue: JobQueueName;
+  state: string;
+  attemptsMade: number;
+  result: unknown;
+  failedReason: string | null;
+  createdAt: Date;
+  finishedAt: Date | null;
+}
+
+export interface QueueStats {
+  name: string;
+  waiting: number;
+  active: number;
+  delayed: number;
+  completed: number;
+  failed: number;
+}
+
+export interface FailedJob {
+  id: string;
+  data: unknown;
+  failedReason: string | null;
+  attemptsMade: number;
+  stacktrace: string[];
+  failedAt: Date | null;
+}
+
+const concurrency = () => parseInt(process.env.JOB_CONCURRENCY || '2');
+// Receivers may be down for a while, so webhooks retry longer than internal jobs
+const webhookAttempts = () => parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8');
+const webhookBackoffMs = () => parseInt(process.env.WEBHOOK_BACKOFF_MS || '10000');
+
+// Failures of these reach their owners through their own logs, not dispatcher notifications
+const SILENT_QUEUES: JobQueueName[] = ['notifications', 'notification-delivery', 'webhook-delivery'];
+
+// Client errors (bad input, missing records) fail the same way on every attempt
+const isPermanent = (error: unknown) => {
+  const statusCode = (error as any)?.statusCode;
+  return typeof statusCode === 'number' && statusCode >= 400 && statusCode < 500;
+};
+
+// Bull keeps only the message of a failure, so the status travels in the job's log
+const STATUS_LOG_PREFIX = 'status:';
+
+// attemptsMade counts finished attempts, so the running one is the last when one short
+const isLastAttempt = (job: Queue.Job) => job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+
+const toFailedJob = (job: Queue.Job): FailedJob => ({
+  id: String(job.id),
+  data: job.data,
+  failedReason: job.failedReason ?? null,
+  attemptsMade: job.attemptsMade,
+  stacktrace: job.stacktrace ?? [],
+  failedAt: job.finishedOn ? new Date(job.finishedOn) : null,
+});
+
+/**
+ * Named Bull queues for work that should not hold up an HTTP request or
+ * the fix pipeline. Queues are created on first use, so processes that
+ * never touch them (e.g. the MCP stdio server) open no extra connections.
+ */
+export class JobService {
+  private readonly queues = new Map<string, Queue.Queue>();
+
+  private queue<K extends JobQueueName>(name: K): Queue.Queue<JobPayloads[K]>;
+  private queue(name: typeof DEAD_LETTER_QUEUE): Queue.Queue<DeadLetterJob>;
+  private queue(name: string): Queue.Queue {
+    let queue = this.queues.get(name);
+    if (!queue) {
+      queue = createQueue(name);
+      this.queues.set(name, queue);
+    }
+    return queue;
+  }
+
+  /**
+   * Registers the processors for every queue in this process. Failed
+   * attempts are retried with backoff unless the error is a client error;
+   * jobs that fail for good are copied to the dead-letter queue and
+   * dispatchers are notified.
+   */
+  startWorkers(): () => Promise<void> {
+    this.work('route-computation', async ({ orderId, transporterId, routeRequest }) => {
+      const route = await routingService.createRoute(orderId, transporterId, {
+        ...routeRequest,
+        departureTime: routeRequest.departureTime ? new Date(routeRequest.departureTime) : undefined,
+      });
+
+      await this.notify({
+        audience: { type: 'dispatchers' },
+        type: 'route.computed',
+        message: `Route computed for order ${orderId}`,
+        data: { routeId: route.id, orderId, transporterId },
+      });
+      return { routeId: route.id };
+    });
+
+    this.work('fleet-planning', async ({ request }) => {
+      const plan = await fleetPlanningService.createPlan({
+        ...request,
+        departureTime: request.departureTime ? new Date(request.departureTime) : undefined,
+      });
+
+      await this.notify({
+        audience: { type: 'dispatchers' },
+        type: 'fleet-plan.proposed',
+        message: `Fleet plan proposed for ${request.orderIds.length} orders`,
+        data: { planId: plan.id },
+      });
+      return { planId: plan.id };
+    });
+
+    this.work('auto-matching', async ({ orderId, options, context }) => {
+      const { match } = await matchingService.autoAssign(orderId, options, context);
+      return { orderId, transporterId: match.transporter.id, score: match.score };
+    });
+
+    this.work('eta-refresh', async ({ routeId }) => {
+      const estimate = await etaService.getEta(routeId);
+      if (estimate) {
+        eventBus.emit('route.eta', estimate);
+      }
+      return { arrivalAt: estimate?.arrivalAt ?? null };
+    });
+
+    this.work('notifications', async (notification) => {
+      eventBus.emit('notification', { ...notification, timestamp: new Date() });
+    });
+
+    this.work('notification-delivery', async ({ notificationId, sealed }, job) => {
+      await notificationSender.deliver(notificationId, sealed, isLastAttempt(job));
+    });
+
+    this.work('webhook-delivery', async ({ deliveryId }, job) => {
+      await webhookDispatcher.deliver(deliveryId, isLastAttempt(job));
+    });
+
+    return async () => {
+      await Promise.all([...this.queues.values()].map(queue => queue.close()));
+    };
+  }
+
+  async enqueueRouteComputation(job: RouteComputationJob): Promise<Queue.Job<RouteComputationJob>> {
+    return this.queue('route-computation').add(job);
+  }
+
+  async enqueueFleetPlanning(job: FleetPlanningJob): Promise<Queue.Job<FleetPlanningJob>> {
+    return this.queue('fleet-planning').add(job);
+  }
+
+  async enqueueAutoMatch(job: AutoMatchJob): Promise<Queue.Job<AutoMatchJob>> {
+    return this.queue('auto-matching').add(job);
+  }
+
+  // At most one refresh per route per minute; Bull drops adds with a job id it already holds
+  async enqueueEtaRefresh(routeId: string): Promise<void> {
+    await this.queue('eta-refresh').add({ routeId }, { jobId: `eta-${routeId}-${Math.floor(Date.now() / 60000)}` });
+  }
+
+  async enqueueWebhookDelivery(deliveryId: string): Promise<Queue.Job<WebhookDeliveryJob>> {
+    return this.queue('webhook-delivery').add({ deliveryId }, {
+      attempts: webhookAttempts(),
+      backoff: { type: 'exponential', delay: webhookBackoffMs() },
+    });
+  }
+
+  async enqueueNotificationDelivery(job: NotificationDeliveryJob): Promise<Queue.Job<NotificationDeliveryJob>> {
+    return this.queue('notification-delivery').add(job);
+  }
+
+  async notify(notification: NotificationJob): Promise<void> {
+    await this.queue('notifications').add(notification);
+  }
+
+  /**
+   * Resolves with the job's result if it completes within `timeoutMs`, or
+   * undefined when it is still running (or being retried) by then. A job
+   * that has failed for good rejects with its error message and status.
+   */
+  async waitForResult<T>(job: Queue.Job, timeoutMs: number): Promise<T | undefined> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<undefined>(resolve => {
+      timer = setTimeout(() => resolve(undefined), timeoutMs);
+    });
+
+    try {
+      return await Promise.race([job.finished() as Promise<T>, timeout]);
+    } catch (error) {
+      const current = await job.queue.getJob(job.id);
+
+      // A failed attempt that will be retried leaves the job delayed; callers look it up later
+      if (!current || !(await current.isFailed())) {
+        return undefined;
+      }
+
+      const message = current.failedReason || (error instanceof Error ? error.message : 'Job failed');
+      throw createError(message, await this.failureStatus(current));
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  async getJobStatus(queueName: JobQueueName, jobId: string): Promise<JobStatus> {
+    const job = await this.queue(queueName).getJob(jobId);
+
+    if (!job) {
+      throw createError('Job not found', 404);
+    }
+
+    return {
+      id: String(job.id),
+      queue: queueName,
+      state: await job.getState(),
+      attemptsMade: job.attemptsMade,
+      result: job.returnvalue ?? null,
+      failedReason: job.failedReason ?? null,
+      createdAt: new Date(job.timestamp),
+      finishedAt: job.finishedOn ? new Date(job.finishedOn) : null,
+    };
+  }
+
+  async getQueueStats(): Promise<QueueStats[]> {
+    try {
+      return await Promise.all([...JOB_QUEUES, DEAD_LETTER_QUEUE].map(async (name) => {
+        const counts = await this.queue(name as JobQueueName).getJobCounts();
+        return {
+          name,
+          waiting: counts.waiting,
+          active: counts.active,
+          delayed: counts.delayed,
+          completed: counts.completed,
+          failed: counts.failed,
+        };
+      }));
+    } catch (error) {
+      logger.error('Failed to fetch queue stats', { error });
+      throw createError('Failed to fetch queue stats', 500);
+    }
+  }
+
+  async getFailedJobs(queueName: JobQueueName, limit = 50): Promise<FailedJob[]> {
+    try {
+      const jobs = await this.queue(queueName).getFailed(0, limit - 1);
+      return jobs.map(toFailedJob);
+    } catch (error) {
+      logger.error('Failed to fetch failed jobs', { error, queue: queueName });
+      throw createError('Failed to fetch failed jobs', 500);
+    }
+  }
+
+  async getDeadLetters(limit = 50): Promise<Array<DeadLetterJob & { id: string }>> {
+    try {
+      const jobs = await this.queue(DEAD_LETTER_QUEUE).getWaiting(0, limit - 1);
+      return jobs.map(job => ({ id: String(job.id), ...job.data }));
+    } catch (error) {
+      logger.error('Failed to fetch dead-letter jobs', { error });
+      throw createError('Failed to fetch dead-letter jobs', 500);
+    }
+  }
+
+  // Puts a dead-lettered job back on its original queue with fresh attempts
+  async retryDeadLetter(id: string): Promise<{ queue: JobQueueName; jobId: string }> {
+    const deadLetter = await this.queue(DEAD_LETTER_QUEUE).getJob(id);
+
+    if (!deadLetter) {
+      throw createError('Dead-letter job not found', 404);
+    }
+
+    const queueName = deadLetter.data.queue;
+    const job = await this.requeue(deadLetter.data);
+    await deadLetter.remove();
+
+    logger.info('Dead-letter job requeued', { deadLetterId: id, queue: queueName, jobId: job.id });
+    return { queue: queueName, jobId: String(job.id) };
+  }
+
+  // Adds a dead-lettered payload the way its queue is normally fed, so it gets that queue's job options
+  private async requeue(deadLetter: DeadLetterJob): Promise<Queue.Job> {
+    switch (deadLetter.queue) {
+      case 'route-computation':
+        return this.enqueueRouteComputation(deadLetter.data);
+      case 'fleet-planning':
+        return this.enqueueFleetPlanning(deadLetter.data);
+      case 'auto-matching':
+        return this.enqueueAutoMatch(deadLetter.data);
+      case 'eta-refresh':
+        // Not through enqueueEtaRefresh, whose per-minute job id would drop the retry
+        return this.queue('eta-refresh').add(deadLetter.data);
+      case 'notifications':
+        return this.queue('notifications').add(deadLetter.data);
+      case 'notification-delivery':
+        return this.enqueueNotificationDelivery(deadLetter.data);
+      case 'webhook-delivery':
+        return this.enqueueWebhookDelivery(deadLetter.data.deliveryId);
+    }
+  }
+
+  private work<K extends JobQueueName>(
+    name: K,
+    processor: (data: JobPayloads[K], job: Queue.Job<JobPayloads[K]>) => Promise<unknown>
+  ): void {
+    const queue = this.queue(name);
+
+    queue.process(concurrency(), async (job) => {
+      try {
+        return await processor(job.data, job);
+      } catch (error) {
+        const statusCode = (error as any)?.statusCode;
+        if (typeof statusCode === 'number') {
+          await job.log(`${STATUS_LOG_PREFIX}${statusCode}`);
+        }
+        if (isPermanent(error)) {
+          await job.discard();
+        }
+        throw error;
+      }
+    });
+
+    queue.on('failed', (job, error) => {
+      const exhausted = job.attemptsMade >= (job.opts.attempts ?? 1);
+      if (!exhausted && !isPermanent(error)) {
+        logger.warn('Job attempt failed, retrying', { queue: name, jobId: job.id, attempt: job.attemptsMade, error: error.message });
+        return;
+      }
+
+      void this.deadLetter(name, job, error);
+    });
+  }
+
+  // Status of the job's last failed attempt, or 500 when it failed without one
+  private async failureStatus(job: Queue.Job): Promise<number> {
+    const { logs } = await job.queue.getJobLogs(String(job.id));
+    const entry = [...logs].reverse().find(line => line.startsWith(STATUS_LOG_PREFIX));
+    return entry ? parseInt(entry.slice(STATUS_LOG_PREFIX.length), 10) : 500;
+  }
+
+  private async deadLetter<K extends JobQueueName>(name: K, job: Queue.Job<JobPayloads[K]>, error: Error): Promise<void> {
+    logger.error('Job failed permanently', { queue: name, jobId: job.id, attempts: job.attemptsMade, error: error.message });
+
+    const entry: DeadLetterEntry<K> = {
+      queue: name,
+      jobId: String(job.id),
+      data: job.data,
+      failedReason: error.message,
+      attemptsMade: job.attemptsMade,
+      failedAt: new Date().toISOString(),
+    };
+
+    try {
+      await this.queue(DEAD_LETTER_QUEUE).add(entry as unknown as DeadLetterJob);
+
+      // A failing notification must not trigger another notification
+      if (!SILENT_QUEUES.includes(name)) {
+        await this.notify({
+          audience: { type: 'dispatchers' },
+          type: 'job.failed',
+          message: `${name} job ${job.id} failed: ${error.message}`,
+          data: { queue: name, jobId: String(job.id) },
+        });
+      }
+    } catch (deadLetterError) {
+      logger.error('Failed to dead-letter job', { error: deadLetterError, queue: name, jobId: job.id });
+    }
+  }
+}
+
+export const jobService = new JobService();
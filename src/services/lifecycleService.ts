@@ -0,0 +1,319 @@
+import { Order, OrderStatus, Prisma, Route, RouteStatus, TransporterStatus } from '@prisma/client';
+import { createError } from '@/middleware/errorHandler';
+import { logger } from '@/utils/logger';
+import { Dimensions, orderVolume } from '@/utils/load';
+import { orderStateMachine, TransitionContext } from '@/services/orderStateMachine';
+
+export const ROUTE_TRANSITIONS: Record<RouteStatus, RouteStatus[]> = {
+  [RouteStatus.PLANNED]: [RouteStatus.IN_PROGRESS, RouteStatus.CANCELLED],
+  [RouteStatus.IN_PROGRESS]: [RouteStatus.COMPLETED, RouteStatus.CANCELLED],
+  [RouteStatus.COMPLETED]: [],
+  [RouteStatus.CANCELLED]: [],
+};
+
+const ACTIVE_ORDER_STATUSES: OrderStatus[] = [OrderStatus.ASSIGNED, OrderStatus.IN_TRANSIT];
+const UNAVAILABLE_TRANSPORTER_STATUSES: TransporterStatus[] = [TransporterStatus.OFFLINE, TransporterStatus.MAINTENANCE];
+
+export interface AssignmentOptions {
+  // Fleet plans load several orders onto one vehicle, so they may add to a busy transporter
+  allowBusy?: boolean;
+}
+
+/**
+ * Coordinates status changes that span orders, routes and transporters so
+ * the three never drift apart. Every public method runs in a single
+ * transaction; order status events are published once it commits.
+ */
+export class LifecycleService {
+  /**
+   * Assigns an order to a transporter who is available and has room for
+   * it next to the orders they already carry. Busy transporters are only
+   * accepted with `allowBusy`.
+   */
+  async assignTransporter(
+    orderId: string,
+    transporterId: string,
+    context: TransitionContext = {},
+    options: AssignmentOptions = {}
+  ): Promise<Order> {
+    return orderStateMachine.runInTransaction(async (tx) => {
+      const transporter = await tx.transporter.findUnique({ where: { id: transporterId } });
+
+      if (!transporter) {
+        throw createError('Transporter not found', 404);
+      }
+
+      if (UNAVAILABLE_TRANSPORTER_STATUSES.includes(transporter.availabilityStatus)) {
+        throw createError(`Transporter is ${transporter.availabilityStatus.toLowerCase()}`, 409);
+      }
+
+      const before = await this.findOrder(tx, orderId);
+      const alreadyAssigned = before.transporterId === transporterId;
+
+      if (transporter.availabilityStatus === TransporterStatus.BUSY && !options.allowBusy && !alreadyAssigned) {
+        throw createError('Transporter is busy', 409);
+      }
+
+      const carried = await tx.order.findMany({
+        where: { transporterId, status: { in: ACTIVE_ORDER_STATUSES }, id: { not: orderId } },
+        select: { weight: true, dimensions: true },
+      });
+      const load = [...carried, before].reduce((total, order) => ({
+        weight: total.weight + order.weight,
+        volume: total.volume + orderVolume(order.dimensions as unknown as Dimensions),
+      }), { weight: 0, volume: 0 });
+
+      if (load.weight > transporter.capacityWeight || load.volume > transporter.capacityVolume) {
+        throw createError('Order exceeds the transporter\'s remaining capacity', 409);
+      }
+
+      await orderStateMachine.transition(tx, orderId, OrderStatus.ASSIGNED, context, { transporterId });
+
+      // Reassignment: the previous transporter's planned route no longer applies
+      if (before.transporterId && before.transporterId !== transporterId) {
+        await tx.route.deleteMany({ where: { orderId, status: RouteStatus.PLANNED } });
+        await this.releaseTransporter(tx, before.transporterId);
+      }
+
+      await tx.transporter.update({
+        where: { id: transporterId },
+        data: { availabilityStatus: TransporterStatus.BUSY },
+      });
+
+      logger.info('Transporter assigned and marked busy', { orderId, transporterId });
+      return this.reloadOrder(tx, orderId);
+    });
+  }
+
+  async transitionOrder(orderId: string, status: OrderStatus, context: TransitionContext = {}): Promise<Order> {
+    if (status === OrderStatus.ASSIGNED) {
+      throw createError('Use the assign endpoint to assign a transporter', 400);
+    }
+    if (status === OrderStatus.DELIVERED) {
+      throw createError('Orders are delivered by submitting proof of delivery', 400);
+    }
+
+    return orderStateMachine.runInTransaction(async (tx) => {
+      const before = await this.findOrder(tx, orderId);
+      const data = status === OrderStatus.PENDING ? { transporterId: null } : {};
+
+      await orderStateMachine.transition(tx, orderId, status, context, data);
+      await this.cascadeOrderStatus(tx, before, status);
+
+      return this.reloadOrder(tx, orderId);
+    });
+  }
+
+  async cancelOrder(orderId: string, context: TransitionContext = {}): Promise<Order> {
+    return this.transitionOrder(orderId, OrderStatus.CANCELLED, context);
+  }
+
+  async startRoute(routeId: string, context: TransitionContext = {}): Promise<Route> {
+    return orderStateMachine.runInTransaction(async (tx) => {
+      const route = await this.moveRoute(tx, routeId, RouteStatus.IN_PROGRESS);
+      const order = await this.findOrder(tx, route.orderId);
+
+      if (order.status !== OrderStatus.IN_TRANSIT) {
+        await orderStateMachine.transition(tx, order.id, OrderStatus.IN_TRANSIT, context);
+      }
+
+      return this.reloadRoute(tx, routeId);
+    });
+  }
+
+  /**
+   * The only way an order reaches DELIVERED. `recordProof` stores the
+   * proof of delivery inside the same transaction and throws to reject it;
+   * the route is completed with its duration measured from the order going
+   * in transit.
+   */
+  async deliverOrder(
+    orderId: string,
+    context: TransitionContext,
+    recordProof: (tx: Prisma.TransactionClient, order: Order) => Promise<void>
+  ): Promise<Order> {
+    return orderStateMachine.runInTransaction(async (tx) => {
+      const before = await this.findOrder(tx, orderId);
+      orderStateMachine.assertTransition(before.status, OrderStatus.DELIVERED);
+
+      await recordProof(tx, before);
+      await orderStateMachine.transition(tx, orderId, OrderStatus.DELIVERED, context);
+      await tx.deliveryPin.deleteMany({ where: { orderId } });
+
+      const departed = await tx.orderEvent.findFirst({
+        where: { orderId, toStatus: OrderStatus.IN_TRANSIT },
+        orderBy: { createdAt: 'desc' },
+      });
+      if (before.route && before.route.status === RouteStatus.IN_PROGRESS && departed) {
+        const actualDuration = Math.max(1, Math.round((Date.now() - departed.createdAt.getTime()) / 60000));
+        await this.moveRoute(tx, before.route.id, RouteStatus.COMPLETED, actualDuration);
+      }
+
+      await this.cascadeOrderStatus(tx, before, OrderStatus.DELIVERED);
+      return this.reloadOrder(tx, orderId);
+    });
+  }
+
+  /**
+   * Cancels a route whose order no longer needs it. While the order is
+   * assigned or in transit the route is what the transporter follows, so
+   * the order has to be unassigned, cancelled or failed instead, which
+   * cascades to the route and releases the transporter.
+   */
+  async cancelRoute(routeId: string): Promise<Route> {
+    return orderStateMachine.runInTransaction(async (tx) => {
+      const route = await tx.route.findUnique({ where: { id: routeId }, include: { order: true } });
+
+      if (!route) {
+        throw createError('Route not found', 404);
+      }
+      if (ACTIVE_ORDER_STATUSES.includes(route.order.status)) {
+        throw createError(`Order is ${route.order.status.toLowerCase()}; unassign or cancel the order instead`, 409);
+      }
+
+      await this.moveRoute(tx, routeId, RouteStatus.CANCELLED);
+      return this.reloadRoute(tx, routeId);
+    });
+  }
+
+  /**
+   * Applies the route and transporter side effects of an order entering
+   * `status`. `before` is the order as it was prior to the transition.
+   */
+  private async cascadeOrderStatus(
+    tx: Prisma.TransactionClient,
+    before: Order & { route: Route | null },
+    status: OrderStatus
+  ): Promise<void> {
+    const route = await tx.route.findUnique({ where: { orderId: before.id } });
+
+    switch (status) {
+      case OrderStatus.IN_TRANSIT:
+        if (route && route.status === RouteStatus.PLANNED) {
+          await this.moveRoute(tx, route.id, RouteStatus.IN_PROGRESS);
+        }
+        break;
+
+      case OrderStatus.DELIVERED:
+        if (route && route.status !== RouteStatus.COMPLETED) {
+          await this.moveRoute(tx, route.id, RouteStatus.COMPLETED);
+        }
+        if (before.transporterId) {
+          await tx.transporter.update({
+            where: { id: before.transporterId },
+            data: { totalDeliveries: { increment: 1 } },
+          });
+          await this.releaseTransporter(tx, before.transporterId);
+        }
+        break;
+
+      case OrderStatus.CANCELLED:
+      case OrderStatus.FAILED:
+        if (route && ROUTE_TRANSITIONS[route.status].includes(RouteStatus.CANCELLED)) {
+          await this.moveRoute(tx, route.id, RouteStatus.CANCELLED);
+        }
+        if (before.transporterId) {
+          await this.releaseTransporter(tx, before.transporterId);
+        }
+        break;
+
+      case OrderStatus.PENDING:
+        // Back in the pool: drop the old plan so a fresh route can be created on reassignment
+        if (route) {
+          // A failed order's route may have been driven and carry deviation events
+          await tx.routeEvent.deleteMany({ where: { routeId: route.id } });
+          await tx.route.delete({ where: { id: route.id } });
+        }
+        if (before.transporterId) {
+          await this.releaseTransporter(tx, before.transporterId);
+        }
+        break;
+
+      default:
+        break;
+    }
+  }
+
+  private async moveRoute(
+    tx: Prisma.TransactionClient,
+    routeId: string,
+    status: RouteStatus,
+    actualDuration?: number
+  ): Promise<Route> {
+    const route = await tx.route.findUnique({ where: { id: routeId } });
+
+    if (!route) {
+      throw createError('Route not found', 404);
+    }
+
+    if (!ROUTE_TRANSITIONS[route.status].includes(status)) {
+      throw createError(`Cannot move route from ${route.status} to ${status}`, 409);
+    }
+
+    logger.info('Route status transitioned', { routeId, from: route.status, to: status });
+
+    return tx.route.update({
+      where: { id: routeId },
+      data: {
+        status,
+        ...(actualDuration && { actualDuration }),
+        updatedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Marks a busy transporter available again once it has no active orders
+   * left. Offline or maintenance statuses set by the transporter are kept.
+   */
+  private async releaseTransporter(tx: Prisma.TransactionClient, transporterId: string): Promise<void> {
+    const activeOrders = await tx.order.count({
+      where: {
+        transporterId,
+        status: { in: ACTIVE_ORDER_STATUSES },
+      },
+    });
+
+    if (activeOrders > 0) return;
+
+    await tx.transporter.updateMany({
+      where: { id: transporterId, availabilityStatus: TransporterStatus.BUSY },
+      data: { availabilityStatus: TransporterStatus.AVAILABLE },
+    });
+  }
+
+  private async findOrder(tx: Prisma.TransactionClient, orderId: string) {
+    const order = await tx.order.findUnique({
+      where: { id: orderId },
+      include: { route: true },
+    });
+
+    if (!order) {
+      throw createError('Order not found', 404);
+    }
+
+    return order;
+  }
+
+  private async reloadOrder(tx: Prisma.TransactionClient, orderId: string): Promise<Order> {
+    return tx.order.findUniqueOrThrow({
+      where: { id: orderId },
+      include: {
+        transporter: true,
+        route: true,
+      },
+    });
+  }
+
+  private async reloadRoute(tx: Prisma.TransactionClient, routeId: string): Promise<Route> {
+    return tx.route.findUniqueOrThrow({
+      where: { id: routeId },
+      include: {
+        order: true,
+        transporter: true,
+      },
+    });
+  }
+}
+
+export const lifecycleService = new LifecycleService();
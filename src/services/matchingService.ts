@@ -0,0 +1,278 @@
+import { MatchingHistory, Order, OrderStatus, Transporter, VehicleType } from '@prisma/client';
+import prisma from '@/config/database';
+import { createError } from '@/middleware/errorHandler';
+import { logger } from '@/utils/logger';
+import { haversineDistance } from '@/utils/geo';
+import { Dimensions, orderVolume } from '@/utils/load';
+import { matrixService } from '@/services/matrixService';
+import { orderService } from '@/services/orderService';
+import { TransitionContext } from '@/services/orderStateMachine';
+import { transporterService } from '@/services/transporterService';
+
+export interface MatchScoreBreakdown {
+  distance: number;
+  capacity: number;
+  rating: number;
+  vehicleSuitability: number;
+  load: number;
+}
+
+export interface MatchCandidate {
+  transporter: Transporter;
+  score: number;
+  breakdown: MatchScoreBreakdown;
+  distanceToPickupKm: number;
+  spareWeight: number;
+  spareVolume: number;
+  activeOrders: number;
+}
+
+export interface MatchingOptions {
+  radiusKm?: number;
+  limit?: number;
+}
+
+interface Location {
+  latitude: number;
+  longitude: number;
+}
+
+export type { Dimensions };
+
+type TransporterWithLoad = Transporter & { orders: Order[] };
+
+// Relative weight of each score component; they sum to 1 so the final score stays in [0, 1]
+const SCORE_WEIGHTS: MatchScoreBreakdown = {
+  distance: 0.35,
+  capacity: 0.2,
+  rating: 0.15,
+  vehicleSuitability: 0.15,
+  load: 0.15,
+};
+
+// Heaviest load (kg) each vehicle class is a natural fit for, smallest first
+const VEHICLE_CLASS_LIMITS: Array<{ vehicleType: VehicleType; maxWeight: number }> = [
+  { vehicleType: VehicleType.MOTORCYCLE, maxWeight: 20 },
+  { vehicleType: VehicleType.CAR, maxWeight: 200 },
+  { vehicleType: VehicleType.VAN, maxWeight: 1000 },
+  { vehicleType: VehicleType.TRUCK_SMALL, maxWeight: 3500 },
+  { vehicleType: VehicleType.TRUCK_MEDIUM, maxWeight: 8000 },
+  { vehicleType: VehicleType.TRUCK_LARGE, maxWeight: 20000 },
+];
+
+const DEFAULT_RADIUS_KM = 25;
+const DEFAULT_CANDIDATE_LIMIT = 10;
+const MAX_CONCURRENT_ORDERS = 3;
+const UNRATED_SCORE = 0.6;
+
+export class MatchingService {
+  async findCandidates(orderId: string, options: MatchingOptions = {}): Promise<MatchCandidate[]> {
+    try {
+      const order = await orderService.getOrderById(orderId);
+
+      if (order.status !== OrderStatus.PENDING) {
+        throw createError('Only pending orders can be matched', 400);
+      }
+
+      const radiusKm = options.radiusKm || DEFAULT_RADIUS_KM;
+      const pickup = order.pickupLocation as unknown as Location;
+      const orderVolume = this.calculateOrderVolume(order.dimensions as unknown as Dimensions);
+
+      const { transporters } = await transporterService.getAvailableTransporters({
+        minCapacityWeight: order.weight,
+        minCapacityVolume: orderVolume,
+        nearLocation: {
+          latitude: pickup.latitude,
+          longitude: pickup.longitude,
+          radiusKm,
+        },
+      });
+
+      // Road distance to the pickup; the proximity filter above is only a straight-line prefilter
+      const located = transporters.filter(transporter => transporter.currentLocation);
+      const matrix = await matrixService.getMatrix(
+        located.map(transporter => transporter.currentLocation as unknown as Location),
+        [pickup],
+        { departureTime: order.pickupTime < new Date() ? undefined : order.pickupTime }
+      );
+
+      const candidates = located
+        .map((transporter, i) => this.scoreTransporter(order, transporter, radiusKm, matrix.distances[i][0]))
+        .filter((candidate): candidate is MatchCandidate => candidate !== null)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, options.limit || DEFAULT_CANDIDATE_LIMIT);
+
+      logger.info('Matching candidates computed', { orderId, candidates: candidates.length, radiusKm });
+      return candidates;
+    } catch (error) {
+      if (error instanceof Error && (error as any).statusCode) {
+        throw error;
+      }
+      logger.error('Failed to find matching candidates', { error, orderId });
+      throw createError('Failed to find matching candidates', 500);
+    }
+  }
+
+  async autoAssign(orderId: string, options: MatchingOptions = {}, context: TransitionContext = {}) {
+    try {
+      const candidates = await this.findCandidates(orderId, { ...options, limit: 1 });
+
+      if (candidates.length === 0) {
+        throw createError('No suitable transporter available for this order', 404);
+      }
+
+      const [best] = candidates;
+      const order = await orderService.assignTransporter(orderId, best.transporter.id, context);
+      const history = await this.recordAssignment(order, best.transporter.id, best.score, best.breakdown);
+
+      logger.info('Order auto-assigned', { orderId, transporterId: best.transporter.id, score: best.score });
+      return { order, match: best, history };
+    } catch (error) {
+      if (error instanceof Error && (error as any).statusCode) {
+        throw error;
+      }
+      logger.error('Failed to auto-assign order', { error, orderId });
+      throw createError('Failed to auto-assign order', 500);
+    }
+  }
+
+  async recordAssignment(
+    order: Order,
+    transporterId: string,
+    matchScore: number,
+    breakdown?: MatchScoreBreakdown
+  ): Promise<MatchingHistory> {
+    try {
+      return await prisma.matchingHistory.create({
+        data: {
+          orderId: order.id,
+          transporterId,
+          matchScore,
+          cost: order.estimatedCost,
+          notes: breakdown ? JSON.stringify(breakdown) : undefined,
+        },
+      });
+    } catch (error) {
+      logger.error('Failed to record matching history', { error, orderId: order.id, transporterId });
+      throw createError('Failed to record matching history', 500);
+    }
+  }
+
+  async getHistory(filters: { orderId?: string; transporterId?: string; limit?: number; offset?: number } = {}) {
+    try {
+      const where = {
+        ...(filters.orderId && { orderId: filters.orderId }),
+        ...(filters.transporterId && { transporterId: filters.transporterId }),
+      };
+
+      const history = await prisma.matchingHistory.findMany({
+        where,
+        include: {
+          transporter: true,
+        },
+        orderBy: { assignmentTime: 'desc' },
+        take: filters.limit || 50,
+        skip: filters.offset || 0,
+      });
+
+      const total = await prisma.matchingHistory.count({ where });
+
+      return {
+        history,
+        pagination: {
+          total,
+          limit: filters.limit || 50,
+          offset: filters.offset || 0,
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to fetch matching history', { error, filters });
+      throw createError('Failed to fetch matching history', 500);
+    }
+  }
+
+  /**
+   * Scores a transporter for an order, or returns null when the transporter
+   * cannot take the order given its current load. Pass the road distance to
+   * the pickup when known; otherwise the straight-line distance is used.
+   */
+  scoreTransporter(
+    order: Order,
+    transporter: TransporterWithLoad,
+    radiusKm: number,
+    roadDistanceKm?: number
+  ): MatchCandidate | null {
+    if (!transporter.currentLocation) return null;
+
+    const orderVolume = this.calculateOrderVolume(order.dimensions as unknown as Dimensions);
+
+    const activeOrders = transporter.orders || [];
+    const loadedWeight = activeOrders.reduce((sum, active) => sum + active.weight, 0);
+    const loadedVolume = activeOrders.reduce(
+      (sum, active) => sum + this.calculateOrderVolume(active.dimensions as unknown as Dimensions),
+      0
+    );
+
+    const spareWeight = transporter.capacityWeight - loadedWeight;
+    const spareVolume = transporter.capacityVolume - loadedVolume;
+
+    if (spareWeight < order.weight || spareVolume < orderVolume) return null;
+
+    const distanceToPickupKm = roadDistanceKm ?? haversineDistance(
+      transporter.currentLocation as unknown as Location,
+      order.pickupLocation as unknown as Location
+    );
+    if (distanceToPickupKm > radiusKm) return null;
+
+    const breakdown: MatchScoreBreakdown = {
+      distance: 1 - distanceToPickupKm / radiusKm,
+      capacity: (
+        (spareWeight - order.weight) / transporter.capacityWeight +
+        (spareVolume - orderVolume) / transporter.capacityVolume
+      ) / 2,
+      rating: transporter.ratingCount > 0 ? transporter.rating / 5 : UNRATED_SCORE,
+      vehicleSuitability: this.vehicleSuitability(transporter.vehicleType, order.weight),
+      load: Math.max(0, 1 - activeOrders.length / MAX_CONCURRENT_ORDERS),
+    };
+
+    const score = (Object.keys(SCORE_WEIGHTS) as Array<keyof MatchScoreBreakdown>)
+      .reduce((sum, key) => sum + SCORE_WEIGHTS[key] * breakdown[key], 0);
+
+    return {
+      transporter,
+      score: Math.round(score * 1000) / 1000,
+      breakdown,
+      distanceToPickupKm,
+      spareWeight,
+      spareVolume,
+      activeOrders: activeOrders.length,
+    };
+  }
+
+  calculateOrderVolume(dimensions: Dimensions): number {
+    return orderVolume(dimensions);
+  }
+
+  // Smallest vehicle class that is a natural fit for the load
+  vehicleClassFor(weight: number): VehicleType {
+    const limit = VEHICLE_CLASS_LIMITS.find(candidate => weight <= candidate.maxWeight);
+    return (limit ?? VEHICLE_CLASS_LIMITS[VEHICLE_CLASS_LIMITS.length - 1]).vehicleType;
+  }
+
+  private vehicleSuitability(vehicleType: VehicleType, weight: number): number {
+    const idealIndex = VEHICLE_CLASS_LIMITS.findIndex(limit => weight <= limit.maxWeight);
+    const vehicleIndex = VEHICLE_CLASS_LIMITS.findIndex(limit => limit.vehicleType === vehicleType);
+
+    if (idealIndex === -1) {
+      // Heavier than any class limit: only the largest vehicles make sense
+      return vehicleIndex === VEHICLE_CLASS_LIMITS.length - 1 ? 1 : 0;
+    }
+
+    if (vehicleIndex < idealIndex) return 0;
+
+    // Oversized vehicles lose a quarter of the score per class above the ideal one
+    return Math.max(0, 1 - (vehicleIndex - idealIndex) * 0.25);
+  }
+}
+
+export const matchingService = new MatchingService();
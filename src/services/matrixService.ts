@@ -0,0 +1,212 @@
+import redisClient from '@/config/redis';
+import { createError } from '@/middleware/errorHandler';
+import { logger } from '@/utils/logger';
+import { GeoPoint } from '@/utils/geo';
+import {
+  routingProviders,
+  MatrixOptions,
+  ProviderMatrix,
+  RoutingProvider,
+  RoutingProviderName,
+} from '@/services/routingProviders';
+
+export interface MatrixRequest extends MatrixOptions {
+  provider?: RoutingProviderName;
+}
+
+export interface TravelMatrix extends ProviderMatrix {
+  provider: RoutingProviderName;
+  cacheHits: number;
+}
+
+interface TimeBucket {
+  key: string;
+  ttlSeconds: number;
+}
+
+// 5 decimals is roughly a metre, so nearby repeats of the same stop share cache entries
+const COORDINATE_PRECISION = 5;
+// Departures this close are served live traffic and cached per quarter hour
+const LIVE_WINDOW_MINUTES = 60;
+const LIVE_BUCKET_MINUTES = 15;
+
+const pointKey = (point: GeoPoint) =>
+  `${point.latitude.toFixed(COORDINATE_PRECISION)},${point.longitude.toFixed(COORDINATE_PRECISION)}`;
+
+// Infinity does not survive JSON, so unreachable pairs are cached as null
+const encodeCell = (distance: number, duration: number) =>
+  JSON.stringify([Number.isFinite(distance) ? distance : null, Number.isFinite(duration) ? duration : null]);
+
+const decodeCell = (value: string): [number, number] => {
+  const [distance, duration] = JSON.parse(value) as [number | null, number | null];
+  return [distance ?? Infinity, duration ?? Infinity];
+};
+
+const chunk = (indices: number[], size: number): number[][] => {
+  const chunks: number[][] = [];
+  for (let i = 0; i < indices.length; i += size) {
+    chunks.push(indices.slice(i, i + size));
+  }
+  return chunks;
+};
+
+export class MatrixService {
+  /**
+   * Distance (km) and duration (minutes) from every origin to every
+   * destination. Uses the same provider chain as route calculation, skipping
+   * providers without a matrix API and ending with straight-line estimates.
+   * Provider results are cached per origin/destination pair in Redis; the
+   * cache is bypassed while Redis is unavailable.
+   */
+  async getMatrix(origins: GeoPoint[], destinations: GeoPoint[], request: MatrixRequest = {}): Promise<TravelMatrix> {
+    const chain = routingProviders
+      .resolveChain({ provider: request.provider, vehicleType: request.vehicleType || '' })
+      .filter(provider => provider.getMatrix && provider.matrixLimits);
+
+    if (request.provider && chain[0]?.name !== request.provider) {
+      throw createError(`Routing provider ${request.provider} does not support matrices or is not configured`, 400);
+    }
+
+    if (origins.length === 0 || destinations.length === 0) {
+      return {
+        distances: origins.map(() => []),
+        durations: origins.map(() => []),
+        provider: chain[chain.length - 1].name,
+        cacheHits: 0,
+      };
+    }
+
+    let lastError: unknown;
+    for (const provider of chain) {
+      try {
+        return await this.fromProvider(provider, origins, destinations, request);
+      } catch (error) {
+        lastError = error;
+        logger.warn('Matrix provider failed, trying next', {
+          provider: provider.name,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    }
+
+    logger.error('Failed to build travel matrix', { error: lastError });
+    throw createError('Failed to build travel matrix', 500);
+  }
+
+  private async fromProvider(
+    provider: RoutingProvider,
+    origins: GeoPoint[],
+    destinations: GeoPoint[],
+    request: MatrixRequest
+  ): Promise<TravelMatrix> {
+    const options: MatrixOptions = { vehicleType: request.vehicleType, departureTime: request.departureTime };
+
+    // Straight-line estimates are cheaper to recompute than to fetch
+    if (provider.name === 'straight_line') {
+      const matrix = await provider.getMatrix!(origins, destinations, options);
+      return { ...matrix, provider: provider.name, cacheHits: 0 };
+    }
+
+    const distances = origins.map(() => new Array<number>(destinations.length).fill(NaN));
+    const durations = origins.map(() => new Array<number>(destinations.length).fill(NaN));
+    const bucket = this.timeBucket(request.departureTime);
+    const prefix = `matrix:${provider.name}:${request.vehicleType || 'any'}:${bucket.key}`;
+    const keyFor = (i: number, j: number) => `${prefix}:${pointKey(origins[i])}:${pointKey(destinations[j])}`;
+
+    let cacheHits = 0;
+    if (redisClient.isReady) {
+      try {
+        const keys = origins.flatMap((_, i) => destinations.map((__, j) => keyFor(i, j)));
+        const values = await redisClient.mGet(keys);
+
+        values.forEach((value, index) => {
+          if (value === null) return;
+          const i = Math.floor(index / destinations.length);
+          const j = index % destinations.length;
+          [distances[i][j], durations[i][j]] = decodeCell(value);
+          cacheHits++;
+        });
+      } catch (error) {
+        logger.warn('Matrix cache read failed', { error });
+      }
+    }
+
+    // Re-fetch the smallest block covering every miss
+    const missingOrigins = origins.map((_, i) => i).filter(i => distances[i].some(Number.isNaN));
+    const missingDestinations = destinations
+      .map((_, j) => j)
+      .filter(j => missingOrigins.some(i => Number.isNaN(distances[i][j])));
+
+    if (missingOrigins.length === 0) {
+      return { distances, durations, provider: provider.name, cacheHits };
+    }
+
+    const fetched: Array<[number, number]> = [];
+    const limits = provider.matrixLimits!;
+
+    for (const originBlock of chunk(missingOrigins, limits.maxOrigins)) {
+      for (const destinationBlock of chunk(missingDestinations, limits.maxDestinations)) {
+        const block = await provider.getMatrix!(
+          originBlock.map(i => origins[i]),
+          destinationBlock.map(j => destinations[j]),
+          options
+        );
+
+        originBlock.forEach((i, row) => {
+          destinationBlock.forEach((j, column) => {
+            distances[i][j] = block.distances[row][column];
+            durations[i][j] = block.durations[row][column];
+            fetched.push([i, j]);
+          });
+        });
+      }
+    }
+
+    if (redisClient.isReady) {
+      try {
+        const multi = redisClient.multi();
+        fetched.forEach(([i, j]) => {
+          multi.setEx(keyFor(i, j), bucket.ttlSeconds, encodeCell(distances[i][j], durations[i][j]));
+        });
+        await multi.exec();
+      } catch (error) {
+        logger.warn('Matrix cache write failed', { error });
+      }
+    }
+
+    logger.debug('Travel matrix built', {
+      provider: provider.name,
+      size: `${origins.length}x${destinations.length}`,
+      cacheHits,
+      fetched: fetched.length,
+    });
+
+    return { distances, durations, provider: provider.name, cacheHits };
+  }
+
+  /**
+   * Imminent departures reflect live traffic, so they are keyed by quarter
+   * hour and expire with it. Later departures use the typical traffic for
+   * that hour of the week, which is stable enough to keep for
+   * MATRIX_CACHE_TTL_SECONDS (a day by default).
+   */
+  private timeBucket(departureTime?: Date): TimeBucket {
+    const departure = departureTime || new Date();
+    const minutesAhead = (departure.getTime() - Date.now()) / 60000;
+
+    if (minutesAhead <= LIVE_WINDOW_MINUTES) {
+      const bucketMs = LIVE_BUCKET_MINUTES * 60000;
+      return {
+        key: `live${Math.floor(departure.getTime() / bucketMs)}`,
+        ttlSeconds: LIVE_BUCKET_MINUTES * 60,
+      };
+    }
+
+    return {
+      key: `d${departure.getUTCDay()}h${departure.getUTCHours()}`,
+      ttlSeconds: parseInt(process.env.MATRIX_CACHE_TTL_SECONDS || '86400', 10),
+    };
+  }
+}
+
+export const matrixService = new MatrixService();
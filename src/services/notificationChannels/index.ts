@@ -0,0 +1,43 @@
+import { NotificationChannel } from '@prisma/client';
+import { SinkProvider } from './sinkProvider';
+import { SmtpEmailProvider } from './smtpEmailProvider';
+import { TwilioSmsProvider } from './twilioSmsProvider';
+import { NotificationProvider, NotificationProviderName, NOTIFICATION_PROVIDER_NAMES } from './types';
+
+export * from './types';
+export { isValidTwilioSignature, mapTwilioStatus } from './twilioSmsProvider';
+
+const DEFAULT_PROVIDERS: Record<NotificationChannel, NotificationProviderName> = {
+  SMS: 'twilio',
+  EMAIL: 'smtp',
+};
+
+const isProviderName = (name: string): name is NotificationProviderName =>
+  (NOTIFICATION_PROVIDER_NAMES as string[]).includes(name);
+
+export class NotificationProviderRegistry {
+  private readonly providers = new Map<NotificationProviderName, NotificationProvider>();
+
+  register(provider: NotificationProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  /**
+   * The provider for a channel, from NOTIFICATION_SMS_PROVIDER or
+   * NOTIFICATION_EMAIL_PROVIDER. Null when it is not configured, so
+   * messages are never silently diverted to the sink in production.
+   */
+  resolve(channel: NotificationChannel): NotificationProvider | null {
+    const configured = (process.env[`NOTIFICATION_${channel}_PROVIDER`] || '').trim();
+    const name = isProviderName(configured) ? configured : DEFAULT_PROVIDERS[channel];
+    const provider = this.providers.get(name);
+
+    return provider && provider.channels.includes(channel) && provider.isConfigured() ? provider : null;
+  }
+}
+
+export const notificationProviders = new NotificationProviderRegistry();
+
+notificationProviders.register(new TwilioSmsProvider());
+notificationProviders.register(new SmtpEmailProvider());
+notificationProviders.register(new SinkProvider());
@@ -0,0 +1,33 @@
+import { appendFile } from 'fs/promises';
+import { NotificationChannel } from '@prisma/client';
+import { logger } from '@/utils/logger';
+import { NotificationProvider, OutgoingMessage, SendResult } from './types';
+
+/**
+ * Local stand-in for both channels, for development and tests. Messages
+ * are appended as JSON lines to NOTIFICATION_SINK_FILE, or logged when it
+ * is not set, and count as delivered straight away. Only the redacted body
+ * is kept, so secrets such as delivery PINs never reach the file or logs.
+ */
+export class SinkProvider implements NotificationProvider {
+  readonly name = 'sink' as const;
+  readonly channels = [NotificationChannel.SMS, NotificationChannel.EMAIL];
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async send(message: OutgoingMessage): Promise<SendResult> {
+    const file = process.env.NOTIFICATION_SINK_FILE;
+    const { redactedBody, ...rest } = message;
+    const record = { ...rest, body: redactedBody };
+
+    if (file) {
+      await appendFile(file, `${JSON.stringify({ ...record, sentAt: new Date().toISOString() })}\n`);
+    } else {
+      logger.info('Notification (sink)', record);
+    }
+
+    return { providerMessageId: `sink-${message.notificationId}`, delivered: true };
+  }
+}
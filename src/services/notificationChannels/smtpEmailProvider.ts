@@ -0,0 +1,45 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { NotificationChannel } from '@prisma/client';
+import { NotificationProvider, OutgoingMessage, SendResult } from './types';
+
+/**
+ * Email over SMTP. The message counts as sent once the server accepts it;
+ * SMTP reports nothing further, so email notifications stay SENT.
+ */
+export class SmtpEmailProvider implements NotificationProvider {
+  readonly name = 'smtp' as const;
+  readonly channels = [NotificationChannel.EMAIL];
+
+  private transport?: Transporter;
+
+  isConfigured(): boolean {
+    return Boolean(process.env.SMTP_HOST);
+  }
+
+  async send(message: OutgoingMessage): Promise<SendResult> {
+    const info = await this.getTransport().sendMail({
+      from: process.env.SMTP_FROM || process.env.SMTP_USER,
+      to: message.to,
+      subject: message.subject ?? undefined,
+      text: message.body,
+    });
+
+    return { providerMessageId: info.messageId, delivered: false };
+  }
+
+  // Created on first use: services are constructed before dotenv runs in index.ts
+  private getTransport(): Transporter {
+    if (!this.transport) {
+      const port = parseInt(process.env.SMTP_PORT || '587');
+      this.transport = nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port,
+        secure: port === 465,
+        auth: process.env.SMTP_USER
+          ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+          : undefined,
+      });
+    }
+    return this.transport;
+  }
+}
@@ -0,0 +1,85 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import { NotificationChannel, NotificationStatus } from '@prisma/client';
+import { NotificationProvider, OutgoingMessage, SendResult } from './types';
+
+const TWILIO_API_URL = 'https://api.twilio.com/2010-04-01';
+const REQUEST_TIMEOUT_MS = 10000;
+
+// Twilio message statuses that settle a notification; the rest are intermediate
+const TWILIO_FINAL_STATUSES: Record<string, NotificationStatus> = {
+  delivered: NotificationStatus.DELIVERED,
+  undelivered: NotificationStatus.FAILED,
+  failed: NotificationStatus.FAILED,
+};
+
+export const mapTwilioStatus = (status: string): NotificationStatus | null => TWILIO_FINAL_STATUSES[status] ?? null;
+
+/**
+ * Checks the X-Twilio-Signature header of a status callback: an HMAC-SHA1,
+ * keyed with the auth token, of the full callback URL followed by every
+ * POST parameter name and value in name order.
+ */
+export const isValidTwilioSignature = (
+  authToken: string,
+  url: string,
+  params: Record<string, string>,
+  signature: string
+): boolean => {
+  const payload = Object.keys(params).sort().reduce((data, key) => data + key + params[key], url);
+  const expected = Buffer.from(crypto.createHmac('sha1', authToken).update(payload).digest('base64'));
+  const actual = Buffer.from(signature);
+
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+};
+
+/**
+ * SMS through the Twilio Messages API. When NOTIFICATION_STATUS_CALLBACK_URL
+ * is set, Twilio reports delivery to it and the notification is settled
+ * there; otherwise it stays SENT.
+ */
+export class TwilioSmsProvider implements NotificationProvider {
+  readonly name = 'twilio' as const;
+  readonly channels = [NotificationChannel.SMS];
+
+  private get accountSid() {
+    return process.env.TWILIO_ACCOUNT_SID;
+  }
+
+  private get authToken() {
+    return process.env.TWILIO_AUTH_TOKEN;
+  }
+
+  private get from() {
+    return process.env.TWILIO_FROM_NUMBER;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.accountSid && this.authToken && this.from);
+  }
+
+  async send(message: OutgoingMessage): Promise<SendResult> {
+    const params = new URLSearchParams({
+      To: message.to,
+      From: this.from as string,
+      Body: message.body,
+    });
+
+    const callbackUrl = process.env.NOTIFICATION_STATUS_CALLBACK_URL;
+    if (callbackUrl) {
+      params.set('StatusCallback', callbackUrl);
+    }
+
+    const response = await axios.post(
+      `${TWILIO_API_URL}/Accounts/${this.accountSid}/Messages.json`,
+      params.toString(),
+      {
+        auth: { username: this.accountSid as string, password: this.authToken as string },
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        timeout: REQUEST_TIMEOUT_MS,
+      }
+    );
+
+    return { providerMessageId: response.data.sid, delivered: false };
+  }
+}
@@ -0,0 +1,32 @@
+import { NotificationChannel } from '@prisma/client';
+
+export type NotificationProviderName = 'twilio' | 'smtp' | 'sink';
+
+export const NOTIFICATION_PROVIDER_NAMES: NotificationProviderName[] = ['twilio', 'smtp', 'sink'];
+
+export interface OutgoingMessage {
+  // Notification record the message belongs to, for providers that report status later
+  notificationId: string;
+  channel: NotificationChannel;
+  to: string;
+  subject: string | null;
+  body: string;
+  // The body with secrets such as delivery PINs masked, for providers that keep a copy
+  redactedBody: string;
+}
+
+export interface SendResult {
+  providerMessageId?: string;
+  // True when the provider confirms delivery synchronously; otherwise the message is only sent
+  delivered: boolean;
+}
+
+export interface NotificationProvider {
+  readonly name: NotificationProviderName;
+  readonly channels: NotificationChannel[];
+
+  // False when the credentials the provider needs are missing
+  isConfigured(): boolean;
+
+  send(message: OutgoingMessage): Promise<SendResult>;
+}
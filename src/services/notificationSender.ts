@@ -0,0 +1,115 @@
+import { NotificationStatus } from '@prisma/client';
+import prisma from '@/config/database';
+import redisClient from '@/config/redis';
+import { logger } from '@/utils/logger';
+import { notificationProviders } from '@/services/notificationChannels';
+
+const MAX_ERROR_LENGTH = 500;
+const HANDED_OVER: NotificationStatus[] = [NotificationStatus.SENT, NotificationStatus.DELIVERED];
+
+// Long enough for every retry of a send, short enough that a secret does not linger
+const sealedBodyTtlSeconds = () => parseInt(process.env.NOTIFICATION_SEALED_BODY_TTL_SECONDS || '3600', 10);
+const sealedBodyKey = (notificationId: string) => `notification:body:${notificationId}`;
+
+/**
+ * Hands one attempt of a recorded notification to its channel's provider
+ * and stores the outcome. Kept apart from notificationService, which
+ * records and enqueues messages, so the job queue can call it without a
+ * circular import.
+ */
+export class NotificationSender {
+  /**
+   * Keeps the body of a message whose stored body has secrets masked in a
+   * short-lived Redis key until it is sent, so the secret never enters the
+   * job queue, its failed jobs or the dead-letter queue.
+   */
+  async seal(notificationId: string, body: string): Promise<void> {
+    if (!redisClient.isReady) {
+      throw new Error('Redis is not connected');
+    }
+    await redisClient.setEx(sealedBodyKey(notificationId), sealedBodyTtlSeconds(), body);
+  }
+
+  /**
+   * Sends the stored body, or the sealed one when the stored body has
+   * secrets masked. Throws when the provider fails so the job queue
+   * retries with backoff; the notification is marked FAILED on the last
+   * attempt, and a sealed body is dropped then or once it is sent.
+   */
+  async deliver(notificationId: string, sealed: boolean, lastAttempt: boolean): Promise<void> {
+    const notification = await prisma.notification.findUnique({ where: { id: notificationId } });
+
+    // Already handed to a provider; a FAILED one may be retried from the dead-letter queue
+    if (!notification || HANDED_OVER.includes(notification.status)) return;
+
+    // A sealed body is gone after its TTL or its last attempt, so a retried secret has to be issued anew
+    const body = sealed ? await redisClient.get(sealedBodyKey(notificationId)) : notification.body;
+    if (body === null) {
+      await prisma.notification.update({
+        where: { id: notificationId },
+        data: { status: NotificationStatus.FAILED, error: 'Message expired before it could be sent' },
+      });
+      return;
+    }
+
+    // Unconfigured after the message was queued
+    const provider = notificationProviders.resolve(notification.channel);
+    if (!provider) {
+      await prisma.notification.update({
+        where: { id: notificationId },
+        data: { status: NotificationStatus.FAILED, error: `No ${notification.channel.toLowerCase()} provider configured` },
+      });
+      return;
+    }
+
+    try {
+      const result = await provider.send({
+        notificationId,
+        channel: notification.channel,
+        to: notification.recipient,
+        subject: notification.subject,
+        body,
+        redactedBody: notification.body,
+      });
+      const now = new Date();
+
+      await prisma.notification.update({
+        where: { id: notificationId },
+        data: {
+          status: result.delivered ? NotificationStatus.DELIVERED : NotificationStatus.SENT,
+          provider: provider.name,
+          providerMessageId: result.providerMessageId,
+          error: null,
+          sentAt: now,
+          deliveredAt: result.delivered ? now : undefined,
+        },
+      });
+      if (sealed) await this.unseal(notificationId);
+    } catch (error) {
+      const message = (error instanceof Error ? error.message : String(error)).slice(0, MAX_ERROR_LENGTH);
+
+      await prisma.notification.update({
+        where: { id: notificationId },
+        data: {
+          status: lastAttempt ? NotificationStatus.FAILED : NotificationStatus.PENDING,
+          error: message,
+        },
+      });
+
+      if (sealed && lastAttempt) await this.unseal(notificationId);
+
+      logger.warn('Notification delivery attempt failed', { notificationId, provider: provider.name, error: message, lastAttempt });
+      throw new Error(message);
+    }
+  }
+
+  private async unseal(notificationId: string): Promise<void> {
+    try {
+      await redisClient.del(sealedBodyKey(notificationId));
+    } catch (error) {
+      logger.warn('Failed to drop sealed notification body', { error, notificationId });
+    }
+  }
+}
+
+export const notificationSender = new NotificationSender();
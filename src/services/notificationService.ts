@@ -0,0 +1,368 @@
+import {
+  Notification,
+  NotificationChannel,
+  NotificationPreference,
+  NotificationStatus,
+  NotificationTemplate,
+  OrderStatus,
+  Prisma,
+} from '@prisma/client';
+import prisma from '@/config/database';
+import redisClient from '@/config/redis';
+import { createError } from '@/middleware/errorHandler';
+import { logger } from '@/utils/logger';
+import { renderTemplate, RenderedMessage, TemplateVariables } from '@/utils/notificationTemplates';
+import { eventBus, OrderStatusEvent, RouteEtaEvent } from '@/services/eventBus';
+import { notificationProviders } from '@/services/notificationChannels';
+import { jobService } from '@/services/jobService';
+import { notificationSender } from '@/services/notificationSender';
+
+export interface NotificationPreferenceData {
+  smsEnabled?: boolean;
+  emailEnabled?: boolean;
+  phoneNumber?: string | null;
+  mutedTemplates?: NotificationTemplate[];
+}
+
+export interface NotificationFilters {
+  orderId?: string;
+  userId?: string;
+  transporterId?: string;
+  status?: NotificationStatus;
+  limit?: number;
+  offset?: number;
+}
+
+interface Recipient {
+  userId?: string;
+  transporterId?: string;
+  name?: string;
+  phoneNumber?: string | null;
+  email?: string | null;
+  preference: NotificationPreference | null;
+}
+
+type OrderWithTransporter = Prisma.OrderGetPayload<{ include: { transporter: true } }>;
+
+// Last arrival time the customer was told about, per order
+const ETA_NOTIFIED_KEY = (orderId: string) => `notifications:eta:${orderId}`;
+const ETA_NOTIFIED_TTL_SECONDS = 24 * 60 * 60;
+
+const etaChangeMinutes = () => parseFloat(process.env.NOTIFICATION_ETA_CHANGE_MINUTES || '10');
+const notificationTimezone = () => process.env.NOTIFICATION_TIMEZONE || 'UTC';
+
+const formatTime = (date: Date) => new Intl.DateTimeFormat('en-US', {
+  timeZone: notificationTimezone(),
+  dateStyle: 'medium',
+  timeStyle: 'short',
+}).format(date);
+
+const shortTime = (date: Date) => new Intl.DateTimeFormat('en-US', {
+  timeZone: notificationTimezone(),
+  timeStyle: 'short',
+}).format(date);
+
+const orderVariables = (order: OrderWithTransporter): TemplateVariables => ({
+  orderRef: `#${order.id.slice(-8).toUpperCase()}`,
+  pickupAddress: (order.pickupLocation as { address?: string }).address,
+  deliveryAddress: (order.deliveryLocation as { address?: string }).address,
+  pickupTime: formatTime(order.pickupTime),
+  transporterName: order.transporter?.name,
+  vehicleType: order.transporter?.vehicleType.replace(/_/g, ' ').toLowerCase(),
+});
+
+/**
+ * Sends customers and drivers SMS and email about their orders. Messages
+ * follow order status changes and significant ETA shifts, respect each
+ * user's preferences, and are recorded with their delivery status.
+ */
+export class NotificationService {
+  start(): () => void {
+    const unsubscribers = [
+      eventBus.on('order.status', event => this.handleOrderStatus(event)),
+      eventBus.on('route.eta', event => this.handleEta(event)),
+    ];
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
+  async handleOrderStatus(event: OrderStatusEvent): Promise<void> {
+    const order = await prisma.order.findUnique({
+      where: { id: event.orderId },
+      include: { transporter: true },
+    });
+
+    if (!order) return;
+
+    switch (event.toStatus) {
+      case OrderStatus.PENDING:
+        // Only on creation; a return to PENDING after unassignment is not news to the customer
+        if (event.fromStatus === null) {
+          await this.notifyCustomer(order, NotificationTemplate.ORDER_CREATED);
+        }
+        break;
+      case OrderStatus.ASSIGNED:
+        await this.notifyCustomer(order, NotificationTemplate.TRANSPORTER_ASSIGNED);
+        await this.notifyTransporter(order, NotificationTemplate.DRIVER_ASSIGNMENT);
+        break;
+      case OrderStatus.IN_TRANSIT:
+        await this.notifyCustomer(order, NotificationTemplate.OUT_FOR_DELIVERY);
+        break;
+      case OrderStatus.DELIVERED:
+        await this.notifyCustomer(order, NotificationTemplate.DELIVERED);
+        break;
+      case OrderStatus.CANCELLED:
+        await this.notifyTransporter(order, NotificationTemplate.DRIVER_CANCELLATION);
+        break;
+    }
+  }
+
+  /**
+   * Tells the customer about a new arrival time once it moves by at least
+   * NOTIFICATION_ETA_CHANGE_MINUTES from the last one they were told. The
+   * first estimate of a route only sets the baseline.
+   */
+  async handleEta(event: RouteEtaEvent): Promise<void> {
+    if (!redisClient.isReady) return;
+
+    const key = ETA_NOTIFIED_KEY(event.orderId);
+    const arrivalAt = new Date(event.arrivalAt);
+
+    try {
+      const notified = await redisClient.get(key);
+      const shiftMinutes = notified ? Math.abs(arrivalAt.getTime() - parseInt(notified, 10)) / 60000 : 0;
+
+      if (notified && shiftMinutes < etaChangeMinutes()) return;
+      await redisClient.set(key, String(arrivalAt.getTime()), { EX: ETA_NOTIFIED_TTL_SECONDS });
+      if (!notified) return;
+    } catch (error) {
+      logger.warn('Failed to track notified ETA', { error, orderId: event.orderId });
+      return;
+    }
+
+    const order = await prisma.order.findUnique({
+      where: { id: event.orderId },
+      include: { transporter: true },
+    });
+
+    if (!order || order.status !== OrderStatus.IN_TRANSIT) return;
+
+    await this.notifyCustomer(order, NotificationTemplate.ETA_CHANGED, {
+      eta: formatTime(arrivalAt),
+      etaWindow: `${shortTime(new Date(event.earliestArrivalAt))} and ${shortTime(new Date(event.latestArrivalAt))}`,
+    });
+  }
+
+  // The PIN is only known when it is issued, so it is sent on request rather than from an event
+  async sendDeliveryPin(orderId: string, pin: string): Promise<void> {
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      include: { transporter: true },
+    });
+
+    if (!order) return;
+
+    await this.notifyCustomer(order, NotificationTemplate.DELIVERY_PIN, { deliveryPin: pin });
+  }
+
+  async getPreferences(userId: string): Promise<NotificationPreferenceData> {
+    const preference = await prisma.notificationPreference.findUnique({ where: { userId } });
+
+    // Users who never saved preferences get every message on every channel
+    return {
+      smsEnabled: preference?.smsEnabled ?? true,
+      emailEnabled: preference?.emailEnabled ?? true,
+      phoneNumber: preference?.phoneNumber ?? null,
+      mutedTemplates: preference?.mutedTemplates ?? [],
+    };
+  }
+
+  async updatePreferences(userId: string, data: NotificationPreferenceData): Promise<NotificationPreference> {
+    try {
+      return await prisma.notificationPreference.upsert({
+        where: { userId },
+        create: { userId, ...data },
+        update: data,
+      });
+    } catch (error) {
+      logger.error('Failed to save notification preferences', { error, userId });
+      throw createError('Failed to save notification preferences', 500);
+    }
+  }
+
+  async getNotifications(filters: NotificationFilters = {}) {
+    try {
+      const where: Prisma.NotificationWhereInput = {
+        orderId: filters.orderId,
+        userId: filters.userId,
+        transporterId: filters.transporterId,
+        status: filters.status,
+      };
+
+      const [notifications, total] = await Promise.all([
+        prisma.notification.findMany({
+          where,
+          orderBy: { createdAt: 'desc' },
+          take: filters.limit || 50,
+          skip: filters.offset || 0,
+        }),
+        prisma.notification.count({ where }),
+      ]);
+
+      return {
+        notifications,
+        pagination: {
+          total,
+          limit: filters.limit || 50,
+          offset: filters.offset || 0,
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to fetch notifications', { error, filters });
+      throw createError('Failed to fetch notifications', 500);
+    }
+  }
+
+  /**
+   * Settles a notification from a provider's delivery report. Reports for
+   * unknown messages are ignored, as are reports that would move a
+   * notification backwards.
+   */
+  async recordDeliveryStatus(providerMessageId: string, status: NotificationStatus, error?: string): Promise<void> {
+    const updated = await prisma.notification.updateMany({
+      where: { providerMessageId, status: { in: [NotificationStatus.PENDING, NotificationStatus.SENT] } },
+      data: {
+        status,
+        error,
+        deliveredAt: status === NotificationStatus.DELIVERED ? new Date() : undefined,
+      },
+    });
+
+    if (updated.count > 0) {
+      logger.info('Notification delivery status updated', { providerMessageId, status });
+    }
+  }
+
+  private async notifyCustomer(
+    order: OrderWithTransporter,
+    template: NotificationTemplate,
+    extra: Partial<TemplateVariables> = {}
+  ): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { id: order.customerId },
+      include: { notificationPreference: true },
+    });
+
+    // Orders may be placed for customers without an account to notify
+    if (!user || !user.isActive) return;
+
+    await this.dispatch(order, template, {
+      userId: user.id,
+      name: user.name ?? undefined,
+      email: user.email,
+      phoneNumber: user.notificationPreference?.phoneNumber,
+      preference: user.notificationPreference,
+    }, extra);
+  }
+
+  private async notifyTransporter(order: OrderWithTransporter, template: NotificationTemplate): Promise<void> {
+    if (!order.transporter) return;
+
+    // Drivers set preferences through their user account, if they have one
+    const user = await prisma.user.findUnique({
+      where: { transporterId: order.transporter.id },
+      include: { notificationPreference: true },
+    });
+
+    await this.dispatch(order, template, {
+      userId: user?.id,
+      transporterId: order.transporter.id,
+      name: order.transporter.name,
+      email: order.transporter.email,
+      phoneNumber: user?.notificationPreference?.phoneNumber || order.transporter.phoneNumber,
+      preference: user?.notificationPreference ?? null,
+    });
+  }
+
+  private async dispatch(
+    order: OrderWithTransporter,
+    template: NotificationTemplate,
+    recipient: Recipient,
+    extra: Partial<TemplateVariables> = {}
+  ): Promise<void> {
+    const preference = recipient.preference;
+    if (preference?.mutedTemplates.includes(template)) return;
+
+    const variables = { ...orderVariables(order), ...extra, recipientName: recipient.name };
+    const targets: Array<[NotificationChannel, string | null | undefined, boolean]> = [
+      [NotificationChannel.SMS, recipient.phoneNumber, preference?.smsEnabled ?? true],
+      [NotificationChannel.EMAIL, recipient.email, preference?.emailEnabled ?? true],
+    ];
+
+    for (const [channel, address, enabled] of targets) {
+      if (!enabled || !address) continue;
+      await this.send(template, channel, address, renderTemplate(template, channel, variables), {
+        userId: recipient.userId,
+        transporterId: recipient.transporterId,
+        orderId: order.id,
+      });
+    }
+  }
+
+  /**
+   * Records the message with secrets masked and queues it for the channel's
+   * provider, so failed sends are retried with backoff and dead-lettered.
+   * The unmasked body is sealed apart from the job rather than queued.
+   * Without a configured provider the message is recorded as failed.
+   */
+  private async send(
+    template: NotificationTemplate,
+    channel: NotificationChannel,
+    to: string,
+    message: RenderedMessage,
+    refs: { userId?: string; transporterId?: string; orderId?: string }
+  ): Promise<Notification | null> {
+    const provider = notificationProviders.resolve(channel);
+
+    let notification: Notification;
+    try {
+      notification = await prisma.notification.create({
+        data: {
+          template,
+          channel,
+          provider: provider?.name,
+          recipient: to,
+          subject: message.subject,
+          body: message.redactedBody,
+          ...refs,
+          status: provider ? NotificationStatus.PENDING : NotificationStatus.FAILED,
+          error: provider ? undefined : `No ${channel.toLowerCase()} provider configured`,
+        },
+      });
+    } catch (error) {
+      logger.error('Failed to record notification', { error, template, channel, orderId: refs.orderId });
+      return null;
+    }
+
+    if (!provider) return notification;
+
+    try {
+      const sealed = message.body !== message.redactedBody;
+      if (sealed) {
+        await notificationSender.seal(notification.id, message.body);
+      }
+
+      await jobService.enqueueNotificationDelivery({ notificationId: notification.id, sealed });
+      return notification;
+    } catch (error) {
+      logger.warn('Failed to queue notification', { error, notificationId: notification.id });
+
+      return prisma.notification.update({
+        where: { id: notification.id },
+        data: { status: NotificationStatus.FAILED, error: 'Could not queue the message for delivery' },
+      });
+    }
+  }
+}
+
+export const notificationService = new NotificationService();
@@ -2,6 +2,11 @@ import { Order, OrderStatus, Prisma } from '@prisma/client';
 import prisma from '@/config/database';
 import { createError } from '@/middleware/errorHandler';
 import { logger } from '@/utils/logger';
+import { pricingService, PriceQuote } from '@/services/pricingService';
+import { orderStateMachine, TransitionContext } from '@/services/orderStateMachine';
+import { lifecycleService, AssignmentOptions } from '@/services/lifecycleService';
+import { geofenceService } from '@/services/geofenceService';
+import { quoteService } from '@/services/quoteService';
 
 export interface CreateOrderData {
   customerId: string;
@@ -24,6 +29,7 @@ export interface CreateOrderData {
     height: number;
   };
   specialRequirements?: string;
+  requiresDeliveryPin?: boolean;
 }
 
 export interface OrderFilters {
@@ -37,36 +43,48 @@ export interface OrderFilters {
 }
 
 export class OrderService {
-  async createOrder(data: CreateOrderData): Promise<Order> {
+  async createOrder(data: CreateOrderData, context: TransitionContext = {}): Promise<Order> {
     try {
       logger.info('Creating new order', { customerId: data.customerId });
 
-      const order = await prisma.order.create({
-        data: {
-          customerId: data.customerId,
-          pickupLocation: data.pickupLocation,
-          deliveryLocation: data.deliveryLocation,
-          pickupTime: data.pickupTime,
-          deliveryTime: data.deliveryTime,
-          weight: data.weight,
-          dimensions: data.dimensions,
-          specialRequirements: data.specialRequirements,
-          status: OrderStatus.PENDING,
-        },
-        include: {
-          transporter: true,
-          route: true,
-        },
-      });
+      const quote = await pricingService.quote(data);
+      const order = await this.insertOrder(data, quote, context);
 
-      logger.info('Order created successfully', { orderId: order.id });
+      logger.info('Order created successfully', { orderId: order.id, estimatedCost: quote.total });
       return order;
     } catch (error) {
+      if (error instanceof Error && (error as any).statusCode) {
+        throw error;
+      }
       logger.error('Failed to create order', { error, data });
       throw createError('Failed to create order', 500);
     }
   }
 
+  /**
+   * Creates the order a binding quote was issued for, at the quoted price.
+   * The quote is redeemed in the same transaction, so it can be used once.
+   */
+  async createOrderFromQuote(quoteId: string, context: TransitionContext = {}): Promise<Order> {
+    try {
+      const { order: data, price } = await quoteService.getRedeemable(quoteId);
+      logger.info('Creating order from quote', { customerId: data.customerId, quoteId });
+
+      const order = await this.insertOrder(data, price, context, (tx, created) =>
+        quoteService.redeem(tx, quoteId, created.id)
+      );
+
+      logger.info('Order created successfully', { orderId: order.id, estimatedCost: price.total, quoteId });
+      return order;
+    } catch (error) {
+      if (error instanceof Error && (error as any).statusCode) {
+        throw error;
+      }
+      logger.error('Failed to create order from quote', { error, quoteId });
+      throw createError('Failed to create order', 500);
+    }
+  }
+
   async getOrders(filters: OrderFilters = {}) {
     try {
       const where: Prisma.OrderWhereInput = {};
@@ -138,74 +156,44 @@ export class OrderService {
     }
   }
 
-  async updateOrderStatus(id: string, status: OrderStatus): Promise<Order> {
+  async updateOrderStatus(id: string, status: OrderStatus, context: TransitionContext = {}): Promise<Order> {
     try {
-      const order = await prisma.order.update({
-        where: { id },
-        data: { 
-          status,
-          updatedAt: new Date(),
-        },
-        include: {
-          transporter: true,
-          route: true,
-        },
-      });
+      const order = await lifecycleService.transitionOrder(id, status, context);
 
       logger.info('Order status updated', { orderId: id, status });
       return order;
     } catch (error) {
+      if (error instanceof Error && (error as any).statusCode) {
+        throw error;
+      }
       logger.error('Failed to update order status', { error, orderId: id, status });
       throw createError('Failed to update order status', 500);
     }
   }
 
-  async assignTransporter(orderId: string, transporterId: string): Promise<Order> {
+  async assignTransporter(
+    orderId: string,
+    transporterId: string,
+    context: TransitionContext = {},
+    options: AssignmentOptions = {}
+  ): Promise<Order> {
     try {
-      const order = await prisma.order.update({
-        where: { id: orderId },
-        data: {
-          transporterId,
-          status: OrderStatus.ASSIGNED,
-          updatedAt: new Date(),
-        },
-        include: {
-          transporter: true,
-          route: true,
-        },
-      });
+      const order = await lifecycleService.assignTransporter(orderId, transporterId, context, options);
 
       logger.info('Transporter assigned to order', { orderId, transporterId });
       return order;
     } catch (error) {
+      if (error instanceof Error && (error as any).statusCode) {
+        throw error;
+      }
       logger.error('Failed to assign transporter', { error, orderId, transporterId });
       throw createError('Failed to assign transporter', 500);
     }
   }
 
-  async cancelOrder(id: string): Promise<Order> {
+  async cancelOrder(id: string, context: TransitionContext = {}): Promise<Order> {
     try {
-      const order = await this.getOrderById(id);
-
-      if (order.status === OrderStatus.DELIVERED) {
-        throw createError('Cannot cancel delivered order', 400);
-      }
-
-      if (order.status === OrderStatus.IN_TRANSIT) {
-        throw createError('Cannot cancel order in transit', 400);
-      }
-
-      const updatedOrder = await prisma.order.update({
-        where: { id },
-        data: {
-          status: OrderStatus.CANCELLED,
-          updatedAt: new Date(),
-        },
-        include: {
-          transporter: true,
-          route: true,
-        },
-      });
+      const updatedOrder = await lifecycleService.cancelOrder(id, context);
 
       logger.info('Order cancelled', { orderId: id });
       return updatedOrder;
@@ -218,43 +206,53 @@ export class OrderService {
     }
   }
 
-  async calculateEstimatedCost(orderData: CreateOrderData): Promise<number> {
-    const baseRate = 5.0; // Base rate per km
-    const weightMultiplier = 0.5; // Additional rate per kg
-    const timeMultiplier = 1.2; // Peak time multiplier
-
-    // Calculate distance (simplified - would use actual routing service)
-    const distance = this.calculateDistance(
-      orderData.pickupLocation,
-      orderData.deliveryLocation
-    );
-
-    const baseCost = distance * baseRate;
-    const weightCost = orderData.weight * weightMultiplier;
-    const totalCost = baseCost + weightCost;
+  async getOrderEvents(id: string) {
+    await this.getOrderById(id);
+    return orderStateMachine.getEvents(id);
+  }
 
-    // Apply time-based pricing
-    const pickupHour = orderData.pickupTime.getHours();
-    const isPeakTime = (pickupHour >= 7 && pickupHour <= 9) || (pickupHour >= 17 && pickupHour <= 19);
-    
-    return isPeakTime ? totalCost * timeMultiplier : totalCost;
+  async getGeofenceEvents(id: string) {
+    await this.getOrderById(id);
+    return geofenceService.getEvents(id);
   }
 
-  private calculateDistance(point1: { latitude: number; longitude: number }, point2: { latitude: number; longitude: number }): number {
-    const R = 6371; // Earth's radius in km
-    const dLat = this.toRadians(point2.latitude - point1.latitude);
-    const dLon = this.toRadians(point2.longitude - point1.longitude);
-    
-    const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-              Math.cos(this.toRadians(point1.latitude)) * Math.cos(this.toRadians(point2.latitude)) *
-              Math.sin(dLon / 2) * Math.sin(dLon / 2);
-    
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
+  async quoteOrder(orderData: CreateOrderData): Promise<PriceQuote> {
+    return pricingService.quote(orderData);
   }
 
-  private toRadians(degrees: number): number {
-    return degrees * (Math.PI / 180);
+  private async insertOrder(
+    data: CreateOrderData,
+    quote: PriceQuote,
+    context: TransitionContext,
+    onCreated?: (tx: Prisma.TransactionClient, order: Order) => Promise<void>
+  ): Promise<Order> {
+    return orderStateMachine.runInTransaction(async (tx) => {
+      const created = await tx.order.create({
+        data: {
+          customerId: data.customerId,
+          pickupLocation: data.pickupLocation,
+          deliveryLocation: data.deliveryLocation,
+          pickupTime: data.pickupTime,
+          deliveryTime: data.deliveryTime,
+          weight: data.weight,
+          dimensions: data.dimensions,
+          specialRequirements: data.specialRequirements,
+          requiresDeliveryPin: data.requiresDeliveryPin ?? false,
+          status: OrderStatus.PENDING,
+          estimatedCost: quote.total,
+          rateCardId: quote.rateCardId,
+          pricingBreakdown: quote as unknown as Prisma.InputJsonValue,
+        },
+        include: {
+          transporter: true,
+          route: true,
+        },
+      });
+
+      await onCreated?.(tx, created);
+      await orderStateMachine.recordEvent(tx, created.id, null, OrderStatus.PENDING, context);
+      return created;
+    });
   }
 }
 
@@ -0,0 +1,165 @@
+import { OrderStatus, Prisma } from '@prisma/client';
+import prisma from '@/config/database';
+import { eventBus, OrderStatusEvent } from '@/services/eventBus';
+import { ORDER_TRANSITIONS, orderStateMachine } from './orderStateMachine';
+
+jest.mock('@/config/database', () => ({
+  __esModule: true,
+  default: { $transaction: jest.fn() },
+}));
+
+const transactionMock = prisma.$transaction as unknown as jest.Mock;
+
+const ALL_STATUSES = Object.values(OrderStatus);
+
+// The lifecycle as documented: every pair not listed here must be refused
+const ALLOWED: Array<[OrderStatus, OrderStatus]> = [
+  [OrderStatus.PENDING, OrderStatus.ASSIGNED],
+  [OrderStatus.PENDING, OrderStatus.CANCELLED],
+  [OrderStatus.PENDING, OrderStatus.FAILED],
+  [OrderStatus.ASSIGNED, OrderStatus.ASSIGNED],
+  [OrderStatus.ASSIGNED, OrderStatus.PENDING],
+  [OrderStatus.ASSIGNED, OrderStatus.IN_TRANSIT],
+  [OrderStatus.ASSIGNED, OrderStatus.CANCELLED],
+  [OrderStatus.ASSIGNED, OrderStatus.FAILED],
+  [OrderStatus.IN_TRANSIT, OrderStatus.DELIVERED],
+  [OrderStatus.IN_TRANSIT, OrderStatus.FAILED],
+  [OrderStatus.FAILED, OrderStatus.PENDING],
+  [OrderStatus.FAILED, OrderStatus.CANCELLED],
+];
+
+const isAllowed = (from: OrderStatus, to: OrderStatus) =>
+  ALLOWED.some(([allowedFrom, allowedTo]) => allowedFrom === from && allowedTo === to);
+
+const ALL_PAIRS = ALL_STATUSES.flatMap(from => ALL_STATUSES.map(to => [from, to] as [OrderStatus, OrderStatus]));
+
+// A transaction client holding one order, applying guarded updates the way the database would
+const fakeTransaction = (status: OrderStatus | null) => {
+  let current = status;
+  return {
+    order: {
+      findUnique: jest.fn(async () => current && { status: current }),
+      updateMany: jest.fn(async ({ where, data }) => {
+        if (current !== where.status) return { count: 0 };
+        current = data.status;
+        return { count: 1 };
+      }),
+      findUniqueOrThrow: jest.fn(async () => ({ id: 'order-1', status: current })),
+    },
+    orderEvent: {
+      create: jest.fn(async ({ data }) => ({ ...data, id: 'event-1', createdAt: new Date('2024-05-01T12:00:00Z') })),
+    },
+  };
+};
+
+describe('OrderStateMachine', () => {
+  describe('transition table', () => {
+    it.each(ALL_PAIRS)('%s -> %s follows the documented lifecycle', (from, to) => {
+      expect(orderStateMachine.canTransition(from, to)).toBe(isAllowed(from, to));
+    });
+
+    it('has no moves out of DELIVERED or CANCELLED', () => {
+      expect(ORDER_TRANSITIONS[OrderStatus.DELIVERED]).toEqual([]);
+      expect(ORDER_TRANSITIONS[OrderStatus.CANCELLED]).toEqual([]);
+    });
+
+    it('refuses a disallowed move with 409', () => {
+      expect(() => orderStateMachine.assertTransition(OrderStatus.DELIVERED, OrderStatus.PENDING))
+        .toThrow(expect.objectContaining({ statusCode: 409, message: 'Cannot move order from DELIVERED to PENDING' }));
+    });
+  });
+
+  describe('transition', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('updates the status guarded on the one it validated and records the move', async () => {
+      const tx = fakeTransaction(OrderStatus.ASSIGNED);
+
+      const order = await orderStateMachine.transition(
+        tx as unknown as Prisma.TransactionClient,
+        'order-1',
+        OrderStatus.IN_TRANSIT,
+        { actor: 'transporter-1' }
+      );
+
+      expect(order.status).toBe(OrderStatus.IN_TRANSIT);
+      expect(tx.order.updateMany.mock.calls[0][0].where).toEqual({ id: 'order-1', status: OrderStatus.ASSIGNED });
+      expect(tx.orderEvent.create.mock.calls[0][0].data).toMatchObject({
+        orderId: 'order-1',
+        fromStatus: OrderStatus.ASSIGNED,
+        toStatus: OrderStatus.IN_TRANSIT,
+        actor: 'transporter-1',
+      });
+    });
+
+    it('refuses a move the table does not allow without writing', async () => {
+      const tx = fakeTransaction(OrderStatus.DELIVERED);
+
+      await expect(orderStateMachine.transition(tx as unknown as Prisma.TransactionClient, 'order-1', OrderStatus.PENDING))
+        .rejects.toMatchObject({ statusCode: 409 });
+      expect(tx.order.updateMany).not.toHaveBeenCalled();
+      expect(tx.orderEvent.create).not.toHaveBeenCalled();
+    });
+
+    it('fails with 409 when the status changed after it was read', async () => {
+      const tx = fakeTransaction(OrderStatus.PENDING);
+      tx.order.findUnique.mockResolvedValueOnce({ status: OrderStatus.ASSIGNED });
+
+      await expect(orderStateMachine.transition(tx as unknown as Prisma.TransactionClient, 'order-1', OrderStatus.IN_TRANSIT))
+        .rejects.toMatchObject({ statusCode: 409, message: 'Order status changed concurrently, please retry' });
+      expect(tx.orderEvent.create).not.toHaveBeenCalled();
+    });
+
+    it('reports a missing order with 404', async () => {
+      const tx = fakeTransaction(null);
+
+      await expect(orderStateMachine.transition(tx as unknown as Prisma.TransactionClient, 'order-1', OrderStatus.ASSIGNED))
+        .rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('runInTransaction', () => {
+    let published: OrderStatusEvent[];
+    let unsubscribe: () => void;
+
+    beforeEach(() => {
+      published = [];
+      unsubscribe = eventBus.on('order.status', (event) => {
+        published.push(event);
+      });
+    });
+
+    afterEach(() => {
+      unsubscribe();
+    });
+
+    it('publishes the recorded transitions once the transaction commits', async () => {
+      const tx = fakeTransaction(OrderStatus.PENDING);
+      transactionMock.mockImplementation(async (work) => {
+        const result = await work(tx);
+        expect(published).toEqual([]);
+        return result;
+      });
+
+      await orderStateMachine.runInTransaction(trx => orderStateMachine.transition(trx, 'order-1', OrderStatus.ASSIGNED));
+
+      expect(published).toEqual([
+        expect.objectContaining({ orderId: 'order-1', fromStatus: OrderStatus.PENDING, toStatus: OrderStatus.ASSIGNED }),
+      ]);
+    });
+
+    it('drops the transitions of a transaction that rolls back', async () => {
+      const tx = fakeTransaction(OrderStatus.PENDING);
+      transactionMock.mockImplementation(async (work) => work(tx));
+
+      await expect(orderStateMachine.runInTransaction(async (trx) => {
+        await orderStateMachine.transition(trx, 'order-1', OrderStatus.ASSIGNED);
+        throw new Error('Transporter went offline');
+      })).rejects.toThrow('Transporter went offline');
+
+      expect(published).toEqual([]);
+    });
+  });
+});
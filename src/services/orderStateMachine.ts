@@ -0,0 +1,153 @@
+import { Order, OrderEvent, OrderStatus, Prisma } from '@prisma/client';
+import prisma from '@/config/database';
+import { createError } from '@/middleware/errorHandler';
+import { logger } from '@/utils/logger';
+import { eventBus } from '@/services/eventBus';
+
+export interface TransitionContext {
+  actor?: string;
+  reason?: string;
+  location?: {
+    latitude: number;
+    longitude: number;
+  };
+}
+
+// Allowed moves for each status. ASSIGNED -> ASSIGNED is a reassignment to another transporter
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  [OrderStatus.PENDING]: [OrderStatus.ASSIGNED, OrderStatus.CANCELLED, OrderStatus.FAILED],
+  [OrderStatus.ASSIGNED]: [OrderStatus.ASSIGNED, OrderStatus.PENDING, OrderStatus.IN_TRANSIT, OrderStatus.CANCELLED, OrderStatus.FAILED],
+  [OrderStatus.IN_TRANSIT]: [OrderStatus.DELIVERED, OrderStatus.FAILED],
+  [OrderStatus.DELIVERED]: [],
+  [OrderStatus.CANCELLED]: [],
+  [OrderStatus.FAILED]: [OrderStatus.PENDING, OrderStatus.CANCELLED],
+};
+
+export class OrderStateMachine {
+  // Events recorded by each open transaction, published once it commits
+  private readonly pendingEvents = new WeakMap<Prisma.TransactionClient, OrderEvent[]>();
+
+  canTransition(from: OrderStatus, to: OrderStatus): boolean {
+    return ORDER_TRANSITIONS[from].includes(to);
+  }
+
+  assertTransition(from: OrderStatus, to: OrderStatus): void {
+    if (!this.canTransition(from, to)) {
+      throw createError(`Cannot move order from ${from} to ${to}`, 409);
+    }
+  }
+
+  /**
+   * Moves an order to a new status inside the given transaction and records
+   * the transition. The update is guarded on the status that was validated,
+   * so a concurrent transition makes this one fail with 409 instead of
+   * silently overwriting it.
+   */
+  async transition(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    to: OrderStatus,
+    context: TransitionContext = {},
+    data: Prisma.OrderUncheckedUpdateManyInput = {}
+  ): Promise<Order> {
+    const current = await tx.order.findUnique({
+      where: { id: orderId },
+      select: { status: true },
+    });
+
+    if (!current) {
+      throw createError('Order not found', 404);
+    }
+
+    this.assertTransition(current.status, to);
+
+    const { count } = await tx.order.updateMany({
+      where: { id: orderId, status: current.status },
+      data: {
+        ...data,
+        status: to,
+        updatedAt: new Date(),
+      },
+    });
+
+    if (count === 0) {
+      throw createError('Order status changed concurrently, please retry', 409);
+    }
+
+    await this.recordEvent(tx, orderId, current.status, to, context);
+
+    logger.info('Order status transitioned', { orderId, from: current.status, to, actor: context.actor });
+
+    return tx.order.findUniqueOrThrow({
+      where: { id: orderId },
+      include: {
+        transporter: true,
+        route: true,
+      },
+    });
+  }
+
+  /**
+   * Runs `work` in a transaction and, only after it commits, publishes an
+   * `order.status` event for every transition recorded inside it. Events
+   * from a rolled back transaction are dropped.
+   */
+  async runInTransaction<T>(work: (tx: Prisma.TransactionClient) => Promise<T>): Promise<T> {
+    const recorded: OrderEvent[] = [];
+
+    const result = await prisma.$transaction(async (tx) => {
+      this.pendingEvents.set(tx, recorded);
+      return work(tx);
+    });
+
+    recorded.forEach(event => {
+      eventBus.emit('order.status', {
+        orderId: event.orderId,
+        fromStatus: event.fromStatus,
+        toStatus: event.toStatus,
+        actor: event.actor ?? undefined,
+        reason: event.reason ?? undefined,
+        timestamp: event.createdAt,
+      });
+    });
+
+    return result;
+  }
+
+  async recordEvent(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    fromStatus: OrderStatus | null,
+    toStatus: OrderStatus,
+    context: TransitionContext = {}
+  ): Promise<OrderEvent> {
+    const event = await tx.orderEvent.create({
+      data: {
+        orderId,
+        fromStatus,
+        toStatus,
+        actor: context.actor,
+        reason: context.reason,
+        latitude: context.location?.latitude,
+        longitude: context.location?.longitude,
+      },
+    });
+
+    this.pendingEvents.get(tx)?.push(event);
+    return event;
+  }
+
+  async getEvents(orderId: string): Promise<OrderEvent[]> {
+    try {
+      return await prisma.orderEvent.findMany({
+        where: { orderId },
+        orderBy: { createdAt: 'asc' },
+      });
+    } catch (error) {
+      logger.error('Failed to fetch order events', { error, orderId });
+      throw createError('Failed to fetch order events', 500);
+    }
+  }
+}
+
+export const orderStateMachine = new OrderStateMachine();
@@ -0,0 +1,287 @@
+import { PricingZone, Prisma, RateCard, VehicleType } from '@prisma/client';
+import prisma from '@/config/database';
+import { createError } from '@/middleware/errorHandler';
+import { logger } from '@/utils/logger';
+import { GeoPoint, haversineDistance } from '@/utils/geo';
+import { priceShipment, PriceLine, Surcharge, Tariff, TimeBand } from '@/utils/tariff';
+import { matchingService, Dimensions } from '@/services/matchingService';
+import { matrixService } from '@/services/matrixService';
+import { RoutingProviderName } from '@/services/routingProviders';
+
+export interface QuoteRequest {
+  pickupLocation: GeoPoint;
+  deliveryLocation: GeoPoint;
+  pickupTime: Date;
+  weight: number;
+  dimensions: Dimensions;
+  specialRequirements?: string;
+}
+
+export interface PriceQuote {
+  total: number;
+  currency: string;
+  vehicleType: VehicleType;
+  zoneCode: string;
+  // Null when no rate card is configured and the built-in tariff was used
+  rateCardId: string | null;
+  rateCardVersion: number | null;
+  distanceKm: number;
+  distanceProvider: RoutingProviderName;
+  chargeableWeightKg: number;
+  breakdown: PriceLine[];
+  quotedAt: Date;
+}
+
+export interface CreateRateCardData {
+  zoneCode: string;
+  vehicleType: VehicleType;
+  currency?: string;
+  baseFare: number;
+  perKm: number;
+  perKg: number;
+  volumetricDivisor?: number;
+  minimumFare?: number;
+  surcharges?: Surcharge[];
+  timeBands?: TimeBand[];
+  effectiveFrom?: Date;
+}
+
+export interface PricingZoneData {
+  code: string;
+  name: string;
+  center: GeoPoint;
+  radiusKm: number;
+  timezone?: string;
+}
+
+export interface RateCardFilters {
+  zoneCode?: string;
+  vehicleType?: VehicleType;
+}
+
+// Zone code for pickups outside every configured zone
+export const DEFAULT_ZONE_CODE = 'DEFAULT';
+
+// Used until a rate card exists for the zone and vehicle class; matches the original flat pricing
+const BUILT_IN_TARIFF: Tariff = {
+  currency: 'USD',
+  baseFare: 0,
+  perKm: 5,
+  perKg: 0.5,
+  volumetricDivisor: 5000,
+  minimumFare: 0,
+  surcharges: [],
+  timeBands: [
+    { label: 'Morning peak', startHour: 7, endHour: 10, multiplier: 1.2 },
+    { label: 'Evening peak', startHour: 17, endHour: 20, multiplier: 1.2 },
+  ],
+};
+
+const defaultTimezone = () => process.env.PRICING_DEFAULT_TIMEZONE || 'UTC';
+
+// Hour and weekday (0 = Sunday) of `date` in `timezone`
+const localTime = (date: Date, timezone: string): { hour: number; day: number } => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hour: 'numeric',
+    hourCycle: 'h23',
+    weekday: 'short',
+  }).formatToParts(date);
+
+  const weekday = parts.find(part => part.type === 'weekday')?.value;
+  return {
+    hour: parseInt(parts.find(part => part.type === 'hour')?.value || '0', 10),
+    day: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(weekday || 'Sun'),
+  };
+};
+
+const toTariff = (card: RateCard): Tariff => ({
+  currency: card.currency,
+  baseFare: card.baseFare,
+  perKm: card.perKm,
+  perKg: card.perKg,
+  volumetricDivisor: card.volumetricDivisor,
+  minimumFare: card.minimumFare,
+  surcharges: card.surcharges as unknown as Surcharge[],
+  timeBands: card.timeBands as unknown as TimeBand[],
+});
+
+export class PricingService {
+  /**
+   * Prices an order with the rate card in effect for the pickup zone and
+   * the smallest vehicle class fitting its weight, over the routed
+   * pickup-to-delivery distance. Time bands are judged in the zone's
+   * timezone. Falls back to the DEFAULT zone's card, then to a built-in
+   * tariff.
+   */
+  async quote(request: QuoteRequest, at: Date = new Date()): Promise<PriceQuote> {
+    try {
+      const vehicleType = matchingService.vehicleClassFor(request.weight);
+      const zone = await this.findZone(request.pickupLocation);
+      const zoneCode = zone?.code ?? DEFAULT_ZONE_CODE;
+      const card = await this.findRateCard(zoneCode, vehicleType, at)
+        ?? (zone ? await this.findRateCard(DEFAULT_ZONE_CODE, vehicleType, at) : null);
+
+      const matrix = await matrixService.getMatrix([request.pickupLocation], [request.deliveryLocation], {
+        vehicleType,
+        departureTime: request.pickupTime > new Date() ? request.pickupTime : undefined,
+      });
+      const routed = Number.isFinite(matrix.distances[0][0]);
+      const distanceKm = routed
+        ? matrix.distances[0][0]
+        : haversineDistance(request.pickupLocation, request.deliveryLocation);
+
+      const { hour, day } = localTime(request.pickupTime, zone?.timezone ?? defaultTimezone());
+      const tariff = card ? toTariff(card) : BUILT_IN_TARIFF;
+      const priced = priceShipment(tariff, {
+        distanceKm,
+        weightKg: request.weight,
+        volumeCm3: request.dimensions.length * request.dimensions.width * request.dimensions.height,
+        specialRequirements: request.specialRequirements,
+        localHour: hour,
+        localDay: day,
+      });
+
+      return {
+        total: priced.total,
+        currency: tariff.currency,
+        vehicleType,
+        zoneCode: card?.zoneCode ?? zoneCode,
+        rateCardId: card?.id ?? null,
+        rateCardVersion: card?.version ?? null,
+        distanceKm: Math.round(distanceKm * 100) / 100,
+        distanceProvider: routed ? matrix.provider : 'straight_line',
+        chargeableWeightKg: priced.chargeableWeightKg,
+        breakdown: priced.lines,
+        quotedAt: at,
+      };
+    } catch (error) {
+      if (error instanceof Error && (error as any).statusCode) {
+        throw error;
+      }
+      logger.error('Failed to price order', { error });
+      throw createError('Failed to price order', 500);
+    }
+  }
+
+  async getRateCards(filters: RateCardFilters = {}): Promise<RateCard[]> {
+    try {
+      return await prisma.rateCard.findMany({
+        where: filters,
+        orderBy: [{ zoneCode: 'asc' }, { vehicleType: 'asc' }, { version: 'desc' }],
+      });
+    } catch (error) {
+      logger.error('Failed to fetch rate cards', { error, filters });
+      throw createError('Failed to fetch rate cards', 500);
+    }
+  }
+
+  /**
+   * Publishes a new version of the rate card for a zone and vehicle class.
+   * Earlier versions are kept, so orders priced with them can still be
+   * explained; the latest version in effect is used for new quotes.
+   */
+  async createRateCard(data: CreateRateCardData, actor?: string): Promise<RateCard> {
+    try {
+      if (data.zoneCode !== DEFAULT_ZONE_CODE) {
+        const zone = await prisma.pricingZone.findUnique({ where: { code: data.zoneCode } });
+        if (!zone) {
+          throw createError(`Pricing zone ${data.zoneCode} not found`, 404);
+        }
+      }
+
+      const latest = await prisma.rateCard.findFirst({
+        where: { zoneCode: data.zoneCode, vehicleType: data.vehicleType },
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      });
+
+      const card = await prisma.rateCard.create({
+        data: {
+          zoneCode: data.zoneCode,
+          vehicleType: data.vehicleType,
+          version: (latest?.version ?? 0) + 1,
+          currency: data.currency,
+          baseFare: data.baseFare,
+          perKm: data.perKm,
+          perKg: data.perKg,
+          volumetricDivisor: data.volumetricDivisor,
+          minimumFare: data.minimumFare,
+          surcharges: (data.surcharges || []) as unknown as Prisma.InputJsonValue,
+          timeBands: (data.timeBands || []) as unknown as Prisma.InputJsonValue,
+          effectiveFrom: data.effectiveFrom || new Date(),
+          createdBy: actor,
+        },
+      });
+
+      logger.info('Rate card published', {
+        rateCardId: card.id,
+        zoneCode: card.zoneCode,
+        vehicleType: card.vehicleType,
+        version: card.version,
+      });
+      return card;
+    } catch (error) {
+      if (error instanceof Error && (error as any).statusCode) {
+        throw error;
+      }
+      // Two publishes racing for the same version number
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw createError('Rate card changed concurrently, please retry', 409);
+      }
+      logger.error('Failed to create rate card', { error, zoneCode: data.zoneCode, vehicleType: data.vehicleType });
+      throw createError('Failed to create rate card', 500);
+    }
+  }
+
+  async getZones(): Promise<PricingZone[]> {
+    try {
+      return await prisma.pricingZone.findMany({ orderBy: { code: 'asc' } });
+    } catch (error) {
+      logger.error('Failed to fetch pricing zones', { error });
+      throw createError('Failed to fetch pricing zones', 500);
+    }
+  }
+
+  async upsertZone(data: PricingZoneData): Promise<PricingZone> {
+    if (data.code === DEFAULT_ZONE_CODE) {
+      throw createError(`${DEFAULT_ZONE_CODE} is reserved for pickups outside every zone`, 400);
+    }
+
+    try {
+      const fields = {
+        name: data.name,
+        center: { latitude: data.center.latitude, longitude: data.center.longitude },
+        radiusKm: data.radiusKm,
+        timezone: data.timezone,
+      };
+
+      return await prisma.pricingZone.upsert({
+        where: { code: data.code },
+        create: { code: data.code, ...fields },
+        update: fields,
+      });
+    } catch (error) {
+      logger.error('Failed to save pricing zone', { error, code: data.code });
+      throw createError('Failed to save pricing zone', 500);
+    }
+  }
+
+  // The most specific (smallest) zone containing the point
+  private async findZone(point: GeoPoint): Promise<PricingZone | null> {
+    const zones = await prisma.pricingZone.findMany();
+
+    return zones
+      .filter(zone => haversineDistance(point, zone.center as unknown as GeoPoint) <= zone.radiusKm)
+      .sort((a, b) => a.radiusKm - b.radiusKm)[0] ?? null;
+  }
+
+  private async findRateCard(zoneCode: string, vehicleType: VehicleType, at: Date): Promise<RateCard | null> {
+    return prisma.rateCard.findFirst({
+      where: { zoneCode, vehicleType, effectiveFrom: { lte: at } },
+      orderBy: { version: 'desc' },
+    });
+  }
+}
+
+export const pricingService = new PricingService();
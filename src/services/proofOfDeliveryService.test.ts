@@ -0,0 +1,206 @@
+import { DeliveryPin, DeliveryPinEventType, OrderStatus } from '@prisma/client';
+import prisma from '@/config/database';
+import { lifecycleService } from '@/services/lifecycleService';
+import { hashPin } from '@/utils/deliveryPin';
+import { proofOfDeliveryService, ProofOfDeliverySubmission } from './proofOfDeliveryService';
+
+jest.mock('@/config/database', () => ({
+  __esModule: true,
+  default: {
+    order: { findUnique: jest.fn() },
+    deliveryPin: {
+      updateMany: jest.fn(),
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      update: jest.fn(),
+    },
+    deliveryPinEvent: { create: jest.fn() },
+    $transaction: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/lifecycleService', () => ({
+  lifecycleService: { deliverOrder: jest.fn() },
+}));
+
+jest.mock('@/services/notificationService', () => ({
+  notificationService: { sendDeliveryPin: jest.fn() },
+}));
+
+jest.mock('@/services/blobStores', () => ({
+  blobStores: {
+    resolve: () => ({ put: jest.fn(), get: jest.fn(), delete: jest.fn().mockResolvedValue(undefined) }),
+  },
+}));
+
+const prismaMock = prisma as unknown as {
+  order: { findUnique: jest.Mock };
+  deliveryPin: { updateMany: jest.Mock; findUnique: jest.Mock; findUniqueOrThrow: jest.Mock; update: jest.Mock };
+  deliveryPinEvent: { create: jest.Mock };
+  $transaction: jest.Mock;
+};
+const deliverOrder = lifecycleService.deliverOrder as jest.Mock;
+
+const NOW = new Date('2024-05-01T12:00:00Z');
+const PIN = '042917';
+const DELIVERY = { latitude: 52.5, longitude: 13.45, address: 'Warschauer Str. 10, Berlin' };
+
+let pin: DeliveryPin | null;
+let events: DeliveryPinEventType[];
+
+// Keeps one order's PIN row in memory, applying the conditional updates the way the database would
+const installFakeDatabase = (requiresDeliveryPin: boolean) => {
+  prismaMock.order.findUnique.mockImplementation(async () => ({
+    id: 'order-1',
+    status: OrderStatus.IN_TRANSIT,
+    transporterId: 'transporter-1',
+    deliveryLocation: DELIVERY,
+    requiresDeliveryPin,
+    deliveryPin: pin && { ...pin },
+  }));
+
+  prismaMock.deliveryPin.updateMany.mockImplementation(async ({ where, data }) => {
+    const now: Date = where.OR[1].lockedUntil.lte;
+    const unlocked = !pin?.lockedUntil || pin.lockedUntil <= now;
+    if (!pin || pin.attempts >= where.attempts.lt || !unlocked) return { count: 0 };
+
+    pin.attempts += data.attempts.increment;
+    return { count: 1 };
+  });
+  prismaMock.deliveryPin.findUnique.mockImplementation(async () => pin && { ...pin });
+  prismaMock.deliveryPin.findUniqueOrThrow.mockImplementation(async () => ({ ...pin }));
+  prismaMock.deliveryPin.update.mockImplementation(async ({ data }) => {
+    pin = { ...(pin as DeliveryPin), ...data };
+    return pin;
+  });
+  prismaMock.deliveryPinEvent.create.mockImplementation(async ({ data }) => {
+    events.push(data.type);
+    return data;
+  });
+  prismaMock.$transaction.mockImplementation(async (operations: Promise<unknown>[]) => Promise.all(operations));
+  deliverOrder.mockResolvedValue({ id: 'order-1', status: OrderStatus.DELIVERED });
+};
+
+const issue = () => {
+  pin = {
+    orderId: 'order-1',
+    hash: hashPin(process.env.JWT_SECRET as string, 'order-1', PIN),
+    attempts: 0,
+    lockedUntil: null,
+    issuedAt: NOW,
+  };
+};
+
+const submission = (enteredPin?: string): ProofOfDeliverySubmission => ({
+  transporterId: 'transporter-1',
+  recipientName: 'Jane Doe',
+  pin: enteredPin,
+  latitude: DELIVERY.latitude,
+  longitude: DELIVERY.longitude,
+  capturedAt: new Date(),
+  signature: { data: Buffer.from('png-bytes'), contentType: 'image/png' },
+  photos: [],
+});
+
+const submit = (enteredPin?: string) => proofOfDeliveryService.submit('order-1', submission(enteredPin), { actor: 'user-1' });
+
+describe('ProofOfDeliveryService delivery PIN entry', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: NOW });
+    delete process.env.POD_PIN_MAX_ATTEMPTS;
+    delete process.env.POD_PIN_LOCKOUT_MINUTES;
+    pin = null;
+    events = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('delivers with the correct PIN and records the verification', async () => {
+    installFakeDatabase(true);
+    issue();
+
+    await submit(PIN);
+
+    expect(deliverOrder).toHaveBeenCalledTimes(1);
+    expect(events).toEqual([DeliveryPinEventType.VERIFIED]);
+  });
+
+  it('refuses orders that need a PIN before one has been issued', async () => {
+    installFakeDatabase(true);
+
+    await expect(submit(PIN)).rejects.toMatchObject({ statusCode: 409 });
+    expect(deliverOrder).not.toHaveBeenCalled();
+  });
+
+  it('asks for a missing PIN without using up an attempt', async () => {
+    installFakeDatabase(false);
+    issue();
+
+    await expect(submit()).rejects.toMatchObject({ statusCode: 422, message: 'Delivery PIN is required' });
+    expect(pin?.attempts).toBe(0);
+  });
+
+  it('counts wrong PINs and reports the attempts left', async () => {
+    installFakeDatabase(true);
+    issue();
+
+    await expect(submit('111111')).rejects.toMatchObject({ statusCode: 422, message: 'Incorrect delivery PIN; 4 attempts left' });
+    await expect(submit('222222')).rejects.toMatchObject({ message: 'Incorrect delivery PIN; 3 attempts left' });
+
+    expect(pin?.attempts).toBe(2);
+    expect(events).toEqual([DeliveryPinEventType.REJECTED, DeliveryPinEventType.REJECTED]);
+    expect(deliverOrder).not.toHaveBeenCalled();
+  });
+
+  it('locks entry after the last allowed wrong PIN, even for the correct one', async () => {
+    installFakeDatabase(true);
+    issue();
+
+    for (let attempt = 1; attempt < 5; attempt++) {
+      await expect(submit('111111')).rejects.toMatchObject({ statusCode: 422 });
+    }
+    await expect(submit('111111')).rejects.toMatchObject({
+      statusCode: 423,
+      message: 'Incorrect delivery PIN; entry is locked until 2024-05-01T12:15:00.000Z',
+    });
+    await expect(submit(PIN)).rejects.toMatchObject({
+      statusCode: 423,
+      message: 'Delivery PIN entry is locked until 2024-05-01T12:15:00.000Z',
+    });
+
+    expect(events.filter(type => type === DeliveryPinEventType.LOCKED_OUT)).toHaveLength(1);
+    expect(deliverOrder).not.toHaveBeenCalled();
+  });
+
+  it('accepts the PIN again once the lockout has passed', async () => {
+    process.env.POD_PIN_MAX_ATTEMPTS = '2';
+    process.env.POD_PIN_LOCKOUT_MINUTES = '10';
+    installFakeDatabase(true);
+    issue();
+
+    await expect(submit('111111')).rejects.toMatchObject({ statusCode: 422 });
+    await expect(submit('111111')).rejects.toMatchObject({ statusCode: 423 });
+
+    jest.setSystemTime(new Date('2024-05-01T12:10:00Z'));
+    await submit(PIN);
+
+    expect(deliverOrder).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not let parallel guesses exceed the limit', async () => {
+    process.env.POD_PIN_MAX_ATTEMPTS = '3';
+    installFakeDatabase(true);
+    issue();
+
+    const results = await Promise.allSettled(
+      ['111111', '222222', '333333', '444444', '555555', PIN].map(guess => submit(guess))
+    );
+
+    expect(prismaMock.deliveryPin.updateMany).toHaveBeenCalledTimes(6);
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(0);
+    expect(events.filter(type => type === DeliveryPinEventType.REJECTED)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,293 @@
+import crypto from 'crypto';
+import { DeliveryPin, DeliveryPinEvent, DeliveryPinEventType, Order, OrderStatus, ProofOfDelivery } from '@prisma/client';
+import prisma from '@/config/database';
+import { createError } from '@/middleware/errorHandler';
+import { logger } from '@/utils/logger';
+import { GeoPoint, haversineDistance } from '@/utils/geo';
+import { afterFailedAttempt, generatePin, hashPin, isLocked, pinMatches } from '@/utils/deliveryPin';
+import { blobStores, StoredBlob } from '@/services/blobStores';
+import { eventBus, OrderStatusEvent } from '@/services/eventBus';
+import { lifecycleService } from '@/services/lifecycleService';
+import { notificationService } from '@/services/notificationService';
+import { TransitionContext } from '@/services/orderStateMachine';
+
+export interface UploadedImage {
+  data: Buffer;
+  contentType: string;
+}
+
+export interface ProofOfDeliverySubmission {
+  transporterId: string;
+  recipientName: string;
+  pin?: string;
+  // Device GPS fix at the moment of handover
+  latitude: number;
+  longitude: number;
+  accuracyMeters?: number;
+  capturedAt: Date;
+  signature: UploadedImage;
+  photos: UploadedImage[];
+}
+
+export const POD_IMAGE_TYPES: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+};
+
+// Tolerated device clock drift for fixes stamped in the future
+const MAX_CLOCK_SKEW_MS = 2 * 60 * 1000;
+
+const maxDistanceMeters = () => parseFloat(process.env.POD_MAX_DISTANCE_M || '200');
+const maxFixAgeSeconds = () => parseFloat(process.env.POD_MAX_FIX_AGE_SECONDS || '600');
+// Wrong PINs allowed before entry is locked for POD_PIN_LOCKOUT_MINUTES
+const maxPinAttempts = () => parseInt(process.env.POD_PIN_MAX_ATTEMPTS || '5');
+const pinLockoutMinutes = () => parseInt(process.env.POD_PIN_LOCKOUT_MINUTES || '15');
+const pinSecret = () => process.env.POD_PIN_SECRET || (process.env.JWT_SECRET as string);
+
+/**
+ * Proof of delivery: the recipient's signature and name, photos, the
+ * one-time delivery PIN and a GPS fix close to the delivery location.
+ * Accepting a proof is the only way an order becomes DELIVERED.
+ */
+export class ProofOfDeliveryService {
+  start(): () => void {
+    return eventBus.on('order.status', event => this.handleOrderStatus(event));
+  }
+
+  // Orders flagged requiresDeliveryPin get their PIN as they leave for delivery
+  async handleOrderStatus(event: OrderStatusEvent): Promise<void> {
+    if (event.toStatus !== OrderStatus.IN_TRANSIT) return;
+
+    const order = await prisma.order.findUnique({
+      where: { id: event.orderId },
+      select: { requiresDeliveryPin: true },
+    });
+
+    if (order?.requiresDeliveryPin) {
+      await this.issuePin(event.orderId);
+    }
+  }
+
+  /**
+   * Issues a new one-time PIN for the recipient to give the driver,
+   * replacing any earlier one and lifting a lockout, and sends it to the
+   * customer. Only the hash is stored, so the PIN is returned once.
+   */
+  async issuePin(orderId: string, actor?: string): Promise<string> {
+    const order = await prisma.order.findUnique({ where: { id: orderId }, select: { status: true } });
+
+    if (!order) {
+      throw createError('Order not found', 404);
+    }
+    if (order.status !== OrderStatus.ASSIGNED && order.status !== OrderStatus.IN_TRANSIT) {
+      throw createError(`Cannot issue a delivery PIN for a ${order.status.toLowerCase()} order`, 409);
+    }
+
+    const pin = generatePin();
+    const pinData = { hash: hashPin(pinSecret(), orderId, pin), attempts: 0, lockedUntil: null, issuedAt: new Date() };
+    await prisma.$transaction([
+      prisma.deliveryPin.upsert({
+        where: { orderId },
+        create: { orderId, ...pinData },
+        update: pinData,
+      }),
+      prisma.deliveryPinEvent.create({ data: { orderId, type: DeliveryPinEventType.ISSUED, actor } }),
+    ]);
+
+    await notificationService.sendDeliveryPin(orderId, pin).catch((error) => {
+      logger.error('Failed to send delivery PIN', { error, orderId });
+    });
+
+    logger.info('Delivery PIN issued', { orderId });
+    return pin;
+  }
+
+  /**
+   * Checks and stores a proof of delivery, then marks the order DELIVERED.
+   * Only the assigned transporter may submit, from within
+   * POD_MAX_DISTANCE_M of the delivery location, with a fix no older than
+   * POD_MAX_FIX_AGE_SECONDS. The PIN is required for orders flagged
+   * requiresDeliveryPin and for any order a PIN has been issued for.
+   */
+  async submit(orderId: string, submission: ProofOfDeliverySubmission, context: TransitionContext = {}): Promise<Order> {
+    const order = await prisma.order.findUnique({ where: { id: orderId }, include: { deliveryPin: true } });
+
+    if (!order) {
+      throw createError('Order not found', 404);
+    }
+    if (order.transporterId !== submission.transporterId) {
+      throw createError('Only the assigned transporter can submit proof of delivery', 403);
+    }
+    if (order.status !== OrderStatus.IN_TRANSIT) {
+      throw createError(`Cannot deliver a ${order.status.toLowerCase()} order`, 409);
+    }
+
+    const fixAgeMs = Date.now() - submission.capturedAt.getTime();
+    if (fixAgeMs < -MAX_CLOCK_SKEW_MS || fixAgeMs > maxFixAgeSeconds() * 1000) {
+      throw createError('GPS fix is too old or stamped in the future', 422);
+    }
+
+    const distanceMeters = haversineDistance(submission, order.deliveryLocation as unknown as GeoPoint) * 1000;
+    if (distanceMeters > maxDistanceMeters()) {
+      throw createError(
+        `Submitted ${Math.round(distanceMeters)} m from the delivery location; must be within ${maxDistanceMeters()} m`,
+        422
+      );
+    }
+
+    if (order.requiresDeliveryPin && !order.deliveryPin) {
+      throw createError('No delivery PIN has been issued for this order; the customer must issue one', 409);
+    }
+    if (order.deliveryPin) {
+      await this.verifyPin(order.deliveryPin, submission.pin, context.actor);
+    }
+
+    const keys = await this.storeFiles(orderId, submission);
+
+    try {
+      const delivered = await lifecycleService.deliverOrder(orderId, context, async (tx) => {
+        await tx.proofOfDelivery.create({
+          data: {
+            orderId,
+            transporterId: submission.transporterId,
+            recipientName: submission.recipientName,
+            signatureKey: keys.signature,
+            photoKeys: keys.photos,
+            latitude: submission.latitude,
+            longitude: submission.longitude,
+            accuracyMeters: submission.accuracyMeters,
+            distanceMeters: Math.round(distanceMeters * 10) / 10,
+            pinVerified: Boolean(order.deliveryPin),
+            capturedAt: submission.capturedAt,
+          },
+        });
+      });
+
+      logger.info('Proof of delivery accepted', { orderId, transporterId: submission.transporterId, distanceMeters });
+      return delivered;
+    } catch (error) {
+      // The order was not delivered, so the uploaded files belong to nothing
+      await this.deleteFiles([keys.signature, ...keys.photos]);
+
+      if (error instanceof Error && (error as any).statusCode) {
+        throw error;
+      }
+      logger.error('Failed to record proof of delivery', { error, orderId });
+      throw createError('Failed to record proof of delivery', 500);
+    }
+  }
+
+  async getProof(orderId: string): Promise<ProofOfDelivery> {
+    const proof = await prisma.proofOfDelivery.findUnique({ where: { orderId } });
+
+    if (!proof) {
+      throw createError('Proof of delivery not found', 404);
+    }
+
+    return proof;
+  }
+
+  // `photoIndex` selects a photo; the signature is returned without it
+  async getFile(orderId: string, photoIndex?: number): Promise<StoredBlob> {
+    const proof = await this.getProof(orderId);
+    const key = photoIndex === undefined ? proof.signatureKey : proof.photoKeys[photoIndex];
+
+    const blob = key ? await blobStores.resolve().get(key) : null;
+    if (!blob) {
+      throw createError('File not found', 404);
+    }
+
+    return blob;
+  }
+
+  async getPinEvents(orderId: string): Promise<DeliveryPinEvent[]> {
+    return prisma.deliveryPinEvent.findMany({
+      where: { orderId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Each entry reserves an attempt before the PIN is compared, so parallel
+   * guesses cannot get past the limit. Reaching POD_PIN_MAX_ATTEMPTS locks
+   * entry for POD_PIN_LOCKOUT_MINUTES, after which the count starts over.
+   */
+  private async verifyPin(deliveryPin: DeliveryPin, pin: string | undefined, actor?: string): Promise<void> {
+    const { orderId } = deliveryPin;
+    if (!pin) {
+      throw createError('Delivery PIN is required', 422);
+    }
+
+    const now = new Date();
+    const reserved = await prisma.deliveryPin.updateMany({
+      where: {
+        orderId,
+        attempts: { lt: maxPinAttempts() },
+        OR: [{ lockedUntil: null }, { lockedUntil: { lte: now } }],
+      },
+      data: { attempts: { increment: 1 } },
+    });
+
+    if (reserved.count === 0) {
+      const current = await prisma.deliveryPin.findUnique({ where: { orderId }, select: { lockedUntil: true } });
+      const lockedUntil = current?.lockedUntil ?? null;
+      const until = lockedUntil && isLocked(lockedUntil, now) ? ` until ${lockedUntil.toISOString()}` : '';
+      throw createError(`Delivery PIN entry is locked${until}`, 423);
+    }
+
+    if (pinMatches(pinSecret(), orderId, pin, deliveryPin.hash)) {
+      await prisma.deliveryPinEvent.create({ data: { orderId, type: DeliveryPinEventType.VERIFIED, actor } });
+      return;
+    }
+
+    const { attempts } = await prisma.deliveryPin.findUniqueOrThrow({ where: { orderId }, select: { attempts: true } });
+    await prisma.deliveryPinEvent.create({ data: { orderId, type: DeliveryPinEventType.REJECTED, actor } });
+
+    const outcome = afterFailedAttempt(attempts, maxPinAttempts(), pinLockoutMinutes(), now);
+    if (outcome.lockedUntil) {
+      await prisma.$transaction([
+        prisma.deliveryPin.update({
+          where: { orderId },
+          data: { attempts: 0, lockedUntil: outcome.lockedUntil },
+        }),
+        prisma.deliveryPinEvent.create({ data: { orderId, type: DeliveryPinEventType.LOCKED_OUT, actor } }),
+      ]);
+
+      logger.warn('Delivery PIN entry locked', { orderId, lockedUntil: outcome.lockedUntil });
+      throw createError(`Incorrect delivery PIN; entry is locked until ${outcome.lockedUntil.toISOString()}`, 423);
+    }
+
+    throw createError(`Incorrect delivery PIN; ${outcome.remaining} attempt${outcome.remaining === 1 ? '' : 's'} left`, 422);
+  }
+
+  private async storeFiles(orderId: string, submission: ProofOfDeliverySubmission) {
+    const store = blobStores.resolve();
+    const prefix = `proofs/${orderId}/${crypto.randomUUID()}`;
+    const keyFor = (name: string, image: UploadedImage) => `${prefix}/${name}.${POD_IMAGE_TYPES[image.contentType] || 'bin'}`;
+
+    const signature = keyFor('signature', submission.signature);
+    const photos = submission.photos.map((photo, index) => keyFor(`photo-${index + 1}`, photo));
+
+    try {
+      await store.put(signature, submission.signature.data, submission.signature.contentType);
+      await Promise.all(submission.photos.map((photo, index) => store.put(photos[index], photo.data, photo.contentType)));
+    } catch (error) {
+      await this.deleteFiles([signature, ...photos]);
+      logger.error('Failed to store proof of delivery files', { error, orderId });
+      throw createError('Failed to store proof of delivery files', 500);
+    }
+
+    return { signature, photos };
+  }
+
+  private async deleteFiles(keys: string[]): Promise<void> {
+    const store = blobStores.resolve();
+
+    await Promise.all(keys.map(key => store.delete(key).catch((error) => {
+      logger.warn('Failed to delete proof of delivery file', { error, key });
+    })));
+  }
+}
+
+export const proofOfDeliveryService = new ProofOfDeliveryService();
@@ -0,0 +1,149 @@
+import { Prisma, Quote, VehicleType } from '@prisma/client';
+import prisma from '@/config/database';
+import { pricingService, PriceQuote } from '@/services/pricingService';
+import { CreateOrderData } from '@/services/orderService';
+import { quoteService } from './quoteService';
+
+jest.mock('@/config/database', () => ({
+  __esModule: true,
+  default: { quote: { create: jest.fn(), findUnique: jest.fn() } },
+}));
+
+jest.mock('@/services/pricingService', () => ({
+  pricingService: { quote: jest.fn() },
+}));
+
+const prismaMock = prisma as unknown as {
+  quote: { create: jest.Mock; findUnique: jest.Mock };
+};
+const quotePrice = pricingService.quote as jest.Mock;
+
+const QUOTED_AT = new Date('2024-05-01T10:00:00Z');
+
+const orderData: CreateOrderData = {
+  customerId: 'customer-1',
+  pickupLocation: { latitude: 52.52, longitude: 13.405, address: 'Alexanderplatz 1, Berlin' },
+  deliveryLocation: { latitude: 52.5, longitude: 13.45, address: 'Warschauer Str. 10, Berlin' },
+  pickupTime: new Date('2024-05-02T08:00:00Z'),
+  weight: 12,
+  dimensions: { length: 40, width: 30, height: 20 },
+  specialRequirements: 'fragile',
+};
+
+const price: PriceQuote = {
+  total: 48.5,
+  currency: 'EUR',
+  vehicleType: VehicleType.VAN,
+  zoneCode: 'BER',
+  rateCardId: 'rate-card-1',
+  rateCardVersion: 3,
+  distanceKm: 6.2,
+  distanceProvider: 'straight_line',
+  chargeableWeightKg: 12,
+  breakdown: [{ code: 'BASE', label: 'Base fare', amount: 48.5 }],
+  quotedAt: QUOTED_AT,
+};
+
+// Issues a quote through the service and returns the row it stored, as the database would hand it back
+const issueQuote = async (): Promise<Quote> => {
+  quotePrice.mockResolvedValue(price);
+  prismaMock.quote.create.mockImplementation(({ data }: { data: Prisma.QuoteUncheckedCreateInput }) => ({
+    ...data,
+    id: 'quote-1',
+    orderId: null,
+    createdAt: QUOTED_AT,
+  }));
+
+  await quoteService.createQuote(orderData);
+  const stored = prismaMock.quote.create.mock.results[0].value as Quote;
+  // Round trip through jsonb
+  return JSON.parse(JSON.stringify(stored), (key, value) => (key === 'expiresAt' ? new Date(value) : value));
+};
+
+describe('QuoteService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.QUOTE_TTL_MINUTES = '15';
+  });
+
+  it('does not return the signature to callers', async () => {
+    quotePrice.mockResolvedValue(price);
+    prismaMock.quote.create.mockImplementation(({ data }) => ({ ...data, id: 'quote-1', orderId: null }));
+
+    const quote = await quoteService.createQuote(orderData);
+
+    expect(quote).not.toHaveProperty('signature');
+    expect(quote.expiresAt).toEqual(new Date('2024-05-01T10:15:00Z'));
+  });
+
+  it('returns the locked order details and price of a valid quote', async () => {
+    prismaMock.quote.findUnique.mockResolvedValue(await issueQuote());
+
+    const redeemable = await quoteService.getRedeemable('quote-1', new Date('2024-05-01T10:10:00Z'));
+
+    expect(redeemable.order).toMatchObject({
+      customerId: 'customer-1',
+      pickupTime: orderData.pickupTime,
+      deliveryTime: undefined,
+      specialRequirements: 'fragile',
+    });
+    expect(redeemable.price.total).toBe(48.5);
+    expect(redeemable.price.quotedAt).toEqual(QUOTED_AT);
+  });
+
+  it('refuses a quote at or after its expiry', async () => {
+    prismaMock.quote.findUnique.mockResolvedValue(await issueQuote());
+
+    await expect(quoteService.getRedeemable('quote-1', new Date('2024-05-01T10:15:00Z')))
+      .rejects.toMatchObject({ statusCode: 410 });
+  });
+
+  it('refuses a quote that has already been used', async () => {
+    prismaMock.quote.findUnique.mockResolvedValue({ ...(await issueQuote()), orderId: 'order-1' });
+
+    await expect(quoteService.getRedeemable('quote-1', QUOTED_AT)).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('refuses a quote whose price was edited after signing', async () => {
+    prismaMock.quote.findUnique.mockResolvedValue({ ...(await issueQuote()), total: 1 });
+
+    await expect(quoteService.getRedeemable('quote-1', QUOTED_AT)).rejects.toMatchObject({ statusCode: 422 });
+  });
+
+  it('refuses a quote whose expiry was extended after signing', async () => {
+    const quote = await issueQuote();
+    prismaMock.quote.findUnique.mockResolvedValue({ ...quote, expiresAt: new Date('2024-06-01T00:00:00Z') });
+
+    await expect(quoteService.getRedeemable('quote-1', new Date('2024-05-02T00:00:00Z')))
+      .rejects.toMatchObject({ statusCode: 422 });
+  });
+
+  it('refuses a quote signed with another secret', async () => {
+    const quote = await issueQuote();
+    process.env.QUOTE_SIGNING_SECRET = 'rotated-secret';
+
+    try {
+      prismaMock.quote.findUnique.mockResolvedValue(quote);
+      await expect(quoteService.getRedeemable('quote-1', QUOTED_AT)).rejects.toMatchObject({ statusCode: 422 });
+    } finally {
+      delete process.env.QUOTE_SIGNING_SECRET;
+    }
+  });
+
+  it('refuses a malformed signature', async () => {
+    prismaMock.quote.findUnique.mockResolvedValue({ ...(await issueQuote()), signature: 'abc' });
+
+    await expect(quoteService.getRedeemable('quote-1', QUOTED_AT)).rejects.toMatchObject({ statusCode: 422 });
+  });
+
+  it('fails redemption when another order claimed the quote first', async () => {
+    const tx = { quote: { updateMany: jest.fn().mockResolvedValue({ count: 0 }) } };
+
+    await expect(quoteService.redeem(tx as unknown as Prisma.TransactionClient, 'quote-1', 'order-2', QUOTED_AT))
+      .rejects.toMatchObject({ statusCode: 409 });
+    expect(tx.quote.updateMany).toHaveBeenCalledWith({
+      where: { id: 'quote-1', orderId: null, expiresAt: { gt: QUOTED_AT } },
+      data: { orderId: 'order-2' },
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import crypto from 'crypto';
+import { Prisma, Quote } from '@prisma/client';
+import prisma from '@/config/database';
+import { createError } from '@/middleware/errorHandler';
+import { logger } from '@/utils/logger';
+import { pricingService, PriceQuote } from '@/services/pricingService';
+import { CreateOrderData } from '@/services/orderService';
+
+export type PublicQuote = Omit<Quote, 'signature'>;
+
+export interface RedeemableQuote {
+  order: CreateOrderData;
+  price: PriceQuote;
+}
+
+const quoteTtlMinutes = () => parseInt(process.env.QUOTE_TTL_MINUTES || '15');
+// Read on use: services are constructed before dotenv runs in index.ts
+const signingSecret = () => process.env.QUOTE_SIGNING_SECRET || (process.env.JWT_SECRET as string);
+
+// JSON with object keys sorted, so a value signs the same after a round trip through jsonb
+const canonicalJson = (value: unknown): string => {
+  const sortKeys = (node: unknown): unknown => {
+    if (Array.isArray(node)) return node.map(sortKeys);
+    if (node && typeof node === 'object') {
+      return Object.keys(node as Record<string, unknown>)
+        .sort()
+        .reduce<Record<string, unknown>>((sorted, key) => {
+          sorted[key] = sortKeys((node as Record<string, unknown>)[key]);
+          return sorted;
+        }, {});
+    }
+    return node;
+  };
+
+  return JSON.stringify(sortKeys(JSON.parse(JSON.stringify(value))));
+};
+
+// The priced order details as stored on the quote; dates as ISO strings
+const toRequest = (data: CreateOrderData) => ({
+  customerId: data.customerId,
+  pickupLocation: data.pickupLocation,
+  deliveryLocation: data.deliveryLocation,
+  pickupTime: data.pickupTime.toISOString(),
+  deliveryTime: data.deliveryTime?.toISOString() ?? null,
+  weight: data.weight,
+  dimensions: data.dimensions,
+  specialRequirements: data.specialRequirements ?? null,
+  requiresDeliveryPin: data.requiresDeliveryPin ?? false,
+});
+
+type QuoteRequestJson = ReturnType<typeof toRequest>;
+
+type SignedFields = Pick<Quote,
+  'customerId' | 'request' | 'total' | 'currency' | 'rateCardId' | 'rateCardVersion' | 'distanceKm' | 'breakdown' | 'expiresAt'>;
+
+const sign = (fields: SignedFields): string => crypto
+  .createHmac('sha256', signingSecret())
+  .update(canonicalJson({
+    customerId: fields.customerId,
+    request: fields.request,
+    total: fields.total,
+    currency: fields.currency,
+    rateCardId: fields.rateCardId,
+    rateCardVersion: fields.rateCardVersion,
+    distanceKm: fields.distanceKm,
+    breakdown: fields.breakdown,
+    expiresAt: fields.expiresAt.toISOString(),
+  }))
+  .digest('hex');
+
+const toPublicQuote = (quote: Quote): PublicQuote => {
+  const publicQuote: Partial<Quote> = { ...quote };
+  delete publicQuote.signature;
+  return publicQuote as PublicQuote;
+};
+
+export class QuoteService {
+  /**
+   * Prices the order and locks the price, breakdown, rate card version and
+   * routed distance for QUOTE_TTL_MINUTES. The stored quote is signed so
+   * an edited row is refused at redemption.
+   */
+  async createQuote(data: CreateOrderData): Promise<PublicQuote> {
+    try {
+      const price = await pricingService.quote(data);
+
+      const fields: SignedFields = {
+        customerId: data.customerId,
+        request: toRequest(data),
+        total: price.total,
+        currency: price.currency,
+        rateCardId: price.rateCardId,
+        rateCardVersion: price.rateCardVersion,
+        distanceKm: price.distanceKm,
+        breakdown: JSON.parse(JSON.stringify(price)),
+        expiresAt: new Date(price.quotedAt.getTime() + quoteTtlMinutes() * 60 * 1000),
+      };
+
+      const quote = await prisma.quote.create({
+        data: {
+          ...fields,
+          request: fields.request as Prisma.InputJsonValue,
+          breakdown: fields.breakdown as Prisma.InputJsonValue,
+          signature: sign(fields),
+        },
+      });
+
+      logger.info('Quote issued', { quoteId: quote.id, customerId: quote.customerId, total: quote.total });
+      return toPublicQuote(quote);
+    } catch (error) {
+      if (error instanceof Error && (error as any).statusCode) {
+        throw error;
+      }
+      logger.error('Failed to create quote', { error, customerId: data.customerId });
+      throw createError('Failed to create quote', 500);
+    }
+  }
+
+  async getQuote(id: string): Promise<PublicQuote> {
+    const quote = await prisma.quote.findUnique({ where: { id } });
+
+    if (!quote) {
+      throw createError('Quote not found', 404);
+    }
+
+    return toPublicQuote(quote);
+  }
+
+  /**
+   * Checks a quote can still be turned into an order and returns the order
+   * details and price it locked. Expired, already redeemed and tampered
+   * quotes are refused.
+   */
+  async getRedeemable(id: string, at: Date = new Date()): Promise<RedeemableQuote> {
+    const quote = await prisma.quote.findUnique({ where: { id } });
+
+    if (!quote) {
+      throw createError('Quote not found', 404);
+    }
+    if (quote.orderId) {
+      throw createError('Quote has already been used', 409);
+    }
+    if (quote.expiresAt <= at) {
+      throw createError('Quote has expired', 410);
+    }
+
+    const expected = Buffer.from(sign(quote), 'hex');
+    const actual = Buffer.from(quote.signature, 'hex');
+    if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+      logger.warn('Quote signature mismatch', { quoteId: id });
+      throw createError('Quote failed verification', 422);
+    }
+
+    const request = quote.request as unknown as QuoteRequestJson;
+    const price = quote.breakdown as unknown as PriceQuote;
+
+    return {
+      order: {
+        ...request,
+        pickupTime: new Date(request.pickupTime),
+        deliveryTime: request.deliveryTime ? new Date(request.deliveryTime) : undefined,
+        specialRequirements: request.specialRequirements ?? undefined,
+      },
+      price: { ...price, quotedAt: new Date(price.quotedAt) },
+    };
+  }
+
+  /**
+   * Marks the quote as used by the order, inside the order's transaction.
+   * Conditional on the quote being unused and unexpired, so two orders
+   * racing for one quote cannot both succeed.
+   */
+  async redeem(tx: Prisma.TransactionClient, id: string, orderId: string, at: Date = new Date()): Promise<void> {
+    const claimed = await tx.quote.updateMany({
+      where: { id, orderId: null, expiresAt: { gt: at } },
+      data: { orderId },
+    });
+
+    if (claimed.count === 0) {
+      throw createError('Quote is no longer valid', 409);
+    }
+  }
+}
+
+export const quoteService = new QuoteService();
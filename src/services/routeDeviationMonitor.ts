@@ -0,0 +1,145 @@
+import { Route, RouteEvent, RouteEventType, RouteStatus } from '@prisma/client';
+import prisma from '@/config/database';
+import { createError } from '@/middleware/errorHandler';
+import { logger } from '@/utils/logger';
+import { distanceToPath, GeoPoint } from '@/utils/geo';
+import { eventBus, TransporterLocationEvent } from '@/services/eventBus';
+import { routingService } from '@/services/routingService';
+
+const thresholdMeters = () => parseFloat(process.env.ROUTE_DEVIATION_THRESHOLD_M || '200');
+const cooldownMs = () => parseFloat(process.env.ROUTE_REROUTE_COOLDOWN_SECONDS || '120') * 1000;
+
+/**
+ * Watches live positions of transporters driving a route and compares each
+ * against the route's planned path. Leaving the path by more than
+ * ROUTE_DEVIATION_THRESHOLD_M is recorded as an OFF_ROUTE event and the
+ * route is recalculated from the current position, at most once every
+ * ROUTE_REROUTE_COOLDOWN_SECONDS. Returning to the path is recorded as
+ * BACK_ON_ROUTE. Both are published as `route.deviation` events.
+ */
+export class RouteDeviationMonitor {
+  // Transporters whose previous fix is still being checked
+  private readonly checking = new Set<string>();
+
+  start(): () => void {
+    return eventBus.on('transporter.location', event => this.handleLocation(event));
+  }
+
+  async getEvents(routeId: string): Promise<RouteEvent[]> {
+    try {
+      return await prisma.routeEvent.findMany({
+        where: { routeId },
+        orderBy: { createdAt: 'asc' },
+      });
+    } catch (error) {
+      logger.error('Failed to fetch route events', { error, routeId });
+      throw createError('Failed to fetch route events', 500);
+    }
+  }
+
+  async handleLocation(event: TransporterLocationEvent): Promise<void> {
+    // A fix arriving mid-check is dropped; the next one will be judged instead
+    if (this.checking.has(event.transporterId)) return;
+    this.checking.add(event.transporterId);
+
+    try {
+      const routes = await prisma.route.findMany({
+        where: { transporterId: event.transporterId, status: RouteStatus.IN_PROGRESS },
+      });
+
+      for (const route of routes) {
+        await this.checkRoute(route, event);
+      }
+    } finally {
+      this.checking.delete(event.transporterId);
+    }
+  }
+
+  private async checkRoute(route: Route, fix: TransporterLocationEvent): Promise<void> {
+    const path = route.optimizedPath as unknown as GeoPoint[];
+    if (!Array.isArray(path) || path.length < 2) return;
+
+    const location = { latitude: fix.latitude, longitude: fix.longitude };
+    const deviationMeters = Math.round(distanceToPath(location, path) * 1000);
+    const offRoute = deviationMeters > thresholdMeters();
+
+    const last = await prisma.routeEvent.findFirst({
+      where: { routeId: route.id },
+      orderBy: { createdAt: 'desc' },
+    });
+    // A recalculated path starts at the transporter's position, so it is back on route
+    const wasOffRoute = last?.type === RouteEventType.OFF_ROUTE;
+
+    if (!offRoute) {
+      if (wasOffRoute) {
+        await this.recordDeviation(route, RouteEventType.BACK_ON_ROUTE, location, deviationMeters, fix.timestamp);
+      }
+      return;
+    }
+
+    if (!wasOffRoute) {
+      await this.recordDeviation(route, RouteEventType.OFF_ROUTE, location, deviationMeters, fix.timestamp);
+    }
+
+    const lastRecalculation = await prisma.routeEvent.findFirst({
+      where: { routeId: route.id, type: RouteEventType.RECALCULATED },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (lastRecalculation && Date.now() - lastRecalculation.createdAt.getTime() < cooldownMs()) {
+      logger.debug('Route recalculation on cooldown', { routeId: route.id, deviationMeters });
+      return;
+    }
+
+    try {
+      await routingService.recalculateRoute(route.id, location);
+    } catch (error) {
+      logger.warn('Automatic route recalculation failed', { error, routeId: route.id });
+      return;
+    }
+
+    await prisma.routeEvent.create({
+      data: {
+        routeId: route.id,
+        type: RouteEventType.RECALCULATED,
+        latitude: location.latitude,
+        longitude: location.longitude,
+        deviationMeters,
+      },
+    });
+
+    logger.info('Off-route transporter rerouted', { routeId: route.id, transporterId: route.transporterId, deviationMeters });
+  }
+
+  private async recordDeviation(
+    route: Route,
+    type: RouteEventType,
+    location: GeoPoint,
+    deviationMeters: number,
+    timestamp: Date
+  ): Promise<void> {
+    await prisma.routeEvent.create({
+      data: {
+        routeId: route.id,
+        type,
+        latitude: location.latitude,
+        longitude: location.longitude,
+        deviationMeters,
+      },
+    });
+
+    eventBus.emit('route.deviation', {
+      routeId: route.id,
+      orderId: route.orderId,
+      transporterId: route.transporterId,
+      type,
+      ...location,
+      deviationMeters,
+      timestamp,
+    });
+
+    logger.info('Route deviation recorded', { routeId: route.id, type, deviationMeters });
+  }
+}
+
+export const routeDeviationMonitor = new RouteDeviationMonitor();
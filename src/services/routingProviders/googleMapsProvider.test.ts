@@ -0,0 +1,54 @@
+import directions from './__fixtures__/googleDirections.json';
+import matrix from './__fixtures__/googleDistanceMatrix.json';
+import { parseGoogleMapsResponse, parseGoogleMatrixResponse } from './googleMapsProvider';
+
+describe('parseGoogleMapsResponse', () => {
+  it('builds the path from step starts plus the final destination', () => {
+    const parsed = parseGoogleMapsResponse(directions);
+
+    expect(parsed.path).toEqual([
+      { latitude: 52.517, longitude: 13.3888 },
+      { latitude: 52.52, longitude: 13.39 },
+      { latitude: 52.5294, longitude: 13.3976 },
+      { latitude: 52.5232, longitude: 13.4286 },
+    ]);
+  });
+
+  it('sums the legs, preferring the duration in traffic', () => {
+    const parsed = parseGoogleMapsResponse(directions);
+
+    expect(parsed.totalDistance).toBe(6);
+    expect(parsed.estimatedDuration).toBe(20);
+    expect(parsed.trafficConditions).toBe('real-time');
+  });
+
+  it('falls back to the typical duration without traffic data', () => {
+    const withoutTraffic = JSON.parse(JSON.stringify(directions));
+    withoutTraffic.routes[0].legs.forEach((leg: Record<string, unknown>) => delete leg.duration_in_traffic);
+
+    const parsed = parseGoogleMapsResponse(withoutTraffic);
+
+    expect(parsed.estimatedDuration).toBe(16);
+    expect(parsed.trafficConditions).toBe('estimated');
+  });
+
+  it('reports a failed request', () => {
+    expect(() => parseGoogleMapsResponse({ status: 'OVER_QUERY_LIMIT', routes: [] }))
+      .toThrow('Google Maps returned OVER_QUERY_LIMIT');
+    expect(() => parseGoogleMapsResponse({ status: 'OK', routes: [] })).toThrow('Google Maps returned no routes');
+  });
+});
+
+describe('parseGoogleMatrixResponse', () => {
+  it('converts elements to km and minutes with failed elements as Infinity', () => {
+    const parsed = parseGoogleMatrixResponse(matrix);
+
+    expect(parsed.distances).toEqual([[3.2, Infinity]]);
+    expect(parsed.durations).toEqual([[12, Infinity]]);
+  });
+
+  it('reports a failed request', () => {
+    expect(() => parseGoogleMatrixResponse({ status: 'REQUEST_DENIED' }))
+      .toThrow('Google Distance Matrix returned REQUEST_DENIED');
+  });
+});
@@ -0,0 +1,122 @@
+import axios from 'axios';
+import { RouteOptimizationRequest, RouteWaypoint } from '@/services/routingService';
+import { GeoPoint } from '@/utils/geo';
+import {
+  MatrixLimits,
+  MatrixOptions,
+  ProviderMatrix,
+  ProviderRoute,
+  RoutingProvider,
+  getProviderTimeoutMs,
+} from './types';
+
+const DIRECTIONS_URL = 'https://maps.googleapis.com/maps/api/directions/json';
+const DISTANCE_MATRIX_URL = 'https://maps.googleapis.com/maps/api/distancematrix/json';
+
+/**
+ * Parses a Directions API response. Kept free of I/O so recorded responses
+ * can be replayed against it.
+ */
+export const parseGoogleMapsResponse = (data: any): ProviderRoute => {
+  if (data?.status && data.status !== 'OK') {
+    throw new Error(`Google Maps returned ${data.status}`);
+  }
+
+  const route = data?.routes?.[0];
+  if (!route) {
+    throw new Error('Google Maps returned no routes');
+  }
+
+  const path: RouteWaypoint[] = [];
+  route.legs.forEach((leg: any) => {
+    leg.steps.forEach((step: any) => {
+      path.push({
+        latitude: step.start_location.lat,
+        longitude: step.start_location.lng,
+      });
+    });
+  });
+
+  const lastLeg = route.legs[route.legs.length - 1];
+  if (lastLeg) {
+    path.push({ latitude: lastLeg.end_location.lat, longitude: lastLeg.end_location.lng });
+  }
+
+  return {
+    path,
+    totalDistance: route.legs.reduce((sum: number, leg: any) => sum + leg.distance.value, 0) / 1000,
+    estimatedDuration: route.legs.reduce(
+      (sum: number, leg: any) => sum + (leg.duration_in_traffic || leg.duration).value, 0
+    ) / 60,
+    trafficConditions: route.legs[0]?.duration_in_traffic ? 'real-time' : 'estimated',
+  };
+};
+
+/**
+ * Parses a Distance Matrix API response; elements without an OK status are unreachable.
+ */
+export const parseGoogleMatrixResponse = (data: any): ProviderMatrix => {
+  if (data?.status !== 'OK') {
+    throw new Error(`Google Distance Matrix returned ${data?.status || 'an invalid response'}`);
+  }
+
+  const elements: any[][] = data.rows.map((row: any) => row.elements);
+
+  return {
+    distances: elements.map(row => row.map(element =>
+      element.status === 'OK' ? element.distance.value / 1000 : Infinity
+    )),
+    durations: elements.map(row => row.map(element =>
+      element.status === 'OK' ? (element.duration_in_traffic || element.duration).value / 60 : Infinity
+    )),
+  };
+};
+
+const formatPoints = (points: GeoPoint[]) => points.map(point => `${point.latitude},${point.longitude}`).join('|');
+
+export class GoogleMapsProvider implements RoutingProvider {
+  readonly name = 'google' as const;
+
+  // 100 elements per request
+  readonly matrixLimits: MatrixLimits = { maxOrigins: 10, maxDestinations: 10 };
+
+  private get apiKey() {
+    return process.env.GOOGLE_MAPS_API_KEY;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.apiKey);
+  }
+
+  async getRoute(request: RouteOptimizationRequest): Promise<ProviderRoute> {
+    const waypoints = request.waypoints?.map(wp => `${wp.latitude},${wp.longitude}`).join('|') || '';
+
+    const response = await axios.get(DIRECTIONS_URL, {
+      timeout: getProviderTimeoutMs(),
+      params: {
+        origin: `${request.origin.latitude},${request.origin.longitude}`,
+        destination: `${request.destination.latitude},${request.destination.longitude}`,
+        waypoints: waypoints || undefined,
+        traffic_model: request.trafficModel || 'best_guess',
+        departure_time: request.departureTime ? Math.floor(request.departureTime.getTime() / 1000) : 'now',
+        key: this.apiKey,
+      },
+    });
+
+    return parseGoogleMapsResponse(response.data);
+  }
+
+  async getMatrix(origins: GeoPoint[], destinations: GeoPoint[], options: MatrixOptions): Promise<ProviderMatrix> {
+    const response = await axios.get(DISTANCE_MATRIX_URL, {
+      timeout: getProviderTimeoutMs(),
+      params: {
+        origins: formatPoints(origins),
+        destinations: formatPoints(destinations),
+        departure_time: options.departureTime ? Math.floor(options.departureTime.getTime() / 1000) : 'now',
+        key: this.apiKey,
+      },
+    });
+
+    return parseGoogleMatrixResponse(response.data);
+  }
+}
@@ -0,0 +1,38 @@
+import route from './__fixtures__/graphHopperRoute.json';
+import matrix from './__fixtures__/graphHopperMatrix.json';
+import { parseGraphHopperMatrixResponse, parseGraphHopperResponse } from './graphHopperProvider';
+
+describe('parseGraphHopperResponse', () => {
+  it('converts the points to waypoints, metres to km and milliseconds to minutes', () => {
+    const parsed = parseGraphHopperResponse(route);
+
+    expect(parsed.path).toEqual([
+      { latitude: 52.517033, longitude: 13.388798 },
+      { latitude: 52.52, longitude: 13.39 },
+      { latitude: 52.529432, longitude: 13.397631 },
+    ]);
+    expect(parsed.totalDistance).toBeCloseTo(3.2147);
+    expect(parsed.estimatedDuration).toBe(9.2);
+  });
+
+  it('reports the message of a failed request', () => {
+    expect(() => parseGraphHopperResponse({ message: 'Cannot find point 0: 91.0,13.4' }))
+      .toThrow('GraphHopper returned no paths: Cannot find point 0: 91.0,13.4');
+  });
+});
+
+describe('parseGraphHopperMatrixResponse', () => {
+  it('converts the matrix to km and minutes with unreachable pairs as Infinity', () => {
+    const parsed = parseGraphHopperMatrixResponse(matrix);
+
+    expect(parsed.distances[0][1]).toBeCloseTo(3.2147);
+    expect(parsed.distances[1][0]).toBeCloseTo(3.3012);
+    expect(parsed.distances[1][1]).toBe(Infinity);
+    expect(parsed.durations).toEqual([[0, 9.2], [9.5, Infinity]]);
+  });
+
+  it('reports a response without a matrix', () => {
+    expect(() => parseGraphHopperMatrixResponse({ message: 'Profile truck not found' }))
+      .toThrow('GraphHopper returned no matrix: Profile truck not found');
+  });
+});
@@ -0,0 +1,112 @@
+import axios from 'axios';
+import { RouteOptimizationRequest } from '@/services/routingService';
+import { GeoPoint } from '@/utils/geo';
+import {
+  MatrixLimits,
+  MatrixOptions,
+  ProviderMatrix,
+  ProviderRoute,
+  RoutingProvider,
+  getProviderTimeoutMs,
+} from './types';
+
+// GraphHopper profile per vehicle type; trucks get truck restrictions where the server has them
+const VEHICLE_PROFILES: Record<string, string> = {
+  MOTORCYCLE: 'scooter',
+  CAR: 'car',
+  VAN: 'small_truck',
+  TRUCK_SMALL: 'small_truck',
+  TRUCK_MEDIUM: 'truck',
+  TRUCK_LARGE: 'truck',
+};
+
+/**
+ * Parses a GraphHopper `/route` response requested with unencoded points.
+ */
+export const parseGraphHopperResponse = (data: any): ProviderRoute => {
+  const route = data?.paths?.[0];
+  if (!route) {
+    throw new Error(`GraphHopper returned no paths${data?.message ? `: ${data.message}` : ''}`);
+  }
+
+  return {
+    path: route.points.coordinates.map((coord: number[]) => ({
+      latitude: coord[1],
+      longitude: coord[0],
+    })),
+    totalDistance: route.distance / 1000,
+    estimatedDuration: route.time / 60000,
+    trafficConditions: 'estimated',
+  };
+};
+
+/**
+ * Parses a GraphHopper `/matrix` response requested with distances and times.
+ */
+export const parseGraphHopperMatrixResponse = (data: any): ProviderMatrix => {
+  if (!data?.distances || !data?.times) {
+    throw new Error(`GraphHopper returned no matrix${data?.message ? `: ${data.message}` : ''}`);
+  }
+
+  return {
+    distances: data.distances.map((row: Array<number | null>) => row.map(value => (value === null ? Infinity : value / 1000))),
+    durations: data.times.map((row: Array<number | null>) => row.map(value => (value === null ? Infinity : value / 60))),
+  };
+};
+
+/**
+ * GraphHopper, either self-hosted or the hosted API (GRAPHHOPPER_API_KEY).
+ */
+export class GraphHopperProvider implements RoutingProvider {
+  readonly name = 'graphhopper' as const;
+
+  readonly matrixLimits: MatrixLimits = { maxOrigins: 50, maxDestinations: 50 };
+
+  private get baseUrl() {
+    return process.env.GRAPHHOPPER_BASE_URL?.replace(/\/+$/, '');
+  }
+
+  private get apiKey() {
+    return process.env.GRAPHHOPPER_API_KEY;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.baseUrl);
+  }
+
+  async getRoute(request: RouteOptimizationRequest): Promise<ProviderRoute> {
+    const params = new URLSearchParams();
+    [request.origin, ...(request.waypoints || []), request.destination].forEach(point => {
+      params.append('point', `${point.latitude},${point.longitude}`);
+    });
+    params.append('profile', VEHICLE_PROFILES[request.vehicleType] || 'car');
+    params.append('points_encoded', 'false');
+    if (this.apiKey) {
+      params.append('key', this.apiKey);
+    }
+
+    const response = await axios.get(`${this.baseUrl}/route`, {
+      timeout: getProviderTimeoutMs(),
+      params,
+      validateStatus: status => status < 500,
+    });
+
+    return parseGraphHopperResponse(response.data);
+  }
+
+  async getMatrix(origins: GeoPoint[], destinations: GeoPoint[], options: MatrixOptions): Promise<ProviderMatrix> {
+    const response = await axios.post(`${this.baseUrl}/matrix`, {
+      from_points: origins.map(point => [point.longitude, point.latitude]),
+      to_points: destinations.map(point => [point.longitude, point.latitude]),
+      out_arrays: ['distances', 'times'],
+      profile: VEHICLE_PROFILES[options.vehicleType || ''] || 'car',
+      fail_fast: false,
+    }, {
+      timeout: getProviderTimeoutMs(),
+      params: this.apiKey ? { key: this.apiKey } : undefined,
+      validateStatus: status => status < 500,
+    });
+
+    return parseGraphHopperMatrixResponse(response.data);
+  }
+}
@@ -0,0 +1,69 @@
+import { RouteOptimizationRequest } from '@/services/routingService';
+import { GoogleMapsProvider } from './googleMapsProvider';
+import { MapboxProvider } from './mapboxProvider';
+import { OsrmProvider } from './osrmProvider';
+import { GraphHopperProvider } from './graphHopperProvider';
+import { StraightLineProvider } from './straightLineProvider';
+import { RoutingProvider, RoutingProviderName, ROUTING_PROVIDER_NAMES } from './types';
+
+export * from './types';
+
+const DEFAULT_CHAIN: RoutingProviderName[] = ['google', 'mapbox', 'osrm', 'graphhopper'];
+
+const isProviderName = (name: string): name is RoutingProviderName =>
+  (ROUTING_PROVIDER_NAMES as string[]).includes(name);
+
+const parseNames = (value: string | undefined): RoutingProviderName[] =>
+  (value || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(isProviderName);
+
+export class RoutingProviderRegistry {
+  private readonly providers = new Map<RoutingProviderName, RoutingProvider>();
+
+  register(provider: RoutingProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  get(name: RoutingProviderName): RoutingProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  /**
+   * Providers to try for a request, in order: the one named on the request,
+   * then the per-vehicle-type override (ROUTING_PROVIDER_BY_VEHICLE, e.g.
+   * "TRUCK_LARGE:graphhopper,MOTORCYCLE:osrm"), then ROUTING_PROVIDER_CHAIN.
+   * Unconfigured providers are skipped and straight-line always comes last.
+   */
+  resolveChain(request: Pick<RouteOptimizationRequest, 'provider' | 'vehicleType'>): RoutingProvider[] {
+    const names: RoutingProviderName[] = [];
+
+    if (request.provider) {
+      names.push(request.provider);
+    }
+
+    const vehicleOverride = (process.env.ROUTING_PROVIDER_BY_VEHICLE || '')
+      .split(',')
+      .map(entry => entry.split(':').map(part => part.trim()))
+      .find(([vehicleType]) => vehicleType === request.vehicleType);
+    if (vehicleOverride) {
+      names.push(...parseNames(vehicleOverride[1]));
+    }
+
+    const chain = parseNames(process.env.ROUTING_PROVIDER_CHAIN);
+    names.push(...(chain.length > 0 ? chain : DEFAULT_CHAIN), 'straight_line');
+
+    return [...new Set(names)]
+      .map(name => this.providers.get(name))
+      .filter((provider): provider is RoutingProvider => Boolean(provider?.isConfigured()));
+  }
+}
+
+export const routingProviders = new RoutingProviderRegistry();
+
+routingProviders.register(new GoogleMapsProvider());
+routingProviders.register(new MapboxProvider());
+routingProviders.register(new OsrmProvider());
+routingProviders.register(new GraphHopperProvider());
+routingProviders.register(new StraightLineProvider());
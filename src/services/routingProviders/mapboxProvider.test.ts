@@ -0,0 +1,33 @@
+import directions from './__fixtures__/mapboxDirections.json';
+import matrix from './__fixtures__/mapboxMatrix.json';
+import { parseMapboxMatrixResponse, parseMapboxResponse } from './mapboxProvider';
+
+describe('parseMapboxResponse', () => {
+  it('converts the geometry to waypoints and metres and seconds to km and minutes', () => {
+    const parsed = parseMapboxResponse(directions);
+
+    expect(parsed.path).toHaveLength(3);
+    expect(parsed.path[0]).toEqual({ latitude: 52.517033, longitude: 13.388798 });
+    expect(parsed.totalDistance).toBeCloseTo(3.2104);
+    expect(parsed.estimatedDuration).toBeCloseTo(9.01);
+  });
+
+  it('reports a failed request', () => {
+    expect(() => parseMapboxResponse({ code: 'NoRoute', routes: [] })).toThrow('Mapbox returned NoRoute');
+    expect(() => parseMapboxResponse({ code: 'Ok', routes: [] })).toThrow('Mapbox returned no routes');
+  });
+});
+
+describe('parseMapboxMatrixResponse', () => {
+  it('converts the matrix to km and minutes with unreachable pairs as Infinity', () => {
+    const parsed = parseMapboxMatrixResponse(matrix);
+
+    expect(parsed.distances[0][1]).toBeCloseTo(3.2104);
+    expect(parsed.distances[1][0]).toBe(Infinity);
+    expect(parsed.durations[1][0]).toBeCloseTo(9.2533, 3);
+  });
+
+  it('reports a failed request', () => {
+    expect(() => parseMapboxMatrixResponse({ code: 'InvalidInput' })).toThrow('Mapbox Matrix returned InvalidInput');
+  });
+});
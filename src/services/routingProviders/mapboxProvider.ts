@@ -0,0 +1,97 @@
+import axios from 'axios';
+import { RouteOptimizationRequest } from '@/services/routingService';
+import { GeoPoint } from '@/utils/geo';
+import { MatrixLimits, ProviderMatrix, ProviderRoute, RoutingProvider, getProviderTimeoutMs } from './types';
+
+const DIRECTIONS_URL = 'https://api.mapbox.com/directions/v5/mapbox';
+const MATRIX_URL = 'https://api.mapbox.com/directions-matrix/v1/mapbox';
+
+/**
+ * Parses a Mapbox Directions response requested with geojson geometries.
+ */
+export const parseMapboxResponse = (data: any): ProviderRoute => {
+  if (data?.code && data.code !== 'Ok') {
+    throw new Error(`Mapbox returned ${data.code}`);
+  }
+
+  const route = data?.routes?.[0];
+  if (!route) {
+    throw new Error('Mapbox returned no routes');
+  }
+
+  return {
+    path: route.geometry.coordinates.map((coord: number[]) => ({
+      latitude: coord[1],
+      longitude: coord[0],
+    })),
+    totalDistance: route.distance / 1000,
+    estimatedDuration: route.duration / 60,
+    trafficConditions: 'estimated',
+  };
+};
+
+/**
+ * Parses a Matrix API response requested with distance and duration annotations.
+ */
+export const parseMapboxMatrixResponse = (data: any): ProviderMatrix => {
+  if (data?.code !== 'Ok') {
+    throw new Error(`Mapbox Matrix returned ${data?.code || 'an invalid response'}`);
+  }
+
+  return {
+    distances: data.distances.map((row: Array<number | null>) => row.map(value => (value === null ? Infinity : value / 1000))),
+    durations: data.durations.map((row: Array<number | null>) => row.map(value => (value === null ? Infinity : value / 60))),
+  };
+};
+
+export class MapboxProvider implements RoutingProvider {
+  readonly name = 'mapbox' as const;
+
+  // 25 coordinates per request, sources and destinations combined
+  readonly matrixLimits: MatrixLimits = { maxOrigins: 12, maxDestinations: 13 };
+
+  private get accessToken() {
+    return process.env.MAPBOX_ACCESS_TOKEN;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.accessToken);
+  }
+
+  async getRoute(request: RouteOptimizationRequest): Promise<ProviderRoute> {
+    const coordinates = [
+      request.origin,
+      ...(request.waypoints || []),
+      request.destination,
+    ].map(point => `${point.longitude},${point.latitude}`).join(';');
+
+    const response = await axios.get(`${DIRECTIONS_URL}/driving/${coordinates}`, {
+      timeout: getProviderTimeoutMs(),
+      params: {
+        access_token: this.accessToken,
+        overview: 'full',
+        geometries: 'geojson',
+      },
+    });
+
+    return parseMapboxResponse(response.data);
+  }
+
+  async getMatrix(origins: GeoPoint[], destinations: GeoPoint[]): Promise<ProviderMatrix> {
+    const coordinates = [...origins, ...destinations]
+      .map(point => `${point.longitude},${point.latitude}`)
+      .join(';');
+
+    const response = await axios.get(`${MATRIX_URL}/driving/${coordinates}`, {
+      timeout: getProviderTimeoutMs(),
+      params: {
+        access_token: this.accessToken,
+        sources: origins.map((_, index) => index).join(';'),
+        destinations: destinations.map((_, index) => origins.length + index).join(';'),
+        annotations: 'distance,duration',
+      },
+    });
+
+    return parseMapboxMatrixResponse(response.data);
+  }
+}
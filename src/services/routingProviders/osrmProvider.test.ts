@@ -0,0 +1,44 @@
+import route from './__fixtures__/osrmRoute.json';
+import table from './__fixtures__/osrmTable.json';
+import { parseOsrmResponse, parseOsrmTableResponse } from './osrmProvider';
+
+describe('parseOsrmResponse', () => {
+  it('converts the geometry to waypoints and metres and seconds to km and minutes', () => {
+    const parsed = parseOsrmResponse(route);
+
+    expect(parsed.path).toEqual([
+      { latitude: 52.517033, longitude: 13.388798 },
+      { latitude: 52.529432, longitude: 13.397631 },
+      { latitude: 52.523239, longitude: 13.428554 },
+    ]);
+    expect(parsed.totalDistance).toBeCloseTo(4.7322);
+    expect(parsed.estimatedDuration).toBeCloseTo(10.5117, 3);
+    expect(parsed.trafficConditions).toBe('estimated');
+  });
+
+  it('reports the error code and message of a failed request', () => {
+    expect(() => parseOsrmResponse({ code: 'NoRoute', message: 'Impossible route between points' }))
+      .toThrow('OSRM returned NoRoute: Impossible route between points');
+  });
+
+  it('rejects a response without routes', () => {
+    expect(() => parseOsrmResponse({ code: 'Ok', routes: [] })).toThrow('OSRM returned no routes');
+  });
+
+  it('rejects a response that is not from OSRM', () => {
+    expect(() => parseOsrmResponse('<html>Bad gateway</html>')).toThrow('OSRM returned an invalid response');
+  });
+});
+
+describe('parseOsrmTableResponse', () => {
+  it('converts the table to km and minutes with unreachable pairs as Infinity', () => {
+    const parsed = parseOsrmTableResponse(table);
+
+    expect(parsed.distances).toEqual([[0, 5, Infinity], [4.9505, 0, 12]]);
+    expect(parsed.durations).toEqual([[0, 10, Infinity], [9.84, 0, 20]]);
+  });
+
+  it('reports a failed request', () => {
+    expect(() => parseOsrmTableResponse({ code: 'TooBig' })).toThrow('OSRM returned TooBig');
+  });
+});
@@ -0,0 +1,106 @@
+import axios from 'axios';
+import { RouteOptimizationRequest } from '@/services/routingService';
+import { GeoPoint } from '@/utils/geo';
+import { MatrixLimits, ProviderMatrix, ProviderRoute, RoutingProvider, getProviderTimeoutMs } from './types';
+
+/**
+ * Parses an OSRM `/route/v1` response requested with geojson geometries.
+ * Also works for any server speaking the OSRM HTTP API (e.g. Valhalla's
+ * OSRM-compatible output).
+ */
+export const parseOsrmResponse = (data: any): ProviderRoute => {
+  if (data?.code !== 'Ok') {
+    throw new Error(`OSRM returned ${data?.code || 'an invalid response'}${data?.message ? `: ${data.message}` : ''}`);
+  }
+
+  const route = data.routes?.[0];
+  if (!route) {
+    throw new Error('OSRM returned no routes');
+  }
+
+  return {
+    path: route.geometry.coordinates.map((coord: number[]) => ({
+      latitude: coord[1],
+      longitude: coord[0],
+    })),
+    totalDistance: route.distance / 1000,
+    estimatedDuration: route.duration / 60,
+    trafficConditions: 'estimated',
+  };
+};
+
+/**
+ * Parses an OSRM `/table/v1` response requested with distance and duration
+ * annotations.
+ */
+export const parseOsrmTableResponse = (data: any): ProviderMatrix => {
+  if (data?.code !== 'Ok') {
+    throw new Error(`OSRM returned ${data?.code || 'an invalid response'}${data?.message ? `: ${data.message}` : ''}`);
+  }
+
+  return {
+    distances: data.distances.map((row: Array<number | null>) => row.map(value => (value === null ? Infinity : value / 1000))),
+    durations: data.durations.map((row: Array<number | null>) => row.map(value => (value === null ? Infinity : value / 60))),
+  };
+};
+
+/**
+ * Self-hosted OSRM instance, for routing without a third-party API key.
+ * OSRM serves one profile per dataset, so vehicle type is not sent.
+ */
+export class OsrmProvider implements RoutingProvider {
+  readonly name = 'osrm' as const;
+
+  // osrm-routed's default --max-table-size is 100 coordinates
+  readonly matrixLimits: MatrixLimits = { maxOrigins: 50, maxDestinations: 50 };
+
+  private get baseUrl() {
+    return process.env.OSRM_BASE_URL?.replace(/\/+$/, '');
+  }
+
+  private get profile() {
+    return process.env.OSRM_PROFILE || 'driving';
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.baseUrl);
+  }
+
+  async getRoute(request: RouteOptimizationRequest): Promise<ProviderRoute> {
+    const coordinates = [
+      request.origin,
+      ...(request.waypoints || []),
+      request.destination,
+    ].map(point => `${point.longitude},${point.latitude}`).join(';');
+
+    const response = await axios.get(`${this.baseUrl}/route/v1/${this.profile}/${coordinates}`, {
+      timeout: getProviderTimeoutMs(),
+      params: {
+        overview: 'full',
+        geometries: 'geojson',
+      },
+      // OSRM reports NoRoute and friends with 400 and a JSON body
+      validateStatus: status => status < 500,
+    });
+
+    return parseOsrmResponse(response.data);
+  }
+
+  async getMatrix(origins: GeoPoint[], destinations: GeoPoint[]): Promise<ProviderMatrix> {
+    const coordinates = [...origins, ...destinations]
+      .map(point => `${point.longitude},${point.latitude}`)
+      .join(';');
+
+    const response = await axios.get(`${this.baseUrl}/table/v1/${this.profile}/${coordinates}`, {
+      timeout: getProviderTimeoutMs(),
+      params: {
+        sources: origins.map((_, index) => index).join(';'),
+        destinations: destinations.map((_, index) => origins.length + index).join(';'),
+        annotations: 'distance,duration',
+      },
+      validateStatus: status => status < 500,
+    });
+
+    return parseOsrmTableResponse(response.data);
+  }
+}
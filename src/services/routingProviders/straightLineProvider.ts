@@ -0,0 +1,40 @@
+import { RouteOptimizationRequest } from '@/services/routingService';
+import { GeoPoint, haversineDistance, pathDistance } from '@/utils/geo';
+import { MatrixLimits, ProviderMatrix, ProviderRoute, RoutingProvider } from './types';
+
+export const STRAIGHT_LINE_SPEED_KMH = 50;
+
+/**
+ * Great-circle distance through the requested points. Needs no network, so it
+ * always closes the fallback chain.
+ */
+export class StraightLineProvider implements RoutingProvider {
+  readonly name = 'straight_line' as const;
+
+  readonly matrixLimits: MatrixLimits = { maxOrigins: Infinity, maxDestinations: Infinity };
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async getRoute(request: RouteOptimizationRequest): Promise<ProviderRoute> {
+    const path = [request.origin, ...(request.waypoints || []), request.destination];
+    const distance = pathDistance(path);
+
+    return {
+      path,
+      totalDistance: distance,
+      estimatedDuration: (distance / STRAIGHT_LINE_SPEED_KMH) * 60,
+      trafficConditions: 'estimated',
+    };
+  }
+
+  async getMatrix(origins: GeoPoint[], destinations: GeoPoint[]): Promise<ProviderMatrix> {
+    const distances = origins.map(origin => destinations.map(destination => haversineDistance(origin, destination)));
+
+    return {
+      distances,
+      durations: distances.map(row => row.map(distance => (distance / STRAIGHT_LINE_SPEED_KMH) * 60)),
+    };
+  }
+}
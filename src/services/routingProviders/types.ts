@@ -0,0 +1,55 @@
+import { RouteOptimizationRequest, RouteWaypoint } from '@/services/routingService';
+import { GeoPoint } from '@/utils/geo';
+
+export type RoutingProviderName = 'google' | 'mapbox' | 'osrm' | 'graphhopper' | 'straight_line';
+
+export const ROUTING_PROVIDER_NAMES: RoutingProviderName[] = ['google', 'mapbox', 'osrm', 'graphhopper', 'straight_line'];
+
+/**
+ * What a provider returns for a route request. Costs are computed by
+ * RoutingService on top of this, so providers only report geometry, distance
+ * and duration.
+ */
+export interface ProviderRoute {
+  path: RouteWaypoint[];
+  totalDistance: number; // in km
+  estimatedDuration: number; // in minutes
+  trafficConditions: string;
+}
+
+/**
+ * Origins × destinations travel matrix. Unreachable pairs are Infinity.
+ */
+export interface ProviderMatrix {
+  distances: number[][]; // in km
+  durations: number[][]; // in minutes
+}
+
+export interface MatrixOptions {
+  vehicleType?: string;
+  departureTime?: Date;
+}
+
+// Largest request the upstream API accepts; bigger matrices are split into blocks
+export interface MatrixLimits {
+  maxOrigins: number;
+  maxDestinations: number;
+}
+
+export interface RoutingProvider {
+  readonly name: RoutingProviderName;
+
+  // Only providers that set this take part in matrix requests
+  readonly matrixLimits?: MatrixLimits;
+
+  // False when the credentials or base URL the provider needs are missing
+  isConfigured(): boolean;
+
+  getRoute(request: RouteOptimizationRequest): Promise<ProviderRoute>;
+
+  getMatrix?(origins: GeoPoint[], destinations: GeoPoint[], options: MatrixOptions): Promise<ProviderMatrix>;
+}
+
+// Upstream calls are bounded so a slow provider falls through to the next one in the chain
+export const getProviderTimeoutMs = (): number =>
+  parseInt(process.env.ROUTING_PROVIDER_TIMEOUT_MS || '10000', 10);
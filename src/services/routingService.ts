@@ -1,8 +1,16 @@
-import { Route, RouteStatus } from '@prisma/client';
+import { Order, OrderStatus, Prisma, Route, RouteStatus } from '@prisma/client';
 import prisma from '@/config/database';
 import { createError } from '@/middleware/errorHandler';
 import { logger } from '@/utils/logger';
-import axios from 'axios';
+import { haversineDistance, pathDistance } from '@/utils/geo';
+import { lifecycleService } from '@/services/lifecycleService';
+import { eventBus } from '@/services/eventBus';
+import { etaService } from '@/services/etaService';
+import { routingProviders, ProviderRoute, RoutingProviderName } from '@/services/routingProviders';
+import { trafficProviders, TrafficProviderName } from '@/services/trafficProviders';
+import { matchingService, Dimensions } from '@/services/matchingService';
+import { matrixService } from '@/services/matrixService';
+import { solveVrp, VrpStop, VrpStopKind } from '@/utils/vrp';
 
 export interface RouteWaypoint {
   latitude: number;
@@ -18,6 +26,7 @@ export interface RouteOptimizationRequest {
   vehicleType: string;
   trafficModel?: 'best_guess' | 'pessimistic' | 'optimistic';
   departureTime?: Date;
+  provider?: RoutingProviderName;
 }
 
 export interface OptimizedRoute {
@@ -28,8 +37,33 @@ export interface OptimizedRoute {
   estimatedTollCost: number;
   trafficConditions: string;
   waypoints: RouteWaypoint[];
+  provider: RoutingProviderName;
+  unassignedOrders?: Array<{ orderId: string; reason: string }>;
 }
 
+export interface MultiStopRequest {
+  deliveryPoints?: RouteWaypoint[];
+  orderIds?: string[];
+  departureTime?: Date;
+}
+
+export interface ScheduledStop extends RouteWaypoint {
+  type: VrpStopKind;
+  orderId?: string;
+  lateByMinutes: number;
+}
+
+export interface RouteFilters {
+  status?: RouteStatus;
+  transporterId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export type RouteWithRelations = Prisma.RouteGetPayload<{
+  include: { order: true; transporter: true };
+}>;
+
 export interface TrafficCondition {
   segment: {
     start: RouteWaypoint;
@@ -39,10 +73,21 @@ export interface TrafficCondition {
   delay: number; // additional minutes
 }
 
-export class RoutingService {
-  private readonly googleMapsApiKey = process.env.GOOGLE_MAPS_API_KEY;
-  private readonly mapboxToken = process.env.MAPBOX_ACCESS_TOKEN;
+export interface TrafficReport {
+  // Null when no traffic provider is configured or reachable
+  provider: TrafficProviderName | null;
+  conditions: TrafficCondition[];
+  totalDelay: number; // in minutes
+}
 
+// Minutes after Order.pickupTime within which the pickup should happen
+const PICKUP_WINDOW_MINUTES = 60;
+const STOP_SERVICE_MINUTES = 5;
+const OPTIMIZABLE_ORDER_STATUSES: OrderStatus[] = [OrderStatus.PENDING, OrderStatus.ASSIGNED, OrderStatus.IN_TRANSIT];
+// Orders in transit or later already have their route
+const ROUTABLE_ORDER_STATUSES: OrderStatus[] = [OrderStatus.PENDING, OrderStatus.ASSIGNED];
+
+export class RoutingService {
   async calculateOptimalRoute(request: RouteOptimizationRequest): Promise<OptimizedRoute> {
     try {
       logger.info('Calculating optimal route', { 
@@ -50,7 +95,7 @@ export class RoutingService {
         destination: request.destination 
       });
 
-      // Use external routing service (Google Maps or Mapbox)
+      // Walk the provider chain until one answers
       const routeData = await this.getExternalRoute(request);
       
       // Calculate costs
@@ -64,10 +109,12 @@ export class RoutingService {
         estimatedFuelCost: fuelCost,
         estimatedTollCost: tollCost,
         trafficConditions: routeData.trafficConditions,
-        waypoints: routeData.waypoints,
+        waypoints: request.waypoints || [],
+        provider: routeData.provider,
       };
 
       logger.info('Route calculation completed', {
+        provider: optimizedRoute.provider,
         distance: optimizedRoute.totalDistance,
         duration: optimizedRoute.estimatedDuration,
         cost: optimizedRoute.estimatedFuelCost + optimizedRoute.estimatedTollCost
@@ -75,13 +122,49 @@ export class RoutingService {
 
       return optimizedRoute;
     } catch (error) {
+      if (error instanceof Error && (error as any).statusCode) {
+        throw error;
+      }
       logger.error('Failed to calculate route', { error, request });
       throw createError('Failed to calculate optimal route', 500);
     }
   }
 
-  async createRoute(orderId: string, transporterId: string, optimizationRequest: RouteOptimizationRequest): Promise<Route> {
+  /**
+   * Checks that a route can be created for the order and transporter, so
+   * callers can refuse the request before any routing work is queued.
+   */
+  async assertRouteCreatable(orderId: string, transporterId: string): Promise<void> {
+    const [order, transporter] = await Promise.all([
+      prisma.order.findUnique({ where: { id: orderId }, include: { route: { select: { id: true } } } }),
+      prisma.transporter.findUnique({ where: { id: transporterId }, select: { id: true } }),
+    ]);
+
+    if (!order) {
+      throw createError('Order not found', 404);
+    }
+    if (!transporter) {
+      throw createError('Transporter not found', 404);
+    }
+    if (!ROUTABLE_ORDER_STATUSES.includes(order.status)) {
+      throw createError(`Cannot create a route for a ${order.status.toLowerCase()} order`, 409);
+    }
+    if (order.transporterId && order.transporterId !== transporterId) {
+      throw createError('Order is assigned to another transporter', 409);
+    }
+    if (order.route) {
+      throw createError('Order already has a route', 409);
+    }
+  }
+
+  async createRoute(
+    orderId: string,
+    transporterId: string,
+    optimizationRequest: RouteOptimizationRequest,
+    fleetPlanId?: string
+  ): Promise<Route> {
     try {
+      await this.assertRouteCreatable(orderId, transporterId);
       const optimizedRoute = await this.calculateOptimalRoute(optimizationRequest);
 
       const route = await prisma.route.create({
@@ -94,6 +177,7 @@ export class RoutingService {
           fuelCost: optimizedRoute.estimatedFuelCost,
           tollCost: optimizedRoute.estimatedTollCost,
           status: RouteStatus.PLANNED,
+          fleetPlanId,
         },
         include: {
           order: true,
@@ -104,40 +188,45 @@ export class RoutingService {
       logger.info('Route created successfully', { routeId: route.id, orderId, transporterId });
       return route;
     } catch (error) {
+      if (error instanceof Error && (error as any).statusCode) {
+        throw error;
+      }
       logger.error('Failed to create route', { error, orderId, transporterId });
       throw createError('Failed to create route', 500);
     }
   }
 
-  async updateRouteStatus(routeId: string, status: RouteStatus, actualDuration?: number): Promise<Route> {
+  async updateRouteStatus(routeId: string, status: RouteStatus): Promise<Route> {
     try {
-      const updateData: any = {
-        status,
-        updatedAt: new Date(),
-      };
-
-      if (actualDuration) {
-        updateData.actualDuration = actualDuration;
+      let route: Route;
+
+      // Starting a route also moves the order and transporter along
+      switch (status) {
+        case RouteStatus.IN_PROGRESS:
+          route = await lifecycleService.startRoute(routeId);
+          break;
+        case RouteStatus.COMPLETED:
+          // Completed with the order, once proof of delivery is accepted
+          throw createError('Routes complete when proof of delivery is submitted for the order', 400);
+        case RouteStatus.CANCELLED:
+          route = await lifecycleService.cancelRoute(routeId);
+          break;
+        default:
+          throw createError(`Cannot move route back to ${status}`, 409);
       }
 
-      const route = await prisma.route.update({
-        where: { id: routeId },
-        data: updateData,
-        include: {
-          order: true,
-          transporter: true,
-        },
-      });
-
       logger.info('Route status updated', { routeId, status });
       return route;
     } catch (error) {
+      if (error instanceof Error && (error as any).statusCode) {
+        throw error;
+      }
       logger.error('Failed to update route status', { error, routeId, status });
       throw createError('Failed to update route status', 500);
     }
   }
 
-  async getRouteById(routeId: string): Promise<Route> {
+  async getRouteById(routeId: string): Promise<RouteWithRelations> {
     try {
       const route = await prisma.route.findUnique({
         where: { id: routeId },
@@ -161,9 +250,84 @@ export class RoutingService {
     }
   }
 
-  async optimizeMultipleDeliveries(transporterId: string, deliveryPoints: RouteWaypoint[]): Promise<OptimizedRoute> {
+  async getRoutes(filters: RouteFilters = {}) {
+    try {
+      const where: Prisma.RouteWhereInput = {};
+
+      if (filters.status) where.status = filters.status;
+      if (filters.transporterId) where.transporterId = filters.transporterId;
+
+      const routes = await prisma.route.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: filters.limit || 50,
+        skip: filters.offset || 0,
+      });
+
+      const total = await prisma.route.count({ where });
+
+      return {
+        routes,
+        pagination: {
+          total,
+          limit: filters.limit || 50,
+          offset: filters.offset || 0,
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to fetch routes', { error, filters });
+      throw createError('Failed to fetch routes', 500);
+    }
+  }
+
+  async getRouteTracking(routeId: string) {
+    const route = await this.getRouteById(routeId);
+
     try {
-      logger.info('Optimizing multiple deliveries', { transporterId, deliveryCount: deliveryPoints.length });
+      // Get latest tracking data for the transporter
+      const trackingData = await prisma.trackingData.findMany({
+        where: {
+          transporterId: route.transporterId,
+          orderId: route.orderId,
+        },
+        orderBy: { timestamp: 'desc' },
+        take: 1,
+      });
+
+      const currentLocation = trackingData[0] || null;
+      const eta = await etaService.getEta(routeId);
+
+      // No estimate before the route starts or before the first fix; fall back to the plan
+      const progress = eta?.progress ?? (route.status === RouteStatus.COMPLETED ? 100 : 0);
+
+      return {
+        route,
+        currentLocation,
+        progress,
+        estimatedTimeRemaining: eta ? eta.remainingMinutes : route.estimatedDuration * (1 - progress / 100),
+        eta,
+        lastUpdate: currentLocation?.timestamp || null,
+      };
+    } catch (error) {
+      logger.error('Failed to fetch route tracking', { error, routeId });
+      throw createError('Failed to fetch route tracking', 500);
+    }
+  }
+
+  /**
+   * Sequences a transporter's stops with the VRP solver. Orders contribute a
+   * pickup and a delivery (only the delivery when already in transit), with
+   * their weight and volume counted against the vehicle's capacity and their
+   * pickup/delivery times as time windows. Plain delivery points are visited
+   * without constraints. Each returned waypoint carries its ETA.
+   */
+  async optimizeMultipleDeliveries(transporterId: string, request: MultiStopRequest): Promise<OptimizedRoute> {
+    try {
+      logger.info('Optimizing multiple deliveries', {
+        transporterId,
+        deliveryCount: request.deliveryPoints?.length || 0,
+        orderCount: request.orderIds?.length || 0,
+      });
 
       // Get transporter's current location
       const transporter = await prisma.transporter.findUnique({
@@ -174,60 +338,207 @@ export class RoutingService {
         throw createError('Transporter location not available', 400);
       }
 
-      const currentLocation = transporter.currentLocation as any;
+      const currentLocation = transporter.currentLocation as unknown as RouteWaypoint;
       const origin: RouteWaypoint = {
         latitude: currentLocation.latitude,
         longitude: currentLocation.longitude,
       };
+      const departureTime = request.departureTime || new Date();
+      const orders = await this.findOptimizableOrders(transporterId, request.orderIds || []);
 
-      // Use TSP (Traveling Salesman Problem) algorithm to optimize order
-      const optimizedOrder = await this.solveTSP(origin, deliveryPoints);
+      const { points, stops, stopOrders, initialWeight, initialVolume } = this.buildOrderStops(orders, departureTime);
 
-      const request: RouteOptimizationRequest = {
+      (request.deliveryPoints || []).forEach((point, index) => {
+        points.push(point);
+        stopOrders.push(undefined);
+        stops.push({ id: `point:${index}`, kind: 'waypoint', weight: 0, volume: 0, serviceMinutes: STOP_SERVICE_MINUTES });
+      });
+
+      const nodes = [origin, ...points];
+      const { distances, durations } = await matrixService.getMatrix(nodes, nodes, {
+        vehicleType: transporter.vehicleType,
+        departureTime,
+      });
+
+      const solution = solveVrp({
+        stops,
+        distances,
+        durations,
+        capacityWeight: transporter.capacityWeight,
+        capacityVolume: transporter.capacityVolume,
+        initialWeight,
+        initialVolume,
+        timeBudgetMs: parseInt(process.env.VRP_TIME_BUDGET_MS || '500', 10),
+      });
+
+      if (solution.visits.length === 0) {
+        const unreachable = Object.values(solution.unassignedReasons).every(reason => reason === 'unreachable');
+        throw createError(
+          unreachable ? 'None of the stops can be reached' : 'None of the stops fit within the vehicle capacity',
+          400
+        );
+      }
+
+      const scheduled: ScheduledStop[] = solution.visits.map(visit => ({
+        latitude: points[visit.stop].latitude,
+        longitude: points[visit.stop].longitude,
+        address: points[visit.stop].address,
+        estimatedArrival: new Date(departureTime.getTime() + visit.arrival * 60000),
+        type: stops[visit.stop].kind,
+        orderId: stopOrders[visit.stop],
+        lateByMinutes: Math.round(visit.lateness),
+      }));
+
+      const unassignedOrders = [...new Set(solution.unassigned.map(index => stopOrders[index]))]
+        .filter((orderId): orderId is string => Boolean(orderId))
+        .map(orderId => ({
+          orderId,
+          reason: solution.unassignedReasons[stopOrders.indexOf(orderId)] === 'unreachable'
+            ? 'Pickup or delivery location cannot be reached'
+            : 'Does not fit within the remaining vehicle capacity',
+        }));
+
+      logger.info('Multi-stop sequence solved', {
+        transporterId,
+        stops: scheduled.length,
+        unassigned: unassignedOrders.length,
+        lateness: solution.totalLateness,
+        iterations: solution.iterations,
+      });
+
+      const route = await this.calculateOptimalRoute({
         origin,
-        destination: optimizedOrder[optimizedOrder.length - 1],
-        waypoints: optimizedOrder.slice(0, -1),
+        destination: scheduled[scheduled.length - 1],
+        waypoints: scheduled.slice(0, -1),
         vehicleType: transporter.vehicleType,
-      };
+        departureTime,
+      });
 
-      return await this.calculateOptimalRoute(request);
+      return {
+        ...route,
+        waypoints: scheduled,
+        unassignedOrders,
+      };
     } catch (error) {
+      if (error instanceof Error && (error as any).statusCode) {
+        throw error;
+      }
       logger.error('Failed to optimize multiple deliveries', { error, transporterId });
       throw createError('Failed to optimize route', 500);
     }
   }
 
-  async getRealTimeTrafficUpdate(routeId: string): Promise<TrafficCondition[]> {
+  /**
+   * Turns orders into VRP stops: a pickup/delivery pair per order, or only
+   * the delivery for orders already in transit, whose load is reported as
+   * on board. Times are minutes from departureTime. `points` and
+   * `stopOrders` are indexed like `stops`.
+   */
+  buildOrderStops(orders: Order[], departureTime: Date) {
+    const points: RouteWaypoint[] = [];
+    const stops: VrpStop[] = [];
+    const stopOrders: Array<string | undefined> = [];
+    const minutesFromDeparture = (date: Date) => (date.getTime() - departureTime.getTime()) / 60000;
+    let initialWeight = 0;
+    let initialVolume = 0;
+
+    orders.forEach(order => {
+      const volume = matchingService.calculateOrderVolume(order.dimensions as unknown as Dimensions);
+      let pickupIndex: number | undefined;
+
+      if (order.status === OrderStatus.IN_TRANSIT) {
+        initialWeight += order.weight;
+        initialVolume += volume;
+      } else {
+        const pickupStart = minutesFromDeparture(order.pickupTime);
+        pickupIndex = stops.length;
+        points.push(order.pickupLocation as unknown as RouteWaypoint);
+        stopOrders.push(order.id);
+        stops.push({
+          id: `${order.id}:pickup`,
+          kind: 'pickup',
+          weight: order.weight,
+          volume,
+          earliest: pickupStart,
+          latest: pickupStart + PICKUP_WINDOW_MINUTES,
+          serviceMinutes: STOP_SERVICE_MINUTES,
+        });
+      }
+
+      points.push(order.deliveryLocation as unknown as RouteWaypoint);
+      stopOrders.push(order.id);
+      stops.push({
+        id: `${order.id}:delivery`,
+        kind: 'delivery',
+        weight: -order.weight,
+        volume: -volume,
+        latest: order.deliveryTime ? minutesFromDeparture(order.deliveryTime) : undefined,
+        serviceMinutes: STOP_SERVICE_MINUTES,
+        pickupIndex,
+      });
+    });
+
+    return { points, stops, stopOrders, initialWeight, initialVolume };
+  }
+
+  /**
+   * Current traffic along a route from the first configured traffic
+   * provider. For a route in progress only the part still ahead of the
+   * transporter counts. The total delay replaces the traffic delay held in
+   * the route's estimatedDuration, and crossing TRAFFIC_DELAY_ALERT_MINUTES
+   * on a route in progress raises a `route.traffic-delay` alert.
+   */
+  async getRealTimeTrafficUpdate(routeId: string): Promise<TrafficReport> {
     try {
       const route = await this.getRouteById(routeId);
-      const routePath = route.optimizedPath as RouteWaypoint[];
+      let routePath = route.optimizedPath as unknown as RouteWaypoint[];
+
+      const currentLocation = route.transporter.currentLocation as unknown as RouteWaypoint | null;
+      if (route.status === RouteStatus.IN_PROGRESS && currentLocation) {
+        routePath = [currentLocation, ...this.getRemainingWaypoints(routePath, currentLocation)];
+      }
 
-      // Get real-time traffic data from external service
-      const trafficData = await this.getTrafficData(routePath);
+      const { provider, conditions } = await this.getTrafficData(routePath, route.transporter.vehicleType);
+      const totalDelay = conditions.reduce((total, condition) => total + condition.delay, 0);
+
+      if (provider && (route.status === RouteStatus.PLANNED || route.status === RouteStatus.IN_PROGRESS)) {
+        await this.applyTrafficDelay(route, Math.round(totalDelay));
+      }
 
-      return trafficData;
+      return { provider, conditions, totalDelay };
     } catch (error) {
+      if (error instanceof Error && (error as any).statusCode) {
+        throw error;
+      }
       logger.error('Failed to get traffic update', { error, routeId });
       throw createError('Failed to get traffic update', 500);
     }
   }
 
+  /**
+   * Reroutes from the transporter's current position through the stops the
+   * order still needs: its pickup until the goods are collected, then its
+   * delivery. The old path is not reused, so a detour is not replayed.
+   */
   async recalculateRoute(routeId: string, currentLocation: RouteWaypoint): Promise<OptimizedRoute> {
     try {
       const route = await this.getRouteById(routeId);
-      const originalPath = route.optimizedPath as RouteWaypoint[];
-      
-      // Find remaining waypoints
-      const remainingWaypoints = this.getRemainingWaypoints(originalPath, currentLocation);
+      const { order } = route;
 
-      if (remainingWaypoints.length === 0) {
+      if (order.status === OrderStatus.DELIVERED || route.status === RouteStatus.COMPLETED) {
         throw createError('Route already completed', 400);
       }
+      if (route.status === RouteStatus.CANCELLED) {
+        throw createError('Cannot recalculate a cancelled route', 409);
+      }
 
+      // The goods are on board once the order is in transit, so only the delivery is left
       const request: RouteOptimizationRequest = {
         origin: currentLocation,
-        destination: remainingWaypoints[remainingWaypoints.length - 1],
-        waypoints: remainingWaypoints.slice(0, -1),
+        destination: order.deliveryLocation as unknown as RouteWaypoint,
+        waypoints: order.status === OrderStatus.IN_TRANSIT
+          ? []
+          : [order.pickupLocation as unknown as RouteWaypoint],
         vehicleType: route.transporter.vehicleType,
       };
 
@@ -242,130 +553,59 @@ export class RoutingService {
           distance: newRoute.totalDistance,
           fuelCost: newRoute.estimatedFuelCost,
           tollCost: newRoute.estimatedTollCost,
+          // The new duration comes straight from the provider; traffic is reapplied on the next refresh
+          trafficDelay: 0,
           updatedAt: new Date(),
         },
       });
 
+      eventBus.emit('route.recalculated', {
+        routeId,
+        orderId: route.orderId,
+        transporterId: route.transporterId,
+        distance: newRoute.totalDistance,
+        estimatedDuration: newRoute.estimatedDuration,
+        timestamp: new Date(),
+      });
+
       logger.info('Route recalculated', { routeId });
       return newRoute;
     } catch (error) {
+      if (error instanceof Error && (error as any).statusCode) {
+        throw error;
+      }
       logger.error('Failed to recalculate route', { error, routeId });
       throw createError('Failed to recalculate route', 500);
     }
   }
 
-  private async getExternalRoute(request: RouteOptimizationRequest): Promise<OptimizedRoute> {
-    if (this.googleMapsApiKey) {
-      return await this.getGoogleMapsRoute(request);
-    } else if (this.mapboxToken) {
-      return await this.getMapboxRoute(request);
-    } else {
-      // Fallback to basic calculation
-      return await this.getBasicRoute(request);
-    }
-  }
-
-  private async getGoogleMapsRoute(request: RouteOptimizationRequest): Promise<OptimizedRoute> {
-    try {
-      const waypoints = request.waypoints?.map(wp => `${wp.latitude},${wp.longitude}`).join('|') || '';
-      
-      const url = `https://maps.googleapis.com/maps/api/directions/json`;
-      const params = {
-        origin: `${request.origin.latitude},${request.origin.longitude}`,
-        destination: `${request.destination.latitude},${request.destination.longitude}`,
-        waypoints: waypoints ? `optimize:true|${waypoints}` : undefined,
-        traffic_model: request.trafficModel || 'best_guess',
-        departure_time: request.departureTime ? Math.floor(request.departureTime.getTime() / 1000) : 'now',
-        key: this.googleMapsApiKey,
-      };
-
-      const response = await axios.get(url, { params });
-      const route = response.data.routes[0];
+  private async getExternalRoute(
+    request: RouteOptimizationRequest
+  ): Promise<ProviderRoute & { provider: RoutingProviderName }> {
+    const chain = routingProviders.resolveChain(request);
 
-      return {
-        path: this.parseGoogleMapsPath(route.legs),
-        totalDistance: route.legs.reduce((sum: number, leg: any) => sum + leg.distance.value, 0) / 1000,
-        estimatedDuration: route.legs.reduce((sum: number, leg: any) => sum + leg.duration.value, 0) / 60,
-        estimatedFuelCost: 0,
-        estimatedTollCost: 0,
-        trafficConditions: route.legs[0]?.duration_in_traffic ? 'real-time' : 'estimated',
-        waypoints: request.waypoints || [],
-      };
-    } catch (error) {
-      logger.error('Google Maps API error', { error });
-      throw createError('Failed to get route from Google Maps', 500);
+    if (request.provider && chain[0]?.name !== request.provider) {
+      throw createError(`Routing provider ${request.provider} is not configured`, 400);
     }
-  }
-
-  private async getMapboxRoute(request: RouteOptimizationRequest): Promise<OptimizedRoute> {
-    try {
-      const coordinates = [
-        `${request.origin.longitude},${request.origin.latitude}`,
-        ...(request.waypoints?.map(wp => `${wp.longitude},${wp.latitude}`) || []),
-        `${request.destination.longitude},${request.destination.latitude}`,
-      ].join(';');
-
-      const url = `https://api.mapbox.com/directions/v5/mapbox/driving/${coordinates}`;
-      const params = {
-        access_token: this.mapboxToken,
-        overview: 'full',
-        geometries: 'geojson',
-        steps: true,
-      };
-
-      const response = await axios.get(url, { params });
-      const route = response.data.routes[0];
 
-      return {
-        path: this.parseMapboxPath(route.geometry.coordinates),
-        totalDistance: route.distance / 1000,
-        estimatedDuration: route.duration / 60,
-        estimatedFuelCost: 0,
-        estimatedTollCost: 0,
-        trafficConditions: 'estimated',
-        waypoints: request.waypoints || [],
-      };
-    } catch (error) {
-      logger.error('Mapbox API error', { error });
-      throw createError('Failed to get route from Mapbox', 500);
+    let lastError: unknown;
+    for (const provider of chain) {
+      try {
+        const route = await provider.getRoute(request);
+        return { ...route, provider: provider.name };
+      } catch (error) {
+        lastError = error;
+        logger.warn('Routing provider failed, trying next', {
+          provider: provider.name,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
     }
-  }
-
-  private async getBasicRoute(request: RouteOptimizationRequest): Promise<OptimizedRoute> {
-    // Basic straight-line distance calculation as fallback
-    const distance = this.calculateDistance(request.origin, request.destination);
-    const estimatedSpeed = 50; // km/h average
-    const duration = (distance / estimatedSpeed) * 60; // minutes
-
-    return {
-      path: [request.origin, ...(request.waypoints || []), request.destination],
-      totalDistance: distance,
-      estimatedDuration: duration,
-      estimatedFuelCost: 0,
-      estimatedTollCost: 0,
-      trafficConditions: 'estimated',
-      waypoints: request.waypoints || [],
-    };
-  }
 
-  private calculateDistance(point1: RouteWaypoint, point2: RouteWaypoint): number {
-    const R = 6371; // Earth's radius in km
-    const dLat = this.toRadians(point2.latitude - point1.latitude);
-    const dLon = this.toRadians(point2.longitude - point1.longitude);
-    
-    const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-              Math.cos(this.toRadians(point1.latitude)) * Math.cos(this.toRadians(point2.latitude)) *
-              Math.sin(dLon / 2) * Math.sin(dLon / 2);
-    
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
+    throw lastError;
   }
 
-  private toRadians(degrees: number): number {
-    return degrees * (Math.PI / 180);
-  }
-
-  private calculateFuelCost(distance: number, vehicleType: string): number {
+  calculateFuelCost(distance: number, vehicleType: string): number {
     const fuelPrices = {
       MOTORCYCLE: 0.05, // per km
       CAR: 0.08,
@@ -380,61 +620,93 @@ export class RoutingService {
 
   private async estimateTollCost(path: RouteWaypoint[]): Promise<number> {
     // Simplified toll estimation - would integrate with toll APIs in production
-    const distance = path.reduce((total, point, index) => {
-      if (index === 0) return 0;
-      return total + this.calculateDistance(path[index - 1], point);
-    }, 0);
+    const distance = pathDistance(path);
 
     return distance > 50 ? distance * 0.02 : 0; // $0.02 per km for long routes
   }
 
-  private async solveTSP(origin: RouteWaypoint, points: RouteWaypoint[]): Promise<RouteWaypoint[]> {
-    // Simple nearest neighbor algorithm for TSP (would use more sophisticated algorithm in production)
-    const unvisited = [...points];
-    const result: RouteWaypoint[] = [];
-    let current = origin;
-
-    while (unvisited.length > 0) {
-      let nearest = unvisited[0];
-      let nearestIndex = 0;
-      let minDistance = this.calculateDistance(current, nearest);
-
-      for (let i = 1; i < unvisited.length; i++) {
-        const distance = this.calculateDistance(current, unvisited[i]);
-        if (distance < minDistance) {
-          minDistance = distance;
-          nearest = unvisited[i];
-          nearestIndex = i;
-        }
+  private async findOptimizableOrders(transporterId: string, orderIds: string[]): Promise<Order[]> {
+    if (orderIds.length === 0) return [];
+
+    const orders = await prisma.order.findMany({
+      where: { id: { in: orderIds } },
+    });
+
+    const missing = orderIds.filter(id => !orders.some(order => order.id === id));
+    if (missing.length > 0) {
+      throw createError(`Orders not found: ${missing.join(', ')}`, 404);
+    }
+
+    orders.forEach(order => {
+      if (!OPTIMIZABLE_ORDER_STATUSES.includes(order.status)) {
+        throw createError(`Order ${order.id} is ${order.status} and cannot be routed`, 400);
+      }
+      if (order.transporterId && order.transporterId !== transporterId) {
+        throw createError(`Order ${order.id} is assigned to another transporter`, 409);
+      }
+      if (order.status === OrderStatus.IN_TRANSIT && order.transporterId !== transporterId) {
+        throw createError(`Order ${order.id} is not on board this transporter`, 409);
       }
+    });
+
+    return orders;
+  }
+
+  private async getTrafficData(
+    path: RouteWaypoint[],
+    vehicleType: string
+  ): Promise<{ provider: TrafficProviderName | null; conditions: TrafficCondition[] }> {
+    if (path.length < 2) {
+      return { provider: null, conditions: [] };
+    }
 
-      result.push(nearest);
-      unvisited.splice(nearestIndex, 1);
-      current = nearest;
+    for (const provider of trafficProviders.resolveChain()) {
+      try {
+        const conditions = await provider.getSegmentTraffic(path, { vehicleType });
+        return { provider: provider.name, conditions };
+      } catch (error) {
+        logger.warn('Traffic provider failed, trying next', {
+          provider: provider.name,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
     }
 
-    return result;
+    return { provider: null, conditions: [] };
   }
 
-  private async getTrafficData(path: RouteWaypoint[]): Promise<TrafficCondition[]> {
-    // Simulate traffic conditions - would integrate with real traffic APIs
-    return path.slice(0, -1).map((point, index) => ({
-      segment: {
-        start: point,
-        end: path[index + 1],
+  private async applyTrafficDelay(route: Route, trafficDelay: number): Promise<void> {
+    await prisma.route.update({
+      where: { id: route.id },
+      data: {
+        estimatedDuration: Math.max(0, route.estimatedDuration - route.trafficDelay + trafficDelay),
+        trafficDelay,
+        trafficUpdatedAt: new Date(),
       },
-      condition: Math.random() > 0.7 ? 'heavy' : 'light' as 'light' | 'heavy',
-      delay: Math.random() > 0.7 ? Math.floor(Math.random() * 15) : 0,
-    }));
+    });
+
+    const threshold = parseFloat(process.env.TRAFFIC_DELAY_ALERT_MINUTES || '15');
+    if (route.status === RouteStatus.IN_PROGRESS && route.trafficDelay < threshold && trafficDelay >= threshold) {
+      eventBus.emit('route.traffic-delay', {
+        routeId: route.id,
+        orderId: route.orderId,
+        transporterId: route.transporterId,
+        delayMinutes: trafficDelay,
+        thresholdMinutes: threshold,
+        timestamp: new Date(),
+      });
+
+      logger.warn('Route delayed by traffic', { routeId: route.id, delayMinutes: trafficDelay });
+    }
   }
 
   private getRemainingWaypoints(originalPath: RouteWaypoint[], currentLocation: RouteWaypoint): RouteWaypoint[] {
     // Find the closest point on the route and return remaining waypoints
     let closestIndex = 0;
-    let minDistance = this.calculateDistance(currentLocation, originalPath[0]);
+    let minDistance = haversineDistance(currentLocation, originalPath[0]);
 
     for (let i = 1; i < originalPath.length; i++) {
-      const distance = this.calculateDistance(currentLocation, originalPath[i]);
+      const distance = haversineDistance(currentLocation, originalPath[i]);
       if (distance < minDistance) {
         minDistance = distance;
         closestIndex = i;
@@ -443,26 +715,6 @@ export class RoutingService {
 
     return originalPath.slice(closestIndex + 1);
   }
-
-  private parseGoogleMapsPath(legs: any[]): RouteWaypoint[] {
-    const path: RouteWaypoint[] = [];
-    legs.forEach(leg => {
-      leg.steps.forEach((step: any) => {
-        path.push({
-          latitude: step.start_location.lat,
-          longitude: step.start_location.lng,
-        });
-      });
-    });
-    return path;
-  }
-
-  private parseMapboxPath(coordinates: number[][]): RouteWaypoint[] {
-    return coordinates.map(coord => ({
-      latitude: coord[1],
-      longitude: coord[0],
-    }));
-  }
 }
 
 export const routingService = new RoutingService();
\ No newline at end of file
@@ -0,0 +1,262 @@
+import { OrderStatus } from '@prisma/client';
+import prisma from '@/config/database';
+import { createError } from '@/middleware/errorHandler';
+import { logger } from '@/utils/logger';
+import { haversineDistance } from '@/utils/geo';
+import { geoIndexService } from '@/services/geoIndexService';
+import { eventBus } from '@/services/eventBus';
+import { geofenceService } from '@/services/geofenceService';
+
+export interface TelemetryFix {
+  latitude: number;
+  longitude: number;
+  timestamp: Date;
+  // km/h
+  speed?: number;
+  // Degrees clockwise from north
+  heading?: number;
+  // Percent
+  batteryLevel?: number;
+}
+
+export interface RejectedFix {
+  // Position of the fix in the submitted batch
+  index: number;
+  timestamp: Date;
+  reason: string;
+}
+
+export interface IngestResult {
+  accepted: number;
+  rejected: RejectedFix[];
+}
+
+interface OrderWindow {
+  orderId: string;
+  assignedAt: Date;
+  pickedUpAt?: Date;
+  endedAt?: Date;
+}
+
+// Device clocks drift; anything further ahead than this is a bad fix, not skew
+const MAX_CLOCK_SKEW_MS = 2 * 60 * 1000;
+// Position noise of a consumer GPS fix, ignored when judging implied speed
+const GPS_NOISE_KM = 0.05;
+
+const ACTIVE_ORDER_STATUSES: OrderStatus[] = [OrderStatus.ASSIGNED, OrderStatus.IN_TRANSIT];
+// Statuses that end a transporter's responsibility for an order
+const RELEASING_STATUSES: OrderStatus[] = [
+  OrderStatus.DELIVERED,
+  OrderStatus.CANCELLED,
+  OrderStatus.FAILED,
+  OrderStatus.PENDING,
+];
+
+const maxSpeedKmh = () => parseFloat(process.env.TELEMETRY_MAX_SPEED_KMH || '250');
+
+export class TelemetryService {
+  /**
+   * Stores a batch of GPS fixes from a transporter, e.g. the backlog a
+   * driver app collected while offline. Fixes are taken in timestamp order;
+   * one is rejected when it is not newer than the last recorded fix, is
+   * dated in the future, or implies travelling faster than
+   * TELEMETRY_MAX_SPEED_KMH. Each stored fix is linked to the order the
+   * transporter was carrying (or heading to pick up) at that moment, and
+   * checked against the pickup and delivery geofences of those orders.
+   */
+  async ingestFixes(transporterId: string, fixes: TelemetryFix[]): Promise<IngestResult> {
+    try {
+      const transporter = await prisma.transporter.findUnique({
+        where: { id: transporterId },
+        select: { id: true },
+      });
+
+      if (!transporter) {
+        throw createError('Transporter not found', 404);
+      }
+
+      let previous = await prisma.trackingData.findFirst({
+        where: { transporterId },
+        orderBy: { timestamp: 'desc' },
+        select: { latitude: true, longitude: true, timestamp: true },
+      });
+
+      const now = Date.now();
+      const rejected: RejectedFix[] = [];
+      const accepted: TelemetryFix[] = [];
+      const ordered = fixes
+        .map((fix, index) => ({ fix, index }))
+        .sort((a, b) => a.fix.timestamp.getTime() - b.fix.timestamp.getTime());
+
+      for (const { fix, index } of ordered) {
+        const reason = this.checkFix(fix, previous, now);
+
+        if (reason) {
+          rejected.push({ index, timestamp: fix.timestamp, reason });
+          continue;
+        }
+
+        accepted.push(fix);
+        previous = fix;
+      }
+
+      if (accepted.length > 0) {
+        await this.storeFixes(transporterId, accepted);
+      }
+
+      if (rejected.length > 0) {
+        logger.warn('Telemetry fixes rejected', { transporterId, rejected: rejected.length });
+      }
+
+      rejected.sort((a, b) => a.index - b.index);
+      return { accepted: accepted.length, rejected };
+    } catch (error) {
+      if (error instanceof Error && (error as any).statusCode) {
+        throw error;
+      }
+      logger.error('Failed to ingest telemetry', { error, transporterId });
+      throw createError('Failed to ingest telemetry', 500);
+    }
+  }
+
+  private checkFix(
+    fix: TelemetryFix,
+    previous: { latitude: number; longitude: number; timestamp: Date } | null,
+    now: number
+  ): string | null {
+    if (fix.timestamp.getTime() > now + MAX_CLOCK_SKEW_MS) {
+      return 'Timestamp is in the future';
+    }
+
+    // 0,0 is what many receivers report before they have a fix
+    if (fix.latitude === 0 && fix.longitude === 0) {
+      return 'Position is 0,0';
+    }
+
+    if (fix.speed !== undefined && fix.speed > maxSpeedKmh()) {
+      return `Reported speed exceeds ${maxSpeedKmh()} km/h`;
+    }
+
+    if (!previous) {
+      return null;
+    }
+
+    const elapsedMs = fix.timestamp.getTime() - previous.timestamp.getTime();
+    if (elapsedMs <= 0) {
+      return 'Not newer than the last recorded fix';
+    }
+
+    const distanceKm = Math.max(0, haversineDistance(previous, fix) - GPS_NOISE_KM);
+    if (distanceKm / (elapsedMs / 3600000) > maxSpeedKmh()) {
+      return `Implies travelling faster than ${maxSpeedKmh()} km/h since the previous fix`;
+    }
+
+    return null;
+  }
+
+  private async storeFixes(transporterId: string, fixes: TelemetryFix[]): Promise<void> {
+    const windows = await this.findOrderWindows(transporterId, fixes[0].timestamp);
+
+    await prisma.trackingData.createMany({
+      data: fixes.map(fix => ({
+        transporterId,
+        orderId: this.orderAt(windows, fix.timestamp),
+        latitude: fix.latitude,
+        longitude: fix.longitude,
+        speed: fix.speed,
+        heading: fix.heading,
+        batteryLevel: fix.batteryLevel,
+        timestamp: fix.timestamp,
+      })),
+    });
+
+    // Fixes are accepted strictly in order, so the last one is the current position
+    const latest = fixes[fixes.length - 1];
+    const location = { latitude: latest.latitude, longitude: latest.longitude };
+
+    await prisma.transporter.update({
+      where: { id: transporterId },
+      data: {
+        currentLocation: location,
+        updatedAt: new Date(),
+      },
+    });
+
+    await geoIndexService.upsertTransporter(transporterId, location);
+
+    eventBus.emit('transporter.location', {
+      transporterId,
+      ...location,
+      heading: latest.heading,
+      speed: latest.speed,
+      timestamp: latest.timestamp,
+      orderIds: windows.filter(window => !window.endedAt).map(window => window.orderId),
+    });
+
+    // Fixes are already stored; a geofence failure must not reject them
+    await geofenceService.processFixes(
+      transporterId,
+      fixes.map(fix => ({ ...fix, orderIds: this.openOrdersAt(windows, fix.timestamp) }))
+    ).catch((error) => {
+      logger.error('Geofence processing failed', { error, transporterId });
+    });
+
+    logger.debug('Telemetry stored', { transporterId, fixes: fixes.length });
+  }
+
+  /**
+   * When the transporter held each of its recent orders, rebuilt from the
+   * order event log so that backlogged fixes are attributed to the order
+   * active at the time rather than the current one.
+   */
+  private async findOrderWindows(transporterId: string, since: Date): Promise<OrderWindow[]> {
+    const orders = await prisma.order.findMany({
+      where: {
+        transporterId,
+        OR: [
+          { status: { in: ACTIVE_ORDER_STATUSES } },
+          { updatedAt: { gte: since } },
+        ],
+      },
+      select: {
+        id: true,
+        events: { orderBy: { createdAt: 'asc' } },
+      },
+    });
+
+    return orders.flatMap(order => {
+      const assigned = order.events.filter(event => event.toStatus === OrderStatus.ASSIGNED).pop();
+      if (!assigned) return [];
+
+      const later = order.events.filter(event => event.createdAt >= assigned.createdAt);
+      return [{
+        orderId: order.id,
+        assignedAt: assigned.createdAt,
+        pickedUpAt: later.find(event => event.toStatus === OrderStatus.IN_TRANSIT)?.createdAt,
+        endedAt: later.find(event => RELEASING_STATUSES.includes(event.toStatus))?.createdAt,
+      }];
+    });
+  }
+
+  private openWindowsAt(windows: OrderWindow[], timestamp: Date): OrderWindow[] {
+    return windows.filter(window =>
+      window.assignedAt <= timestamp && (!window.endedAt || timestamp < window.endedAt)
+    );
+  }
+
+  private openOrdersAt(windows: OrderWindow[], timestamp: Date): string[] {
+    return this.openWindowsAt(windows, timestamp).map(window => window.orderId);
+  }
+
+  // An order being carried wins over one the transporter is only heading to
+  private orderAt(windows: OrderWindow[], timestamp: Date): string | null {
+    const open = this.openWindowsAt(windows, timestamp);
+    const carrying = open.filter(window => window.pickedUpAt && window.pickedUpAt <= timestamp);
+    const candidates = carrying.length > 0 ? carrying : open;
+
+    candidates.sort((a, b) => a.assignedAt.getTime() - b.assignedAt.getTime());
+    return candidates[0]?.orderId ?? null;
+  }
+}
+
+export const telemetryService = new TelemetryService();
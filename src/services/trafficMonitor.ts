@@ -0,0 +1,57 @@
+import { RouteStatus } from '@prisma/client';
+import prisma from '@/config/database';
+import { logger } from '@/utils/logger';
+import { routingService } from '@/services/routingService';
+import { jobService } from '@/services/jobService';
+
+const refreshIntervalMs = () => parseFloat(process.env.TRAFFIC_REFRESH_INTERVAL_SECONDS || '300') * 1000;
+
+/**
+ * Refreshes traffic on every route in progress every
+ * TRAFFIC_REFRESH_INTERVAL_SECONDS, which keeps their estimated durations
+ * and ETAs current and raises delay alerts without anyone polling
+ * GET /routes/:id/traffic. ETAs are refreshed through the job queue.
+ */
+export class TrafficMonitor {
+  private running = false;
+
+  start(): () => void {
+    const timer = setInterval(() => {
+      void this.refreshActiveRoutes();
+    }, refreshIntervalMs());
+    // Never keeps the process alive on its own
+    timer.unref();
+
+    return () => clearInterval(timer);
+  }
+
+  async refreshActiveRoutes(): Promise<void> {
+    // A slow provider can make a pass outlast the interval; skip rather than pile up
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const routes = await prisma.route.findMany({
+        where: { status: RouteStatus.IN_PROGRESS },
+        select: { id: true },
+      });
+
+      for (const route of routes) {
+        await routingService.getRealTimeTrafficUpdate(route.id)
+          // New delays shift arrivals even when the transporter reports no fix
+          .then(() => jobService.enqueueEtaRefresh(route.id))
+          .catch((error) => {
+            logger.warn('Traffic refresh failed', { error, routeId: route.id });
+          });
+      }
+
+      logger.debug('Traffic refreshed', { routes: routes.length });
+    } catch (error) {
+      logger.error('Failed to refresh traffic', { error });
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export const trafficMonitor = new TrafficMonitor();
@@ -0,0 +1,49 @@
+import { GeoPoint } from '@/utils/geo';
+import { parseGoogleTrafficResponse } from './googleTrafficProvider';
+
+const SEGMENT: [GeoPoint, GeoPoint] = [
+  { latitude: 52.517, longitude: 13.3888 },
+  { latitude: 52.5294, longitude: 13.3976 },
+];
+
+const element = (duration: number, inTraffic?: number) => ({
+  status: 'OK',
+  rows: [{
+    elements: [{
+      status: 'OK',
+      distance: { value: 1600 },
+      duration: { value: duration },
+      ...(inTraffic !== undefined && { duration_in_traffic: { value: inTraffic } }),
+    }],
+  }],
+});
+
+describe('parseGoogleTrafficResponse', () => {
+  it('reports the delay in traffic over free flow for the segment', () => {
+    const condition = parseGoogleTrafficResponse(element(300, 420), SEGMENT);
+
+    expect(condition).toEqual({
+      segment: { start: SEGMENT[0], end: SEGMENT[1] },
+      condition: 'heavy',
+      delay: 2,
+    });
+  });
+
+  it('never reports a negative delay when traffic is faster than usual', () => {
+    const condition = parseGoogleTrafficResponse(element(300, 240), SEGMENT);
+
+    expect(condition.condition).toBe('light');
+    expect(condition.delay).toBe(0);
+  });
+
+  it('treats a segment without traffic data or a route as light', () => {
+    expect(parseGoogleTrafficResponse(element(300), SEGMENT).condition).toBe('light');
+    expect(parseGoogleTrafficResponse({ status: 'OK', rows: [{ elements: [{ status: 'ZERO_RESULTS' }] }] }, SEGMENT))
+      .toMatchObject({ condition: 'light', delay: 0 });
+  });
+
+  it('reports a failed request', () => {
+    expect(() => parseGoogleTrafficResponse({ status: 'OVER_DAILY_LIMIT' }, SEGMENT))
+      .toThrow('Google Distance Matrix returned OVER_DAILY_LIMIT');
+  });
+});
@@ -0,0 +1,81 @@
+import axios from 'axios';
+import { TrafficCondition } from '@/services/routingService';
+import { getProviderTimeoutMs } from '@/services/routingProviders';
+import { GeoPoint } from '@/utils/geo';
+import { congestionFromRatio, samplePath, TrafficOptions, TrafficProvider } from './types';
+
+const DISTANCE_MATRIX_URL = 'https://maps.googleapis.com/maps/api/distancematrix/json';
+
+// Distance Matrix bills every origin/destination pair, so each segment is its own one-element request
+const PARALLEL_REQUESTS = 10;
+const MAX_PATH_POINTS = 51;
+
+/**
+ * Parses a one-element Distance Matrix response for a single segment. A
+ * segment Google could not route is reported as light with no delay.
+ */
+export const parseGoogleTrafficResponse = (data: any, [start, end]: [GeoPoint, GeoPoint]): TrafficCondition => {
+  if (data?.status !== 'OK') {
+    throw new Error(`Google Distance Matrix returned ${data?.status || 'an invalid response'}`);
+  }
+
+  const element = data.rows?.[0]?.elements?.[0];
+
+  if (element?.status !== 'OK' || !element.duration_in_traffic) {
+    return { segment: { start, end }, condition: 'light', delay: 0 };
+  }
+
+  const freeFlow = element.duration.value;
+  const inTraffic = element.duration_in_traffic.value;
+
+  return {
+    segment: { start, end },
+    condition: congestionFromRatio(freeFlow > 0 ? inTraffic / freeFlow : 1),
+    delay: Math.max(0, inTraffic - freeFlow) / 60,
+  };
+};
+
+const formatPoint = (point: GeoPoint) => `${point.latitude},${point.longitude}`;
+
+/**
+ * Live traffic from the Distance Matrix API, which reports each segment's
+ * travel time both with and without current traffic.
+ */
+export class GoogleTrafficProvider implements TrafficProvider {
+  readonly name = 'google' as const;
+
+  private get apiKey() {
+    return process.env.GOOGLE_MAPS_API_KEY;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.apiKey);
+  }
+
+  async getSegmentTraffic(path: GeoPoint[], options: TrafficOptions): Promise<TrafficCondition[]> {
+    const points = samplePath(path, MAX_PATH_POINTS);
+    const segments = points.slice(1).map((end, index): [GeoPoint, GeoPoint] => [points[index], end]);
+    const departureTime = options.departureTime ? Math.floor(options.departureTime.getTime() / 1000) : 'now';
+    const conditions: TrafficCondition[] = [];
+
+    for (let offset = 0; offset < segments.length; offset += PARALLEL_REQUESTS) {
+      const batch = segments.slice(offset, offset + PARALLEL_REQUESTS);
+
+      conditions.push(...await Promise.all(batch.map(async (segment) => {
+        const response = await axios.get(DISTANCE_MATRIX_URL, {
+          timeout: getProviderTimeoutMs(),
+          params: {
+            origins: formatPoint(segment[0]),
+            destinations: formatPoint(segment[1]),
+            departure_time: departureTime,
+            key: this.apiKey,
+          },
+        });
+
+        return parseGoogleTrafficResponse(response.data, segment);
+      })));
+    }
+
+    return conditions;
+  }
+}
@@ -0,0 +1,45 @@
+import { GoogleTrafficProvider } from './googleTrafficProvider';
+import { MapboxTrafficProvider } from './mapboxTrafficProvider';
+import { SimulatedTrafficProvider } from './simulatedTrafficProvider';
+import { TrafficProvider, TrafficProviderName, TRAFFIC_PROVIDER_NAMES } from './types';
+
+export * from './types';
+
+const DEFAULT_CHAIN: TrafficProviderName[] = ['google', 'mapbox'];
+
+const isProviderName = (name: string): name is TrafficProviderName =>
+  (TRAFFIC_PROVIDER_NAMES as string[]).includes(name);
+
+export class TrafficProviderRegistry {
+  private readonly providers = new Map<TrafficProviderName, TrafficProvider>();
+
+  register(provider: TrafficProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  get(name: TrafficProviderName): TrafficProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  /**
+   * Providers to try, in TRAFFIC_PROVIDER_CHAIN order. Unconfigured
+   * providers are skipped; unlike routing there is no always-available
+   * fallback, since made-up traffic is worse than none.
+   */
+  resolveChain(): TrafficProvider[] {
+    const chain = (process.env.TRAFFIC_PROVIDER_CHAIN || '')
+      .split(',')
+      .map(name => name.trim())
+      .filter(isProviderName);
+
+    return [...new Set(chain.length > 0 ? chain : DEFAULT_CHAIN)]
+      .map(name => this.providers.get(name))
+      .filter((provider): provider is TrafficProvider => Boolean(provider?.isConfigured()));
+  }
+}
+
+export const trafficProviders = new TrafficProviderRegistry();
+
+trafficProviders.register(new GoogleTrafficProvider());
+trafficProviders.register(new MapboxTrafficProvider());
+trafficProviders.register(new SimulatedTrafficProvider());
@@ -0,0 +1,86 @@
+import axios from 'axios';
+import { TrafficCondition } from '@/services/routingService';
+import { getProviderTimeoutMs } from '@/services/routingProviders';
+import { GeoPoint } from '@/utils/geo';
+import { CongestionLevel, samplePath, TrafficOptions, TrafficProvider } from './types';
+
+const DIRECTIONS_URL = 'https://api.mapbox.com/directions/v5/mapbox/driving-traffic';
+
+// The driving-traffic profile accepts 25 coordinates
+const MAX_PATH_POINTS = 25;
+
+const CONGESTION_LEVELS: CongestionLevel[] = ['light', 'moderate', 'heavy', 'severe'];
+const MAPBOX_CONGESTION: Record<string, number> = { low: 0, moderate: 1, heavy: 2, severe: 3 };
+
+/**
+ * Parses a driving-traffic Directions response requested with congestion
+ * and distance annotations, one leg per segment. A leg's condition is its
+ * distance-weighted congestion; its delay is the time over Mapbox's typical
+ * duration for that leg.
+ */
+export const parseMapboxTrafficResponse = (data: any, points: GeoPoint[]): TrafficCondition[] => {
+  if (data?.code && data.code !== 'Ok') {
+    throw new Error(`Mapbox returned ${data.code}`);
+  }
+
+  const legs: any[] = data?.routes?.[0]?.legs;
+  if (!legs) {
+    throw new Error('Mapbox returned no routes');
+  }
+
+  return legs.map((leg, index) => {
+    const congestion: string[] = leg.annotation?.congestion || [];
+    const distances: number[] = leg.annotation?.distance || [];
+
+    let weighted = 0;
+    let known = 0;
+    congestion.forEach((level, segment) => {
+      if (!(level in MAPBOX_CONGESTION)) return;
+      weighted += MAPBOX_CONGESTION[level] * (distances[segment] ?? 0);
+      known += distances[segment] ?? 0;
+    });
+
+    const typical = leg.duration_typical ?? leg.duration;
+
+    return {
+      segment: { start: points[index], end: points[index + 1] },
+      condition: CONGESTION_LEVELS[known > 0 ? Math.round(weighted / known) : 0],
+      delay: Math.max(0, leg.duration - typical) / 60,
+    };
+  });
+};
+
+/**
+ * Live traffic from the Mapbox driving-traffic profile's congestion
+ * annotations.
+ */
+export class MapboxTrafficProvider implements TrafficProvider {
+  readonly name = 'mapbox' as const;
+
+  private get accessToken() {
+    return process.env.MAPBOX_ACCESS_TOKEN;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.accessToken);
+  }
+
+  async getSegmentTraffic(path: GeoPoint[], options: TrafficOptions): Promise<TrafficCondition[]> {
+    const points = samplePath(path, MAX_PATH_POINTS);
+    const coordinates = points.map(point => `${point.longitude},${point.latitude}`).join(';');
+
+    const response = await axios.get(`${DIRECTIONS_URL}/${coordinates}`, {
+      timeout: getProviderTimeoutMs(),
+      params: {
+        access_token: this.accessToken,
+        annotations: 'congestion,distance',
+        overview: 'false',
+        depart_at: options.departureTime && options.departureTime > new Date()
+          ? options.departureTime.toISOString().slice(0, 16)
+          : undefined,
+      },
+    });
+
+    return parseMapboxTrafficResponse(response.data, points);
+  }
+}
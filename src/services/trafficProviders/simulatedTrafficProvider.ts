@@ -0,0 +1,55 @@
+import { TrafficCondition } from '@/services/routingService';
+import { GeoPoint, haversineDistance } from '@/utils/geo';
+import { CongestionLevel, TrafficOptions, TrafficProvider } from './types';
+
+const SIMULATED_SPEED_KMH = 50;
+
+// Share of free-flow travel time added at each level
+const LEVEL_DELAY: Array<[CongestionLevel, number]> = [
+  ['light', 0],
+  ['moderate', 0.2],
+  ['heavy', 0.45],
+  ['severe', 0.8],
+];
+
+// Stable pseudo-random value in [0, 1) for a segment and hour
+const segmentNoise = (start: GeoPoint, end: GeoPoint, hour: number): number => {
+  const key = `${start.latitude.toFixed(4)},${start.longitude.toFixed(4)}:${end.latitude.toFixed(4)},${end.longitude.toFixed(4)}:${hour}`;
+  let hash = 2166136261;
+  for (let index = 0; index < key.length; index++) {
+    hash = Math.imul(hash ^ key.charCodeAt(index), 16777619);
+  }
+  return (hash >>> 0) / 4294967296;
+};
+
+/**
+ * Deterministic traffic for tests and local development: the same segment
+ * at the same hour always gets the same congestion, heavier in the morning
+ * and evening peaks. Needs no credentials, but is only used when named in
+ * TRAFFIC_PROVIDER_CHAIN so it never passes for real data.
+ */
+export class SimulatedTrafficProvider implements TrafficProvider {
+  readonly name = 'simulated' as const;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async getSegmentTraffic(path: GeoPoint[], options: TrafficOptions): Promise<TrafficCondition[]> {
+    const hour = (options.departureTime || new Date()).getUTCHours();
+    const peak = (hour >= 7 && hour < 10) || (hour >= 16 && hour < 19) ? 1 : 0;
+
+    return path.slice(1).map((end, index) => {
+      const start = path[index];
+      const level = Math.min(LEVEL_DELAY.length - 1, Math.floor(segmentNoise(start, end, hour) * 3) + peak);
+      const [condition, share] = LEVEL_DELAY[level];
+      const freeFlowMinutes = (haversineDistance(start, end) / SIMULATED_SPEED_KMH) * 60;
+
+      return {
+        segment: { start, end },
+        condition,
+        delay: freeFlowMinutes * share,
+      };
+    });
+  }
+}
@@ -0,0 +1,47 @@
+import { TrafficCondition } from '@/services/routingService';
+import { GeoPoint } from '@/utils/geo';
+
+export type TrafficProviderName = 'google' | 'mapbox' | 'simulated';
+
+export const TRAFFIC_PROVIDER_NAMES: TrafficProviderName[] = ['google', 'mapbox', 'simulated'];
+
+export type CongestionLevel = TrafficCondition['condition'];
+
+export interface TrafficOptions {
+  vehicleType?: string;
+  departureTime?: Date;
+}
+
+export interface TrafficProvider {
+  readonly name: TrafficProviderName;
+
+  // False when the credentials the provider needs are missing
+  isConfigured(): boolean;
+
+  /**
+   * Congestion and delay, in minutes over free-flowing traffic, for each
+   * segment between consecutive points of `path`.
+   */
+  getSegmentTraffic(path: GeoPoint[], options: TrafficOptions): Promise<TrafficCondition[]>;
+}
+
+// Ratio of travel time in traffic to travel time without, at which each level starts
+const CONGESTION_THRESHOLDS: Array<[number, CongestionLevel]> = [
+  [1.6, 'severe'],
+  [1.3, 'heavy'],
+  [1.1, 'moderate'],
+];
+
+export const congestionFromRatio = (ratio: number): CongestionLevel =>
+  CONGESTION_THRESHOLDS.find(([threshold]) => ratio >= threshold)?.[1] ?? 'light';
+
+/**
+ * Thins a path to at most `maxPoints` evenly spread vertices, keeping both
+ * ends, so that long polylines fit within upstream request limits.
+ */
+export const samplePath = (path: GeoPoint[], maxPoints: number): GeoPoint[] => {
+  if (path.length <= maxPoints) return path;
+
+  const step = (path.length - 1) / (maxPoints - 1);
+  return Array.from({ length: maxPoints }, (_, index) => path[Math.round(index * step)]);
+};
@@ -0,0 +1,162 @@
+import { Prisma } from '@prisma/client';
+import prisma from '@/config/database';
+import { createError } from '@/middleware/errorHandler';
+import { logger } from '@/utils/logger';
+import { GeoPoint, haversineDistance, pathDistance, simplifyPath } from '@/utils/geo';
+
+export interface TrailPoint extends GeoPoint {
+  timestamp: Date;
+  speed: number | null;
+  heading: number | null;
+  orderId: string | null;
+}
+
+export interface TrailStop extends GeoPoint {
+  arrivedAt: Date;
+  departedAt: Date;
+  durationSeconds: number;
+}
+
+export interface TrailOptions {
+  from?: Date;
+  to?: Date;
+  // Douglas-Peucker tolerance; the raw trail is returned without it
+  simplifyToleranceMeters?: number;
+  detectStops?: boolean;
+  stopRadiusMeters?: number;
+  minStopSeconds?: number;
+}
+
+export interface Trail {
+  subject: { type: 'order' | 'transporter'; id: string };
+  from: Date | null;
+  to: Date | null;
+  points: TrailPoint[];
+  stops: TrailStop[];
+  // Over the recorded fixes, before simplification
+  distanceKm: number;
+  recordedPoints: number;
+}
+
+// Claims rarely need more; larger ranges must be requested in pieces
+const MAX_TRAIL_POINTS = 50000;
+const DEFAULT_STOP_RADIUS_METERS = 50;
+const DEFAULT_MIN_STOP_SECONDS = 120;
+
+export class TrailService {
+  async getOrderTrail(orderId: string, options: TrailOptions = {}): Promise<Trail> {
+    const order = await prisma.order.findUnique({ where: { id: orderId }, select: { id: true } });
+
+    if (!order) {
+      throw createError('Order not found', 404);
+    }
+
+    return this.buildTrail({ type: 'order', id: orderId }, { orderId }, options);
+  }
+
+  async getTransporterTrail(transporterId: string, options: TrailOptions = {}): Promise<Trail> {
+    const transporter = await prisma.transporter.findUnique({ where: { id: transporterId }, select: { id: true } });
+
+    if (!transporter) {
+      throw createError('Transporter not found', 404);
+    }
+
+    return this.buildTrail({ type: 'transporter', id: transporterId }, { transporterId }, options);
+  }
+
+  /**
+   * Recorded fixes in time order, optionally simplified, with the places
+   * the vehicle stayed within `stopRadiusMeters` for at least
+   * `minStopSeconds`. Stops are found on the raw fixes so simplification
+   * cannot hide them.
+   */
+  private async buildTrail(
+    subject: Trail['subject'],
+    where: Prisma.TrackingDataWhereInput,
+    options: TrailOptions
+  ): Promise<Trail> {
+    try {
+      const fixes = await prisma.trackingData.findMany({
+        where: {
+          ...where,
+          timestamp: { gte: options.from, lte: options.to },
+        },
+        orderBy: { timestamp: 'asc' },
+        take: MAX_TRAIL_POINTS + 1,
+        select: {
+          latitude: true,
+          longitude: true,
+          timestamp: true,
+          speed: true,
+          heading: true,
+          orderId: true,
+        },
+      });
+
+      if (fixes.length > MAX_TRAIL_POINTS) {
+        throw createError(`Trail has more than ${MAX_TRAIL_POINTS} points, narrow the time range`, 400);
+      }
+
+      const stops = options.detectStops
+        ? this.detectStops(
+          fixes,
+          (options.stopRadiusMeters ?? DEFAULT_STOP_RADIUS_METERS) / 1000,
+          options.minStopSeconds ?? DEFAULT_MIN_STOP_SECONDS
+        )
+        : [];
+
+      const points = options.simplifyToleranceMeters
+        ? simplifyPath(fixes, options.simplifyToleranceMeters / 1000)
+        : fixes;
+
+      logger.debug('Trail built', { subject, recorded: fixes.length, returned: points.length, stops: stops.length });
+
+      return {
+        subject,
+        from: options.from ?? fixes[0]?.timestamp ?? null,
+        to: options.to ?? fixes[fixes.length - 1]?.timestamp ?? null,
+        points,
+        stops,
+        distanceKm: Math.round(pathDistance(fixes) * 1000) / 1000,
+        recordedPoints: fixes.length,
+      };
+    } catch (error) {
+      if (error instanceof Error && (error as any).statusCode) {
+        throw error;
+      }
+      logger.error('Failed to build trail', { error, subject });
+      throw createError('Failed to build trail', 500);
+    }
+  }
+
+  // Runs of fixes that stay within radiusKm of the run's first fix
+  private detectStops(fixes: TrailPoint[], radiusKm: number, minStopSeconds: number): TrailStop[] {
+    const stops: TrailStop[] = [];
+    let start = 0;
+
+    while (start < fixes.length) {
+      let end = start;
+      while (end + 1 < fixes.length && haversineDistance(fixes[start], fixes[end + 1]) <= radiusKm) {
+        end++;
+      }
+
+      const durationSeconds = (fixes[end].timestamp.getTime() - fixes[start].timestamp.getTime()) / 1000;
+      if (durationSeconds >= minStopSeconds) {
+        const run = fixes.slice(start, end + 1);
+        stops.push({
+          latitude: run.reduce((sum, fix) => sum + fix.latitude, 0) / run.length,
+          longitude: run.reduce((sum, fix) => sum + fix.longitude, 0) / run.length,
+          arrivedAt: fixes[start].timestamp,
+          departedAt: fixes[end].timestamp,
+          durationSeconds: Math.round(durationSeconds),
+        });
+      }
+
+      start = end + 1;
+    }
+
+    return stops;
+  }
+}
+
+export const trailService = new TrailService();
@@ -1,7 +1,9 @@
-import { Transporter, TransporterStatus, VehicleType, Prisma } from '@prisma/client';
+import { OrderStatus, Transporter, TransporterRating, TransporterStatus, VehicleType, Prisma } from '@prisma/client';
 import prisma from '@/config/database';
 import { createError } from '@/middleware/errorHandler';
 import { logger } from '@/utils/logger';
+import { geoIndexService } from '@/services/geoIndexService';
+import { telemetryService } from '@/services/telemetryService';
 
 export interface CreateTransporterData {
   name: string;
@@ -20,11 +22,19 @@ export interface UpdateTransporterData {
   vehicleType?: VehicleType;
   capacityWeight?: number;
   capacityVolume?: number;
-  currentLocation?: {
-    latitude: number;
-    longitude: number;
-  };
-  availabilityStatus?: TransporterStatus;
+}
+
+export interface LocationUpdate {
+  latitude: number;
+  longitude: number;
+  heading?: number;
+  speed?: number;
+}
+
+export interface TransporterRatingData {
+  orderId: string;
+  customerId: string;
+  rating: number;
 }
 
 export interface TransporterFilters {
@@ -100,41 +110,32 @@ export class TransporterService {
       if (filters.minCapacityWeight) where.capacityWeight = { gte: filters.minCapacityWeight };
       if (filters.minCapacityVolume) where.capacityVolume = { gte: filters.minCapacityVolume };
 
-      let transporters = await prisma.transporter.findMany({
-        where,
-        include: {
-          orders: {
-            where: {
-              status: { in: ['ASSIGNED', 'IN_TRANSIT'] },
-            },
+      const include = {
+        orders: {
+          where: {
+            status: { in: [OrderStatus.ASSIGNED, OrderStatus.IN_TRANSIT] },
           },
-          _count: {
-            select: {
-              orders: true,
-              routes: true,
-            },
+        },
+        _count: {
+          select: {
+            orders: true,
+            routes: true,
           },
         },
+      };
+
+      if (filters.nearLocation) {
+        return await this.getNearbyTransporters(filters, where, include);
+      }
+
+      const transporters = await prisma.transporter.findMany({
+        where,
+        include,
         orderBy: { createdAt: 'desc' },
         take: filters.limit || 50,
         skip: filters.offset || 0,
       });
 
-      // Filter by location if specified
-      if (filters.nearLocation) {
-        transporters = transporters.filter(transporter => {
-          if (!transporter.currentLocation) return false;
-          
-          const location = transporter.currentLocation as any;
-          const distance = this.calculateDistance(
-            filters.nearLocation!,
-            { latitude: location.latitude, longitude: location.longitude }
-          );
-          
-          return distance <= filters.nearLocation!.radiusKm;
-        });
-      }
-
       const total = await prisma.transporter.count({ where });
 
       return {
@@ -151,6 +152,55 @@ export class TransporterService {
     }
   }
 
+  /**
+   * Proximity search: the geo index yields every transporter in the radius,
+   * the remaining filters run in the database, and pagination happens last
+   * so `total` counts all matches. Results are nearest first, each with its
+   * straight-line `distanceKm`; `limit` alone gives the k nearest.
+   */
+  private async getNearbyTransporters<T extends Prisma.TransporterInclude>(
+    filters: TransporterFilters,
+    where: Prisma.TransporterWhereInput,
+    include: T
+  ) {
+    const { latitude, longitude, radiusKm } = filters.nearLocation!;
+    const limit = filters.limit || 50;
+    const offset = filters.offset || 0;
+
+    const nearby = await geoIndexService.searchTransporters({ latitude, longitude }, radiusKm);
+    const distances = new Map(nearby.map(match => [match.id, match.distanceKm]));
+
+    const matching = await prisma.transporter.findMany({
+      where: { ...where, id: { in: nearby.map(match => match.id) } },
+      select: { id: true },
+    });
+    const pageIds = matching
+      .map(transporter => transporter.id)
+      .sort((a, b) => distances.get(a)! - distances.get(b)!)
+      .slice(offset, offset + limit);
+
+    const page = await prisma.transporter.findMany({
+      where: { id: { in: pageIds } },
+      include,
+    });
+
+    const transporters = page
+      .map(transporter => ({
+        ...transporter,
+        distanceKm: Math.round(distances.get(transporter.id)! * 1000) / 1000,
+      }))
+      .sort((a, b) => a.distanceKm - b.distanceKm);
+
+    return {
+      transporters,
+      pagination: {
+        total: matching.length,
+        limit,
+        offset,
+      },
+    };
+  }
+
   async getTransporterById(id: string): Promise<Transporter> {
     try {
       const transporter = await prisma.transporter.findUnique({
@@ -233,46 +283,84 @@ export class TransporterService {
     }
   }
 
+  /**
+   * Sets a transporter's availability by hand. BUSY follows assignments
+   * instead, and a transporter with active orders stays BUSY until the
+   * last one is done.
+   */
   async updateStatus(id: string, status: TransporterStatus): Promise<Transporter> {
+    if (status === TransporterStatus.BUSY) {
+      throw createError('Transporters become busy when an order is assigned to them', 409);
+    }
+
     try {
-      const transporter = await prisma.transporter.update({
-        where: { id },
-        data: {
-          availabilityStatus: status,
-          updatedAt: new Date(),
-        },
+      const transporter = await prisma.$transaction(async (tx) => {
+        const activeOrders = await tx.order.count({
+          where: {
+            transporterId: id,
+            status: { in: [OrderStatus.ASSIGNED, OrderStatus.IN_TRANSIT] },
+          },
+        });
+
+        if (activeOrders > 0) {
+          throw createError('Transporter has active orders and stays busy until they are done', 409);
+        }
+
+        return tx.transporter.update({
+          where: { id },
+          data: {
+            availabilityStatus: status,
+            updatedAt: new Date(),
+          },
+        });
       });
 
       logger.info('Transporter status updated', { transporterId: id, status });
       return transporter;
     } catch (error) {
+      if (error instanceof Error && (error as any).statusCode) {
+        throw error;
+      }
       logger.error('Failed to update transporter status', { error, transporterId: id, status });
       throw createError('Failed to update transporter status', 500);
     }
   }
 
-  async updateLocation(id: string, location: { latitude: number; longitude: number }): Promise<void> {
+  async setVerification(id: string, isVerified: boolean): Promise<Transporter> {
     try {
-      await prisma.transporter.update({
+      const transporter = await prisma.transporter.update({
         where: { id },
         data: {
-          currentLocation: location,
+          isVerified,
           updatedAt: new Date(),
         },
       });
 
-      // Also store in tracking data
-      await prisma.trackingData.create({
-        data: {
-          transporterId: id,
-          latitude: location.latitude,
-          longitude: location.longitude,
-          timestamp: new Date(),
-        },
-      });
+      logger.info('Transporter verification updated', { transporterId: id, isVerified });
+      return transporter;
+    } catch (error) {
+      logger.error('Failed to update transporter verification', { error, transporterId: id, isVerified });
+      throw createError('Failed to update transporter verification', 500);
+    }
+  }
+
+  /**
+   * Records the transporter's current position as a single telemetry fix,
+   * so it gets the same plausibility checks and order linking as batches.
+   */
+  async updateLocation(id: string, location: LocationUpdate): Promise<void> {
+    try {
+      const { rejected } = await telemetryService.ingestFixes(id, [{ ...location, timestamp: new Date() }]);
+
+      if (rejected.length > 0) {
+        throw createError(`Location rejected: ${rejected[0].reason}`, 422);
+      }
 
       logger.debug('Transporter location updated', { transporterId: id, location });
     } catch (error) {
+      if (error instanceof Error && (error as any).statusCode) {
+        throw error;
+      }
       logger.error('Failed to update transporter location', { error, transporterId: id, location });
       throw createError('Failed to update location', 500);
     }
@@ -287,6 +375,7 @@ export class TransporterService {
       longitude: number;
       radiusKm: number;
     };
+    limit?: number;
   } = {}) {
     return this.getTransporters({
       ...filters,
@@ -325,45 +414,62 @@ export class TransporterService {
     }
   }
 
-  async updateRating(transporterId: string, newRating: number): Promise<void> {
+  /**
+   * Records a customer's rating for the transporter who delivered one of
+   * their orders. Each order can be rated once; the running average is
+   * updated guarded on the count it was computed from.
+   */
+  async rateTransporter(transporterId: string, data: TransporterRatingData): Promise<TransporterRating> {
     try {
-      const transporter = await this.getTransporterById(transporterId);
-      const currentRating = transporter.rating;
-      const totalDeliveries = transporter.totalDeliveries;
+      return await prisma.$transaction(async (tx) => {
+        const order = await tx.order.findUnique({ where: { id: data.orderId } });
 
-      // Calculate new average rating
-      const updatedRating = ((currentRating * totalDeliveries) + newRating) / (totalDeliveries + 1);
+        if (!order || order.customerId !== data.customerId) {
+          throw createError('Order not found', 404);
+        }
+        if (order.status !== OrderStatus.DELIVERED) {
+          throw createError('Only delivered orders can be rated', 409);
+        }
+        if (order.transporterId !== transporterId) {
+          throw createError('Order was not delivered by this transporter', 409);
+        }
 
-      await prisma.transporter.update({
-        where: { id: transporterId },
-        data: {
-          rating: Math.round(updatedRating * 100) / 100, // Round to 2 decimal places
-          totalDeliveries: totalDeliveries + 1,
-        },
-      });
+        const transporter = await tx.transporter.findUnique({ where: { id: transporterId } });
+        if (!transporter) {
+          throw createError('Transporter not found', 404);
+        }
 
-      logger.info('Transporter rating updated', { transporterId, newRating, updatedRating });
-    } catch (error) {
-      logger.error('Failed to update transporter rating', { error, transporterId, newRating });
-      throw createError('Failed to update rating', 500);
-    }
-  }
+        const rating = await tx.transporterRating.create({
+          data: { orderId: order.id, transporterId, customerId: data.customerId, rating: data.rating },
+        });
 
-  private calculateDistance(point1: { latitude: number; longitude: number }, point2: { latitude: number; longitude: number }): number {
-    const R = 6371; // Earth's radius in km
-    const dLat = this.toRadians(point2.latitude - point1.latitude);
-    const dLon = this.toRadians(point2.longitude - point1.longitude);
-    
-    const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-              Math.cos(this.toRadians(point1.latitude)) * Math.cos(this.toRadians(point2.latitude)) *
-              Math.sin(dLon / 2) * Math.sin(dLon / 2);
-    
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-  }
+        const ratingCount = transporter.ratingCount + 1;
+        const average = (transporter.rating * transporter.ratingCount + data.rating) / ratingCount;
+        const { count } = await tx.transporter.updateMany({
+          where: { id: transporterId, ratingCount: transporter.ratingCount },
+          data: {
+            rating: Math.round(average * 100) / 100, // Round to 2 decimal places
+            ratingCount,
+          },
+        });
+
+        if (count === 0) {
+          throw createError('Transporter rating changed concurrently, please retry', 409);
+        }
 
-  private toRadians(degrees: number): number {
-    return degrees * (Math.PI / 180);
+        logger.info('Transporter rated', { transporterId, orderId: order.id, rating: data.rating, average });
+        return rating;
+      });
+    } catch (error) {
+      if (error instanceof Error && (error as any).statusCode) {
+        throw error;
+      }
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw createError('Order has already been rated', 409);
+      }
+      logger.error('Failed to rate transporter', { error, transporterId, orderId: data.orderId });
+      throw createError('Failed to rate transporter', 500);
+    }
   }
 }
 
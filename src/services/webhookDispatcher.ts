@@ -0,0 +1,177 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import https from 'https';
+import net from 'net';
+import axios from 'axios';
+import { WebhookDeliveryStatus } from '@prisma/client';
+import prisma from '@/config/database';
+import { logger } from '@/utils/logger';
+
+const REQUEST_TIMEOUT_MS = 10000;
+const MAX_ERROR_LENGTH = 500;
+
+// Loopback, private, link-local and other non-public ranges receivers may not resolve to
+const BLOCKED_ADDRESSES = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+].forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+].forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv6'));
+
+export const isPublicAddress = (address: string): boolean => {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+
+  // IPv4-mapped IPv6 addresses are checked as the IPv4 address they carry
+  const mapped = family === 6 ? address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/) : null;
+  if (mapped) return !BLOCKED_ADDRESSES.check(mapped[1], 'ipv4');
+
+  return !BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+/**
+ * Resolves receiver hosts for the connection itself and refuses non-public
+ * addresses, so a name cannot be re-pointed at an internal address between
+ * a check and the request.
+ */
+const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', 0);
+
+    const resolved = addresses as dns.LookupAddress[];
+    const blocked = resolved.find(entry => !isPublicAddress(entry.address));
+    if (blocked || resolved.length === 0) {
+      return callback(new Error(`Receiver host ${hostname} does not resolve to a public address`), '', 0);
+    }
+
+    if (options.all) {
+      return (callback as unknown as (err: null, addresses: dns.LookupAddress[]) => void)(null, resolved);
+    }
+    callback(null, resolved[0].address, resolved[0].family);
+  });
+};
+
+const receiverAgent = new https.Agent({ lookup: publicOnlyLookup });
+
+// Why a receiver URL is refused before any request, or null; address literals skip the lookup above
+const refuseReceiver = (url: string): string | null => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Receiver URL is invalid';
+  }
+
+  if (parsed.protocol !== 'https:') return 'Receiver URL must use https';
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host) && !isPublicAddress(host)) return 'Receiver address is not public';
+
+  return null;
+};
+
+export const SIGNATURE_HEADER = 'X-Ridelink-Signature';
+
+/**
+ * `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`. Receivers
+ * recompute the HMAC with their subscription secret and reject stale
+ * timestamps to guard against replayed requests.
+ */
+export const signPayload = (secret: string, body: string, timestamp: number): string => {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+};
+
+/**
+ * Sends one attempt of a webhook delivery and records the outcome in the
+ * delivery log. Kept apart from webhookService, which enqueues deliveries,
+ * so the job queue can call it without a circular import.
+ */
+export class WebhookDispatcher {
+  /**
+   * Throws when the receiver does not answer with a 2xx so the job queue
+   * retries with backoff; the delivery is marked FAILED on the last attempt.
+   */
+  async deliver(deliveryId: string, lastAttempt: boolean): Promise<void> {
+    const delivery = await prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { subscription: true },
+    });
+
+    if (!delivery || delivery.status === WebhookDeliveryStatus.SUCCEEDED) return;
+
+    // Deactivated after the event was queued
+    if (!delivery.subscription.isActive) {
+      await prisma.webhookDelivery.update({
+        where: { id: deliveryId },
+        data: { status: WebhookDeliveryStatus.FAILED, lastError: 'Subscription is inactive' },
+      });
+      return;
+    }
+
+    const refusal = refuseReceiver(delivery.subscription.url);
+    if (refusal) {
+      await prisma.webhookDelivery.update({
+        where: { id: deliveryId },
+        data: { status: WebhookDeliveryStatus.FAILED, lastError: refusal },
+      });
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    let responseStatus: number | undefined;
+    try {
+      const response = await axios.post(delivery.subscription.url, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Ridelink-Webhooks/1.0',
+          'X-Ridelink-Event': delivery.eventType,
+          'X-Ridelink-Delivery': delivery.id,
+          [SIGNATURE_HEADER]: signPayload(delivery.subscription.secret, body, timestamp),
+        },
+        timeout: REQUEST_TIMEOUT_MS,
+        maxRedirects: 0,
+        httpsAgent: receiverAgent,
+        validateStatus: () => true,
+      });
+      responseStatus = response.status;
+
+      // Only the status is recorded; receivers' bodies never reach the customer-visible log
+      if (response.status < 200 || response.status >= 300) {
+        throw new Error(`Receiver answered ${response.status}`);
+      }
+
+      await prisma.webhookDelivery.update({
+        where: { id: deliveryId },
+        data: {
+          status: WebhookDeliveryStatus.SUCCEEDED,
+          attempts: { increment: 1 },
+          responseStatus,
+          lastError: null,
+          deliveredAt: new Date(),
+        },
+      });
+    } catch (error) {
+      const message = (error instanceof Error ? error.message : String(error)).slice(0, MAX_ERROR_LENGTH);
+
+      await prisma.webhookDelivery.update({
+        where: { id: deliveryId },
+        data: {
+          status: lastAttempt ? WebhookDeliveryStatus.FAILED : WebhookDeliveryStatus.PENDING,
+          attempts: { increment: 1 },
+          responseStatus: responseStatus ?? null,
+          lastError: message,
+        },
+      });
+
+      logger.warn('Webhook delivery attempt failed', { deliveryId, url: delivery.subscription.url, error: message, lastAttempt });
+      throw new Error(message);
+    }
+  }
+}
+
+export const webhookDispatcher = new WebhookDispatcher();
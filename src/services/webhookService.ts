@@ -0,0 +1,321 @@
+import crypto from 'crypto';
+import { OrderStatus, Prisma, WebhookDelivery, WebhookDeliveryStatus, WebhookSubscription } from '@prisma/client';
+import prisma from '@/config/database';
+import { createError } from '@/middleware/errorHandler';
+import { logger } from '@/utils/logger';
+import {
+  eventBus,
+  OrderStatusEvent,
+  RouteEtaEvent,
+  RouteRecalculatedEvent,
+  TransporterLocationEvent,
+} from '@/services/eventBus';
+import { jobService } from '@/services/jobService';
+
+export const WEBHOOK_EVENT_TYPES = [
+  'order.created',
+  'order.assigned',
+  'order.unassigned',
+  'order.in_transit',
+  'order.delivered',
+  'order.cancelled',
+  'order.failed',
+  'route.recalculated',
+  'route.eta',
+  'transporter.location',
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
+export type PublicWebhookSubscription = Omit<WebhookSubscription, 'secret'>;
+
+export interface CreateWebhookData {
+  customerId: string;
+  url: string;
+  eventTypes: WebhookEventType[];
+  description?: string;
+}
+
+export interface UpdateWebhookData {
+  url?: string;
+  eventTypes?: WebhookEventType[];
+  description?: string;
+  isActive?: boolean;
+}
+
+export interface DeliveryFilters {
+  status?: WebhookDeliveryStatus;
+  limit?: number;
+  offset?: number;
+}
+
+// What receivers get, signed, as the request body
+export interface WebhookPayload {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+const SECRET_BYTES = 32;
+
+const toPublicSubscription = (subscription: WebhookSubscription): PublicWebhookSubscription => {
+  const publicSubscription: Partial<WebhookSubscription> = { ...subscription };
+  delete publicSubscription.secret;
+  return publicSubscription as PublicWebhookSubscription;
+};
+
+const orderEventType = (event: OrderStatusEvent): WebhookEventType => {
+  if (event.toStatus === OrderStatus.PENDING) {
+    return event.fromStatus === null ? 'order.created' : 'order.unassigned';
+  }
+  return `order.${event.toStatus.toLowerCase()}` as WebhookEventType;
+};
+
+/**
+ * Lets customers' systems follow their orders through signed HTTP
+ * callbacks. Each matching subscription gets a logged delivery that the
+ * job queue sends and retries, so slow receivers never hold up the API.
+ */
+export class WebhookService {
+  start(): () => void {
+    const unsubscribers = [
+      eventBus.on('order.status', event => this.handleOrderStatus(event)),
+      eventBus.on('route.recalculated', event => this.handleRouteEvent('route.recalculated', event)),
+      eventBus.on('route.eta', event => this.handleRouteEvent('route.eta', event)),
+      eventBus.on('transporter.location', event => this.handleLocation(event)),
+    ];
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
+  async handleOrderStatus(event: OrderStatusEvent): Promise<void> {
+    const order = await prisma.order.findUnique({
+      where: { id: event.orderId },
+      select: { customerId: true, transporterId: true },
+    });
+
+    if (!order) return;
+
+    await this.publish(orderEventType(event), order.customerId, {
+      orderId: event.orderId,
+      fromStatus: event.fromStatus,
+      toStatus: event.toStatus,
+      transporterId: order.transporterId,
+      reason: event.reason ?? null,
+      timestamp: event.timestamp,
+    });
+  }
+
+  async handleRouteEvent(type: 'route.recalculated' | 'route.eta', event: RouteRecalculatedEvent | RouteEtaEvent): Promise<void> {
+    const order = await prisma.order.findUnique({
+      where: { id: event.orderId },
+      select: { customerId: true },
+    });
+
+    if (!order) return;
+
+    await this.publish(type, order.customerId, { ...event });
+  }
+
+  // One delivery per customer, listing only that customer's orders
+  async handleLocation(event: TransporterLocationEvent): Promise<void> {
+    if (event.orderIds.length === 0) return;
+
+    const orders = await prisma.order.findMany({
+      where: { id: { in: event.orderIds } },
+      select: { id: true, customerId: true },
+    });
+
+    const byCustomer = new Map<string, string[]>();
+    orders.forEach(order => {
+      byCustomer.set(order.customerId, [...(byCustomer.get(order.customerId) || []), order.id]);
+    });
+
+    for (const [customerId, orderIds] of byCustomer) {
+      await this.publish('transporter.location', customerId, { ...event, orderIds });
+    }
+  }
+
+  /**
+   * Records a delivery for every active subscription of the customer that
+   * wants `type` and queues it. Queueing failures leave the delivery
+   * PENDING in the log, from where it can be replayed.
+   */
+  async publish(type: WebhookEventType, customerId: string, data: Record<string, unknown>): Promise<void> {
+    const subscriptions = await prisma.webhookSubscription.findMany({
+      where: { customerId, isActive: true, eventTypes: { has: type } },
+      select: { id: true },
+    });
+
+    if (subscriptions.length === 0) return;
+
+    const payload: WebhookPayload = {
+      id: crypto.randomUUID(),
+      type,
+      createdAt: new Date().toISOString(),
+      data,
+    };
+
+    for (const subscription of subscriptions) {
+      const delivery = await prisma.webhookDelivery.create({
+        data: {
+          subscriptionId: subscription.id,
+          eventType: type,
+          payload: JSON.parse(JSON.stringify(payload)) as Prisma.InputJsonValue,
+        },
+      });
+
+      await jobService.enqueueWebhookDelivery(delivery.id).catch((error) => {
+        logger.error('Failed to queue webhook delivery', { error, deliveryId: delivery.id });
+      });
+    }
+  }
+
+  /**
+   * The secret is returned only here; receivers use it to verify the
+   * X-Ridelink-Signature header of every delivery.
+   */
+  async createSubscription(data: CreateWebhookData): Promise<WebhookSubscription> {
+    try {
+      const subscription = await prisma.webhookSubscription.create({
+        data: {
+          customerId: data.customerId,
+          url: data.url,
+          eventTypes: [...new Set(data.eventTypes)],
+          description: data.description,
+          secret: `whsec_${crypto.randomBytes(SECRET_BYTES).toString('hex')}`,
+        },
+      });
+
+      logger.info('Webhook subscription created', { subscriptionId: subscription.id, customerId: data.customerId });
+      return subscription;
+    } catch (error) {
+      logger.error('Failed to create webhook subscription', { error, customerId: data.customerId });
+      throw createError('Failed to create webhook subscription', 500);
+    }
+  }
+
+  async getSubscriptions(customerId?: string): Promise<PublicWebhookSubscription[]> {
+    try {
+      const subscriptions = await prisma.webhookSubscription.findMany({
+        where: { customerId },
+        orderBy: { createdAt: 'desc' },
+      });
+      return subscriptions.map(toPublicSubscription);
+    } catch (error) {
+      logger.error('Failed to fetch webhook subscriptions', { error, customerId });
+      throw createError('Failed to fetch webhook subscriptions', 500);
+    }
+  }
+
+  async getSubscription(id: string): Promise<PublicWebhookSubscription> {
+    const subscription = await prisma.webhookSubscription.findUnique({ where: { id } });
+
+    if (!subscription) {
+      throw createError('Webhook subscription not found', 404);
+    }
+
+    return toPublicSubscription(subscription);
+  }
+
+  async updateSubscription(id: string, data: UpdateWebhookData): Promise<PublicWebhookSubscription> {
+    await this.getSubscription(id);
+
+    try {
+      const subscription = await prisma.webhookSubscription.update({
+        where: { id },
+        data: {
+          ...data,
+          eventTypes: data.eventTypes ? [...new Set(data.eventTypes)] : undefined,
+        },
+      });
+      return toPublicSubscription(subscription);
+    } catch (error) {
+      logger.error('Failed to update webhook subscription', { error, subscriptionId: id });
+      throw createError('Failed to update webhook subscription', 500);
+    }
+  }
+
+  async deleteSubscription(id: string): Promise<void> {
+    await this.getSubscription(id);
+
+    try {
+      await prisma.$transaction([
+        prisma.webhookDelivery.deleteMany({ where: { subscriptionId: id } }),
+        prisma.webhookSubscription.delete({ where: { id } }),
+      ]);
+      logger.info('Webhook subscription deleted', { subscriptionId: id });
+    } catch (error) {
+      logger.error('Failed to delete webhook subscription', { error, subscriptionId: id });
+      throw createError('Failed to delete webhook subscription', 500);
+    }
+  }
+
+  async getDeliveries(subscriptionId: string, filters: DeliveryFilters = {}) {
+    try {
+      const where: Prisma.WebhookDeliveryWhereInput = { subscriptionId, status: filters.status };
+
+      const [deliveries, total] = await Promise.all([
+        prisma.webhookDelivery.findMany({
+          where,
+          orderBy: { createdAt: 'desc' },
+          take: filters.limit || 50,
+          skip: filters.offset || 0,
+        }),
+        prisma.webhookDelivery.count({ where }),
+      ]);
+
+      return {
+        deliveries,
+        pagination: {
+          total,
+          limit: filters.limit || 50,
+          offset: filters.offset || 0,
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to fetch webhook deliveries', { error, subscriptionId });
+      throw createError('Failed to fetch webhook deliveries', 500);
+    }
+  }
+
+  /**
+   * Sends a past delivery's payload again as a new delivery, keeping the
+   * original in the log. The payload id is unchanged so receivers can
+   * deduplicate.
+   */
+  async replayDelivery(subscriptionId: string, deliveryId: string): Promise<WebhookDelivery> {
+    const original = await prisma.webhookDelivery.findFirst({ where: { id: deliveryId, subscriptionId } });
+
+    if (!original) {
+      throw createError('Webhook delivery not found', 404);
+    }
+
+    const subscription = await this.getSubscription(subscriptionId);
+    if (!subscription.isActive) {
+      throw createError('Webhook subscription is inactive', 409);
+    }
+
+    try {
+      const replay = await prisma.webhookDelivery.create({
+        data: {
+          subscriptionId,
+          eventType: original.eventType,
+          payload: original.payload as Prisma.InputJsonValue,
+          replayOf: original.id,
+        },
+      });
+
+      await jobService.enqueueWebhookDelivery(replay.id);
+
+      logger.info('Webhook delivery replayed', { deliveryId, replayId: replay.id });
+      return replay;
+    } catch (error) {
+      logger.error('Failed to replay webhook delivery', { error, deliveryId });
+      throw createError('Failed to replay webhook delivery', 500);
+    }
+  }
+}
+
+export const webhookService = new WebhookService();
@@ -0,0 +1,103 @@
+import { solveAssignment } from './assignment';
+
+const totalCost = (matrix: number[][], assignment: number[]) =>
+  assignment.reduce((sum, col, row) => sum + (col >= 0 ? matrix[row][col] : 0), 0);
+
+// Cheapest total over every way of giving each row a distinct column (or none, when rows outnumber columns)
+const bruteForceCost = (matrix: number[][]): number => {
+  const rows = matrix.length;
+  const cols = matrix[0].length;
+  const assigned = Math.min(rows, cols);
+  let best = Infinity;
+
+  const search = (row: number, used: boolean[], cost: number, count: number) => {
+    if (row === rows) {
+      if (count === assigned) best = Math.min(best, cost);
+      return;
+    }
+    if (rows - row > assigned - count) search(row + 1, used, cost, count);
+    for (let col = 0; col < cols; col++) {
+      if (used[col]) continue;
+      used[col] = true;
+      search(row + 1, used, cost + matrix[row][col], count + 1);
+      used[col] = false;
+    }
+  };
+
+  search(0, new Array<boolean>(cols).fill(false), 0, 0);
+  return best;
+};
+
+// Deterministic matrices so failures reproduce
+const seededMatrix = (rows: number, cols: number, seed: number): number[][] => {
+  let state = seed;
+  const next = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+  return Array.from({ length: rows }, () => Array.from({ length: cols }, () => Math.round(next() * 100)));
+};
+
+describe('solveAssignment', () => {
+  it('returns an empty assignment for an empty matrix', () => {
+    expect(solveAssignment([])).toEqual([]);
+  });
+
+  it('leaves every row unassigned when there are no columns', () => {
+    expect(solveAssignment([[], []])).toEqual([-1, -1]);
+  });
+
+  it('finds the optimal square assignment', () => {
+    const matrix = [
+      [4, 1, 3],
+      [2, 0, 5],
+      [3, 2, 2],
+    ];
+
+    const assignment = solveAssignment(matrix);
+
+    expect(assignment).toEqual([1, 0, 2]);
+    expect(totalCost(matrix, assignment)).toBe(5);
+  });
+
+  it('uses each column at most once when there are more columns than rows', () => {
+    const matrix = [
+      [10, 1, 1, 10],
+      [10, 1, 2, 10],
+    ];
+
+    const assignment = solveAssignment(matrix);
+
+    expect(assignment).toEqual([2, 1]);
+    expect(totalCost(matrix, assignment)).toBe(2);
+  });
+
+  it('leaves the costliest rows unassigned when there are more rows than columns', () => {
+    const matrix = [
+      [5, 9],
+      [1, 8],
+      [7, 2],
+    ];
+
+    const assignment = solveAssignment(matrix);
+
+    expect(assignment).toEqual([-1, 0, 1]);
+    expect(totalCost(matrix, assignment)).toBe(3);
+  });
+
+  it.each([
+    [4, 4, 1],
+    [5, 5, 7],
+    [3, 6, 11],
+    [6, 3, 13],
+    [5, 4, 17],
+  ])('matches brute force on a %ix%i matrix (seed %i)', (rows, cols, seed) => {
+    const matrix = seededMatrix(rows, cols, seed);
+    const assignment = solveAssignment(matrix);
+
+    const columns = assignment.filter(col => col >= 0);
+    expect(columns.length).toBe(Math.min(rows, cols));
+    expect(new Set(columns).size).toBe(columns.length);
+    expect(totalCost(matrix, assignment)).toBe(bruteForceCost(matrix));
+  });
+});
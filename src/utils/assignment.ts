@@ -0,0 +1,81 @@
+/**
+ * Solves the rectangular assignment problem with the Hungarian algorithm
+ * (Kuhn-Munkres with potentials, O(n^2 * m)).
+ *
+ * Returns, for every row, the index of the column assigned to it, or -1 when
+ * the matrix has more rows than columns and the row was left unassigned.
+ */
+export const solveAssignment = (costMatrix: number[][]): number[] => {
+  const rows = costMatrix.length;
+  if (rows === 0) return [];
+
+  const cols = costMatrix[0].length;
+  if (cols === 0) return new Array<number>(rows).fill(-1);
+
+  // The potential-based formulation needs rows <= cols, so solve the transpose otherwise
+  if (rows > cols) {
+    const transposed = Array.from({ length: cols }, (_, j) => costMatrix.map(row => row[j]));
+    const columnAssignment = solveAssignment(transposed);
+    const result = new Array<number>(rows).fill(-1);
+    columnAssignment.forEach((row, col) => {
+      if (row >= 0) result[row] = col;
+    });
+    return result;
+  }
+
+  // 1-indexed arrays as in the classic formulation; index 0 is a virtual row/column
+  const u = new Array<number>(rows + 1).fill(0);
+  const v = new Array<number>(cols + 1).fill(0);
+  const match = new Array<number>(cols + 1).fill(0);
+  const way = new Array<number>(cols + 1).fill(0);
+
+  for (let i = 1; i <= rows; i++) {
+    match[0] = i;
+    let col0 = 0;
+    const minv = new Array<number>(cols + 1).fill(Infinity);
+    const used = new Array<boolean>(cols + 1).fill(false);
+
+    do {
+      used[col0] = true;
+      const row0 = match[col0];
+      let delta = Infinity;
+      let col1 = 0;
+
+      for (let j = 1; j <= cols; j++) {
+        if (used[j]) continue;
+        const current = costMatrix[row0 - 1][j - 1] - u[row0] - v[j];
+        if (current < minv[j]) {
+          minv[j] = current;
+          way[j] = col0;
+        }
+        if (minv[j] < delta) {
+          delta = minv[j];
+          col1 = j;
+        }
+      }
+
+      for (let j = 0; j <= cols; j++) {
+        if (used[j]) {
+          u[match[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+
+      col0 = col1;
+    } while (match[col0] !== 0);
+
+    do {
+      const col1 = way[col0];
+      match[col0] = match[col1];
+      col0 = col1;
+    } while (col0 !== 0);
+  }
+
+  const result = new Array<number>(rows).fill(-1);
+  for (let j = 1; j <= cols; j++) {
+    if (match[j] > 0) result[match[j] - 1] = j - 1;
+  }
+  return result;
+};
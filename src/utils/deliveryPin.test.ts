@@ -0,0 +1,53 @@
+import { afterFailedAttempt, generatePin, hashPin, isLocked, pinMatches, PIN_LENGTH } from './deliveryPin';
+
+const NOW = new Date('2024-05-01T12:00:00Z');
+
+describe('delivery PINs', () => {
+  it('generates zero-padded numeric PINs', () => {
+    for (let i = 0; i < 50; i++) {
+      expect(generatePin()).toMatch(new RegExp(`^\\d{${PIN_LENGTH}}$`));
+    }
+  });
+
+  it('matches only the PIN, order and secret that were hashed', () => {
+    const hash = hashPin('secret', 'order-1', '042917');
+
+    expect(pinMatches('secret', 'order-1', '042917', hash)).toBe(true);
+    expect(pinMatches('secret', 'order-1', '042918', hash)).toBe(false);
+    expect(pinMatches('secret', 'order-2', '042917', hash)).toBe(false);
+    expect(pinMatches('other-secret', 'order-1', '042917', hash)).toBe(false);
+  });
+
+  it('cannot be reproduced from the order and PIN alone', () => {
+    const crypto = jest.requireActual<typeof import('crypto')>('crypto');
+    const unkeyed = crypto.createHash('sha256').update('order-1:042917').digest('hex');
+
+    expect(hashPin('secret', 'order-1', '042917')).not.toBe(unkeyed);
+  });
+
+  it('rejects a malformed stored hash without throwing', () => {
+    expect(pinMatches('secret', 'order-1', '042917', 'abc')).toBe(false);
+  });
+
+  describe('lockout', () => {
+    it('counts down the attempts left before the limit', () => {
+      expect(afterFailedAttempt(1, 5, 15, NOW)).toEqual({ lockedUntil: null, remaining: 4 });
+      expect(afterFailedAttempt(4, 5, 15, NOW)).toEqual({ lockedUntil: null, remaining: 1 });
+    });
+
+    it('locks entry for the lockout period on the last attempt', () => {
+      expect(afterFailedAttempt(5, 5, 15, NOW)).toEqual({
+        lockedUntil: new Date('2024-05-01T12:15:00Z'),
+        remaining: 0,
+      });
+    });
+
+    it('is locked only until the lockout ends', () => {
+      const lockedUntil = new Date('2024-05-01T12:15:00Z');
+
+      expect(isLocked(null, NOW)).toBe(false);
+      expect(isLocked(lockedUntil, NOW)).toBe(true);
+      expect(isLocked(lockedUntil, lockedUntil)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import crypto from 'crypto';
+
+export const PIN_LENGTH = 6;
+
+export const generatePin = (): string =>
+  crypto.randomInt(0, 10 ** PIN_LENGTH).toString().padStart(PIN_LENGTH, '0');
+
+/**
+ * HMAC of the PIN, keyed by a server secret: with only 10^6 possible PINs a
+ * plain hash could be reversed by anyone who got hold of it.
+ */
+export const hashPin = (secret: string, orderId: string, pin: string): string =>
+  crypto.createHmac('sha256', secret).update(`${orderId}:${pin}`).digest('hex');
+
+export const pinMatches = (secret: string, orderId: string, pin: string, hash: string): boolean => {
+  const expected = Buffer.from(hash, 'hex');
+  const actual = Buffer.from(hashPin(secret, orderId, pin), 'hex');
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+};
+
+export const isLocked = (lockedUntil: Date | null, now: Date): boolean =>
+  lockedUntil !== null && lockedUntil > now;
+
+export interface FailedAttemptOutcome {
+  // Set when this failure used up the last attempt
+  lockedUntil: Date | null;
+  remaining: number;
+}
+
+/**
+ * What a wrong PIN leads to, given the attempts counted so far including
+ * this one. Entry locks for `lockoutMinutes` once `maxAttempts` is reached.
+ */
+export const afterFailedAttempt = (
+  attempts: number,
+  maxAttempts: number,
+  lockoutMinutes: number,
+  now: Date
+): FailedAttemptOutcome => {
+  if (attempts >= maxAttempts) {
+    return { lockedUntil: new Date(now.getTime() + lockoutMinutes * 60 * 1000), remaining: 0 };
+  }
+  return { lockedUntil: null, remaining: maxAttempts - attempts };
+};
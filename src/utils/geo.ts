@@ -0,0 +1,165 @@
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+export const toRadians = (degrees: number): number => degrees * (Math.PI / 180);
+
+// Great-circle distance in km
+export const haversineDistance = (point1: GeoPoint, point2: GeoPoint): number => {
+  const dLat = toRadians(point2.latitude - point1.latitude);
+  const dLon = toRadians(point2.longitude - point1.longitude);
+
+  const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+            Math.cos(toRadians(point1.latitude)) * Math.cos(toRadians(point2.latitude)) *
+            Math.sin(dLon / 2) * Math.sin(dLon / 2);
+
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_KM * c;
+};
+
+// Length of a polyline in km
+export const pathDistance = (path: GeoPoint[]): number =>
+  path.reduce((total, point, index) => (index === 0 ? 0 : total + haversineDistance(path[index - 1], point)), 0);
+
+// Initial bearing from point1 to point2 in radians
+export const initialBearing = (point1: GeoPoint, point2: GeoPoint): number => {
+  const lat1 = toRadians(point1.latitude);
+  const lat2 = toRadians(point2.latitude);
+  const dLon = toRadians(point2.longitude - point1.longitude);
+
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  return Math.atan2(y, x);
+};
+
+export interface SegmentProjection {
+  // Distance from the point to the segment
+  distanceKm: number;
+  // Distance from the segment start to the point's projection onto it
+  alongKm: number;
+}
+
+export interface PathProjection extends SegmentProjection {
+  segmentIndex: number;
+  // Distance from the path start to the projection
+  distanceAlongKm: number;
+}
+
+/**
+ * Projects a point onto the great-circle segment between start and end.
+ * The distance is the cross-track distance when the point lies alongside
+ * the segment, otherwise the distance to the nearer endpoint, which is then
+ * also the projection.
+ */
+export const projectOntoSegment = (point: GeoPoint, start: GeoPoint, end: GeoPoint): SegmentProjection => {
+  const startToPoint = haversineDistance(start, point) / EARTH_RADIUS_KM;
+  const startToEnd = haversineDistance(start, end) / EARTH_RADIUS_KM;
+
+  if (startToEnd === 0) {
+    return { distanceKm: startToPoint * EARTH_RADIUS_KM, alongKm: 0 };
+  }
+
+  const bearingDelta = initialBearing(start, point) - initialBearing(start, end);
+
+  // Behind the start of the segment
+  if (Math.cos(bearingDelta) < 0) {
+    return { distanceKm: startToPoint * EARTH_RADIUS_KM, alongKm: 0 };
+  }
+
+  const crossTrack = Math.asin(Math.sin(startToPoint) * Math.sin(bearingDelta));
+  const alongTrack = Math.acos(Math.min(1, Math.cos(startToPoint) / Math.cos(crossTrack)));
+
+  // Past the end of the segment
+  if (alongTrack > startToEnd) {
+    return { distanceKm: haversineDistance(end, point), alongKm: startToEnd * EARTH_RADIUS_KM };
+  }
+
+  return { distanceKm: Math.abs(crossTrack) * EARTH_RADIUS_KM, alongKm: alongTrack * EARTH_RADIUS_KM };
+};
+
+// Distance in km from a point to the great-circle segment between start and end
+export const distanceToSegment = (point: GeoPoint, start: GeoPoint, end: GeoPoint): number =>
+  projectOntoSegment(point, start, end).distanceKm;
+
+/**
+ * Projects a point onto the closest part of a polyline of two or more
+ * points. Parts of the path before `fromKm` are skipped, so progress along
+ * a path that doubles back on itself does not snap back to an earlier pass.
+ */
+export const projectOntoPath = (point: GeoPoint, path: GeoPoint[], fromKm = 0): PathProjection => {
+  let best: PathProjection | null = null;
+  let segmentStartKm = 0;
+
+  for (let index = 0; index < path.length - 1; index++) {
+    const segmentKm = haversineDistance(path[index], path[index + 1]);
+
+    if (segmentStartKm + segmentKm >= fromKm) {
+      const projection = projectOntoSegment(point, path[index], path[index + 1]);
+      const distanceAlongKm = Math.max(fromKm, segmentStartKm + projection.alongKm);
+
+      if (!best || projection.distanceKm < best.distanceKm) {
+        best = { ...projection, segmentIndex: index, distanceAlongKm };
+      }
+    }
+
+    segmentStartKm += segmentKm;
+  }
+
+  return best ?? {
+    distanceKm: haversineDistance(point, path[path.length - 1]),
+    alongKm: 0,
+    segmentIndex: Math.max(0, path.length - 2),
+    distanceAlongKm: segmentStartKm,
+  };
+};
+
+// Shortest distance in km from a point to a polyline
+export const distanceToPath = (point: GeoPoint, path: GeoPoint[]): number => {
+  if (path.length === 1) {
+    return haversineDistance(point, path[0]);
+  }
+
+  return path.slice(1).reduce(
+    (closest, end, index) => Math.min(closest, distanceToSegment(point, path[index], end)),
+    Infinity
+  );
+};
+
+/**
+ * Douglas-Peucker simplification: drops points that lie within
+ * `toleranceKm` of the line through the points kept around them. The first
+ * and last points are always kept. Iterative so long trails cannot
+ * overflow the stack.
+ */
+export const simplifyPath = <T extends GeoPoint>(path: T[], toleranceKm: number): T[] => {
+  if (path.length <= 2 || toleranceKm <= 0) return path;
+
+  const keep = new Array<boolean>(path.length).fill(false);
+  keep[0] = true;
+  keep[path.length - 1] = true;
+
+  const ranges: Array<[number, number]> = [[0, path.length - 1]];
+  while (ranges.length > 0) {
+    const [first, last] = ranges.pop()!;
+    let farthest = -1;
+    let farthestDistance = toleranceKm;
+
+    for (let index = first + 1; index < last; index++) {
+      const distance = distanceToSegment(path[index], path[first], path[last]);
+      if (distance > farthestDistance) {
+        farthest = index;
+        farthestDistance = distance;
+      }
+    }
+
+    if (farthest !== -1) {
+      keep[farthest] = true;
+      ranges.push([first, farthest], [farthest, last]);
+    }
+  }
+
+  return path.filter((_, index) => keep[index]);
+};
@@ -0,0 +1,14 @@
+export interface Dimensions {
+  length: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Order dimensions are recorded in centimetres while transporter volume
+ * capacity is in cubic metres.
+ */
+export const orderVolume = (dimensions: Dimensions | null | undefined): number => {
+  if (!dimensions) return 0;
+  return (dimensions.length * dimensions.width * dimensions.height) / 1_000_000;
+};
@@ -0,0 +1,24 @@
+import { NotificationChannel, NotificationTemplate } from '@prisma/client';
+import { renderTemplate } from './notificationTemplates';
+
+describe('renderTemplate', () => {
+  it.each([NotificationChannel.SMS, NotificationChannel.EMAIL])('masks the delivery PIN in the %s redacted body only', (channel) => {
+    const message = renderTemplate(NotificationTemplate.DELIVERY_PIN, channel, { orderRef: '#AB12CD34', deliveryPin: '042917' });
+
+    expect(message.body).toContain('042917');
+    expect(message.redactedBody).not.toContain('042917');
+    expect(message.redactedBody).toContain('******');
+    expect(message.subject ?? '').not.toContain('042917');
+  });
+
+  it('leaves messages without secrets unchanged', () => {
+    const message = renderTemplate(NotificationTemplate.ORDER_CREATED, NotificationChannel.SMS, {
+      orderRef: '#AB12CD34',
+      pickupTime: 'May 2, 2024, 8:00 AM',
+      pickupAddress: 'Alexanderplatz 1, Berlin',
+    });
+
+    expect(message.redactedBody).toBe(message.body);
+    expect(message.body).toBe('Order #AB12CD34 received. Pickup May 2, 2024, 8:00 AM at Alexanderplatz 1, Berlin.');
+  });
+});
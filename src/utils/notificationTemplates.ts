@@ -0,0 +1,147 @@
+import { NotificationChannel, NotificationTemplate } from '@prisma/client';
+
+/**
+ * Message texts for customer and driver notifications. `{{name}}`
+ * placeholders are filled from the variables; unknown ones render empty.
+ */
+
+export interface TemplateVariables {
+  orderRef: string;
+  recipientName?: string;
+  pickupAddress?: string;
+  deliveryAddress?: string;
+  pickupTime?: string;
+  transporterName?: string;
+  vehicleType?: string;
+  eta?: string;
+  etaWindow?: string;
+  deliveryPin?: string;
+}
+
+export interface RenderedMessage {
+  subject: string | null;
+  body: string;
+  // The body with secrets masked, for the notification record and anything else that keeps a copy
+  redactedBody: string;
+}
+
+// Variables only the recipient may see; subjects must not use them
+const SECRET_VARIABLES: Array<keyof TemplateVariables> = ['deliveryPin'];
+const SECRET_MASK = '******';
+
+interface MessageTemplate {
+  subject: string;
+  // Kept short enough for a single SMS segment where possible
+  sms: string;
+  email: string;
+}
+
+const TEMPLATES: Record<NotificationTemplate, MessageTemplate> = {
+  ORDER_CREATED: {
+    subject: 'Order {{orderRef}} received',
+    sms: 'Order {{orderRef}} received. Pickup {{pickupTime}} at {{pickupAddress}}.',
+    email: [
+      'Hello {{recipientName}},',
+      '',
+      'We have received your order {{orderRef}}.',
+      'Pickup: {{pickupAddress}} at {{pickupTime}}',
+      'Delivery: {{deliveryAddress}}',
+      '',
+      'We will let you know once a transporter is assigned.',
+    ].join('\n'),
+  },
+  TRANSPORTER_ASSIGNED: {
+    subject: 'Transporter assigned to order {{orderRef}}',
+    sms: '{{transporterName}} ({{vehicleType}}) will pick up order {{orderRef}} at {{pickupTime}}.',
+    email: [
+      'Hello {{recipientName}},',
+      '',
+      '{{transporterName}} ({{vehicleType}}) has been assigned to your order {{orderRef}}',
+      'and will pick it up at {{pickupAddress}} at {{pickupTime}}.',
+    ].join('\n'),
+  },
+  OUT_FOR_DELIVERY: {
+    subject: 'Order {{orderRef}} is on its way',
+    sms: 'Order {{orderRef}} is on its way to {{deliveryAddress}}.',
+    email: [
+      'Hello {{recipientName}},',
+      '',
+      'Your order {{orderRef}} has been picked up and is on its way to {{deliveryAddress}}.',
+    ].join('\n'),
+  },
+  ETA_CHANGED: {
+    subject: 'New arrival time for order {{orderRef}}',
+    sms: 'Order {{orderRef}} now expected at {{eta}} ({{etaWindow}}).',
+    email: [
+      'Hello {{recipientName}},',
+      '',
+      'The expected arrival of your order {{orderRef}} has changed.',
+      'It is now expected at {{eta}}, between {{etaWindow}}.',
+    ].join('\n'),
+  },
+  DELIVERED: {
+    subject: 'Order {{orderRef}} delivered',
+    sms: 'Order {{orderRef}} has been delivered to {{deliveryAddress}}.',
+    email: [
+      'Hello {{recipientName}},',
+      '',
+      'Your order {{orderRef}} has been delivered to {{deliveryAddress}}.',
+      'Thank you for shipping with us.',
+    ].join('\n'),
+  },
+  DRIVER_ASSIGNMENT: {
+    subject: 'New assignment: order {{orderRef}}',
+    sms: 'New job {{orderRef}}: pick up {{pickupTime}} at {{pickupAddress}}, deliver to {{deliveryAddress}}.',
+    email: [
+      'Hello {{recipientName}},',
+      '',
+      'You have been assigned order {{orderRef}}.',
+      'Pickup: {{pickupAddress}} at {{pickupTime}}',
+      'Delivery: {{deliveryAddress}}',
+    ].join('\n'),
+  },
+  DRIVER_CANCELLATION: {
+    subject: 'Order {{orderRef}} cancelled',
+    sms: 'Order {{orderRef}} (pickup {{pickupTime}} at {{pickupAddress}}) has been cancelled.',
+    email: [
+      'Hello {{recipientName}},',
+      '',
+      'Order {{orderRef}}, due for pickup at {{pickupAddress}} at {{pickupTime}}, has been cancelled.',
+      'You do not need to collect it.',
+    ].join('\n'),
+  },
+  DELIVERY_PIN: {
+    subject: 'Delivery PIN for order {{orderRef}}',
+    sms: 'Delivery PIN for order {{orderRef}}: {{deliveryPin}}. Give it to the driver only when you receive the order.',
+    email: [
+      'Hello {{recipientName}},',
+      '',
+      'Your order {{orderRef}} needs a delivery PIN at handover: {{deliveryPin}}',
+      'Give it to the driver only when you receive the order. It replaces any earlier PIN.',
+    ].join('\n'),
+  },
+};
+
+const interpolate = (text: string, variables: TemplateVariables) =>
+  text.replace(/{{(\w+)}}/g, (_, name: string) => (variables as unknown as Record<string, string | undefined>)[name] ?? '');
+
+export const renderTemplate = (
+  template: NotificationTemplate,
+  channel: NotificationChannel,
+  variables: TemplateVariables
+): RenderedMessage => {
+  const definition = TEMPLATES[template];
+  const withGreeting = { ...variables, recipientName: variables.recipientName || 'there' };
+  const redacted = { ...withGreeting };
+  SECRET_VARIABLES.forEach(name => {
+    if (redacted[name] !== undefined) redacted[name] = SECRET_MASK;
+  });
+
+  const text = channel === NotificationChannel.EMAIL ? definition.email : definition.sms;
+
+  return {
+    subject: channel === NotificationChannel.EMAIL ? interpolate(definition.subject, withGreeting) : null,
+    body: interpolate(text, withGreeting),
+    redactedBody: interpolate(text, redacted),
+  };
+};
@@ -0,0 +1,95 @@
+import { priceShipment, ShipmentFacts, Tariff } from './tariff';
+
+const tariff: Tariff = {
+  currency: 'USD',
+  baseFare: 10,
+  perKm: 2,
+  perKg: 0.5,
+  volumetricDivisor: 5000,
+  minimumFare: 25,
+  surcharges: [
+    { code: 'FRAGILE', label: 'Fragile handling', keywords: ['fragile'], amount: 5 },
+    { code: 'REFRIGERATED', label: 'Refrigeration', keywords: ['refrigerated', 'cold chain'], percent: 20 },
+  ],
+  timeBands: [
+    { label: 'Night', startHour: 22, endHour: 6, multiplier: 1.5 },
+    { label: 'Weekend', days: [0, 6], startHour: 0, endHour: 24, multiplier: 1.25 },
+  ],
+};
+
+// Weekday afternoon, outside every time band
+const facts = (overrides: Partial<ShipmentFacts> = {}): ShipmentFacts => ({
+  distanceKm: 10,
+  weightKg: 20,
+  volumeCm3: 50000,
+  localHour: 14,
+  localDay: 3,
+  ...overrides,
+});
+
+const line = (result: ReturnType<typeof priceShipment>, code: string) =>
+  result.lines.find(candidate => candidate.code === code);
+
+describe('priceShipment', () => {
+  it('charges base fare, distance and weight', () => {
+    const result = priceShipment(tariff, facts());
+
+    expect(result.lines.map(candidate => candidate.code)).toEqual(['BASE', 'DISTANCE', 'WEIGHT']);
+    expect(line(result, 'DISTANCE')).toMatchObject({ quantity: 10, unitPrice: 2, amount: 20 });
+    expect(line(result, 'WEIGHT')).toMatchObject({ label: 'Weight', quantity: 20, amount: 10 });
+    expect(result.total).toBe(40);
+  });
+
+  it('charges volumetric weight when it exceeds the actual weight', () => {
+    const result = priceShipment(tariff, facts({ weightKg: 5, volumeCm3: 200000 }));
+
+    expect(result.chargeableWeightKg).toBe(40);
+    expect(line(result, 'WEIGHT')).toMatchObject({ label: 'Volumetric weight', amount: 20 });
+  });
+
+  it('applies flat and percentage surcharges matched by keyword, case-insensitively', () => {
+    const result = priceShipment(tariff, facts({ specialRequirements: 'FRAGILE glassware, cold chain' }));
+
+    expect(line(result, 'FRAGILE')?.amount).toBe(5);
+    // 20% of the 40 transport charge
+    expect(line(result, 'REFRIGERATED')?.amount).toBe(8);
+    expect(result.total).toBe(53);
+  });
+
+  it('ignores surcharges whose keywords are not mentioned', () => {
+    const result = priceShipment(tariff, facts({ specialRequirements: 'leave at reception' }));
+
+    expect(line(result, 'FRAGILE')).toBeUndefined();
+    expect(line(result, 'REFRIGERATED')).toBeUndefined();
+  });
+
+  it('multiplies everything before it by a time band that wraps past midnight', () => {
+    const lateEvening = priceShipment(tariff, facts({ localHour: 23, specialRequirements: 'fragile' }));
+    const earlyMorning = priceShipment(tariff, facts({ localHour: 5 }));
+
+    expect(line(lateEvening, 'TIME_OF_DAY')).toMatchObject({ label: 'Night', amount: 22.5 });
+    expect(lateEvening.total).toBe(67.5);
+    expect(line(earlyMorning, 'TIME_OF_DAY')?.label).toBe('Night');
+  });
+
+  it('uses the first matching band and honours its days', () => {
+    expect(line(priceShipment(tariff, facts({ localDay: 6 })), 'TIME_OF_DAY')?.label).toBe('Weekend');
+    expect(line(priceShipment(tariff, facts({ localDay: 6, localHour: 23 })), 'TIME_OF_DAY')?.label).toBe('Night');
+    expect(line(priceShipment(tariff, facts({ localHour: 6 })), 'TIME_OF_DAY')).toBeUndefined();
+  });
+
+  it('tops short trips up to the minimum fare', () => {
+    const result = priceShipment(tariff, facts({ distanceKm: 1, weightKg: 1, volumeCm3: 1000 }));
+
+    expect(line(result, 'MINIMUM_FARE')?.amount).toBe(12.5);
+    expect(result.total).toBe(25);
+  });
+
+  it('rounds amounts to cents', () => {
+    const result = priceShipment(tariff, facts({ distanceKm: 10.004, weightKg: 20.344 }));
+
+    expect(line(result, 'DISTANCE')?.quantity).toBe(10);
+    expect(line(result, 'WEIGHT')?.amount).toBe(10.17);
+    expect(result.total).toBe(40.17);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Rule-based tariff evaluation. Pure so rate cards can be checked against
+ * sample shipments without a database.
+ */
+
+export interface Surcharge {
+  code: string;
+  label: string;
+  // Applies when the order's special requirements mention any of these, case-insensitively
+  keywords: string[];
+  // Flat amount, a percentage of the transport charge, or both
+  amount?: number;
+  percent?: number;
+}
+
+export interface TimeBand {
+  label: string;
+  // 0 = Sunday; every day when omitted
+  days?: number[];
+  // Local hours, end exclusive; a band may wrap past midnight (e.g. 22 to 6)
+  startHour: number;
+  endHour: number;
+  multiplier: number;
+}
+
+export interface Tariff {
+  currency: string;
+  baseFare: number;
+  perKm: number;
+  perKg: number;
+  // cm³ per chargeable kg, e.g. 5000 for road freight
+  volumetricDivisor: number;
+  minimumFare: number;
+  surcharges: Surcharge[];
+  timeBands: TimeBand[];
+}
+
+export interface ShipmentFacts {
+  distanceKm: number;
+  weightKg: number;
+  volumeCm3: number;
+  specialRequirements?: string;
+  // Pickup time in the zone's local time
+  localHour: number;
+  localDay: number;
+}
+
+export interface PriceLine {
+  code: string;
+  label: string;
+  quantity?: number;
+  unitPrice?: number;
+  amount: number;
+}
+
+export interface PricedShipment {
+  lines: PriceLine[];
+  total: number;
+  chargeableWeightKg: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const inBand = (band: TimeBand, hour: number, day: number): boolean => {
+  if (band.days && !band.days.includes(day)) return false;
+  return band.startHour <= band.endHour
+    ? hour >= band.startHour && hour < band.endHour
+    : hour >= band.startHour || hour < band.endHour;
+};
+
+/**
+ * Prices a shipment line by line: base fare, distance, chargeable weight
+ * (the greater of actual and volumetric weight), matching surcharges, the
+ * first time band covering the pickup, and a top-up to the minimum fare.
+ * Percentage surcharges apply to the transport charge (base, distance and
+ * weight); the time band multiplies everything before it.
+ */
+export const priceShipment = (tariff: Tariff, facts: ShipmentFacts): PricedShipment => {
+  const volumetricWeightKg = tariff.volumetricDivisor > 0 ? facts.volumeCm3 / tariff.volumetricDivisor : 0;
+  const chargeableWeightKg = round2(Math.max(facts.weightKg, volumetricWeightKg));
+  const distanceKm = round2(facts.distanceKm);
+
+  const lines: PriceLine[] = [];
+  if (tariff.baseFare > 0) {
+    lines.push({ code: 'BASE', label: 'Base fare', amount: round2(tariff.baseFare) });
+  }
+  lines.push({
+    code: 'DISTANCE',
+    label: 'Distance',
+    quantity: distanceKm,
+    unitPrice: tariff.perKm,
+    amount: round2(distanceKm * tariff.perKm),
+  });
+  lines.push({
+    code: 'WEIGHT',
+    label: chargeableWeightKg > facts.weightKg ? 'Volumetric weight' : 'Weight',
+    quantity: chargeableWeightKg,
+    unitPrice: tariff.perKg,
+    amount: round2(chargeableWeightKg * tariff.perKg),
+  });
+
+  const transportCharge = lines.reduce((sum, line) => sum + line.amount, 0);
+  const requirements = (facts.specialRequirements || '').toLowerCase();
+
+  tariff.surcharges
+    .filter(surcharge => surcharge.keywords.some(keyword => requirements.includes(keyword.toLowerCase())))
+    .forEach(surcharge => {
+      lines.push({
+        code: surcharge.code,
+        label: surcharge.label,
+        amount: round2((surcharge.amount ?? 0) + transportCharge * (surcharge.percent ?? 0) / 100),
+      });
+    });
+
+  const band = tariff.timeBands.find(candidate => inBand(candidate, facts.localHour, facts.localDay));
+  if (band && band.multiplier !== 1) {
+    const subtotal = lines.reduce((sum, line) => sum + line.amount, 0);
+    lines.push({
+      code: 'TIME_OF_DAY',
+      label: band.label,
+      quantity: band.multiplier,
+      amount: round2(subtotal * (band.multiplier - 1)),
+    });
+  }
+
+  const total = lines.reduce((sum, line) => sum + line.amount, 0);
+  if (total < tariff.minimumFare) {
+    lines.push({ code: 'MINIMUM_FARE', label: 'Minimum fare top-up', amount: round2(tariff.minimumFare - total) });
+  }
+
+  return {
+    lines,
+    total: round2(lines.reduce((sum, line) => sum + line.amount, 0)),
+    chargeableWeightKg,
+  };
+};
@@ -0,0 +1,142 @@
+import { Trail } from '@/services/trailService';
+
+export type TrailFormat = 'json' | 'geojson' | 'gpx' | 'kml';
+
+export const TRAIL_FORMATS: TrailFormat[] = ['json', 'geojson', 'gpx', 'kml'];
+
+export const TRAIL_CONTENT_TYPES: Record<Exclude<TrailFormat, 'json'>, string> = {
+  geojson: 'application/geo+json',
+  gpx: 'application/gpx+xml',
+  kml: 'application/vnd.google-earth.kml+xml',
+};
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+const trailName = (trail: Trail) => `${trail.subject.type} ${trail.subject.id}`;
+
+const stopName = (index: number, durationSeconds: number) =>
+  `Stop ${index + 1} (${Math.round(durationSeconds / 60)} min)`;
+
+/**
+ * A FeatureCollection holding the trail as a LineString, with fix times in
+ * the `coordTimes` property as many GeoJSON viewers expect, and one Point
+ * per detected stop.
+ */
+export const toGeoJson = (trail: Trail) => ({
+  type: 'FeatureCollection',
+  features: [
+    {
+      type: 'Feature',
+      geometry: {
+        type: 'LineString',
+        coordinates: trail.points.map(point => [point.longitude, point.latitude]),
+      },
+      properties: {
+        name: trailName(trail),
+        [`${trail.subject.type}Id`]: trail.subject.id,
+        coordTimes: trail.points.map(point => point.timestamp.toISOString()),
+        distanceKm: trail.distanceKm,
+      },
+    },
+    ...trail.stops.map((stop, index) => ({
+      type: 'Feature',
+      geometry: {
+        type: 'Point',
+        coordinates: [stop.longitude, stop.latitude],
+      },
+      properties: {
+        name: stopName(index, stop.durationSeconds),
+        arrivedAt: stop.arrivedAt.toISOString(),
+        departedAt: stop.departedAt.toISOString(),
+        durationSeconds: stop.durationSeconds,
+      },
+    })),
+  ],
+});
+
+// GPX 1.1 track with timestamped points; stops become waypoints
+export const toGpx = (trail: Trail): string => {
+  const waypoints = trail.stops.map((stop, index) => [
+    `  <wpt lat="${stop.latitude}" lon="${stop.longitude}">`,
+    `    <time>${stop.arrivedAt.toISOString()}</time>`,
+    `    <name>${escapeXml(stopName(index, stop.durationSeconds))}</name>`,
+    `    <desc>Until ${stop.departedAt.toISOString()}</desc>`,
+    '  </wpt>',
+  ].join('\n'));
+
+  const trackPoints = trail.points.map(point =>
+    `      <trkpt lat="${point.latitude}" lon="${point.longitude}"><time>${point.timestamp.toISOString()}</time></trkpt>`
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Ridelink MCP" xmlns="http://www.topografix.com/GPX/1/1">',
+    ...waypoints,
+    '  <trk>',
+    `    <name>${escapeXml(trailName(trail))}</name>`,
+    '    <trkseg>',
+    ...trackPoints,
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    '',
+  ].join('\n');
+};
+
+// KML document with the trail as a LineString placemark and one placemark per stop
+export const toKml = (trail: Trail): string => {
+  const coordinates = trail.points.map(point => `${point.longitude},${point.latitude}`).join(' ');
+
+  const stopPlacemarks = trail.stops.map((stop, index) => [
+    '    <Placemark>',
+    `      <name>${escapeXml(stopName(index, stop.durationSeconds))}</name>`,
+    `      <TimeSpan><begin>${stop.arrivedAt.toISOString()}</begin><end>${stop.departedAt.toISOString()}</end></TimeSpan>`,
+    `      <Point><coordinates>${stop.longitude},${stop.latitude}</coordinates></Point>`,
+    '    </Placemark>',
+  ].join('\n'));
+
+  const first = trail.points[0];
+  const last = trail.points[trail.points.length - 1];
+  const timeSpan = first && last
+    ? [`      <TimeSpan><begin>${first.timestamp.toISOString()}</begin><end>${last.timestamp.toISOString()}</end></TimeSpan>`]
+    : [];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(trailName(trail))}</name>`,
+    '    <Placemark>',
+    '      <name>Trail</name>',
+    ...timeSpan,
+    `      <LineString><tessellate>1</tessellate><coordinates>${coordinates}</coordinates></LineString>`,
+    '    </Placemark>',
+    ...stopPlacemarks,
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+};
+
+/**
+ * Serializes a trail for download. The file name tells the subject and
+ * format apart, e.g. `order-<id>-trail.gpx`.
+ */
+export const exportTrail = (trail: Trail, format: Exclude<TrailFormat, 'json'>) => {
+  const body = {
+    geojson: () => JSON.stringify(toGeoJson(trail)),
+    gpx: () => toGpx(trail),
+    kml: () => toKml(trail),
+  }[format]();
+
+  return {
+    contentType: TRAIL_CONTENT_TYPES[format],
+    fileName: `${trail.subject.type}-${trail.subject.id}-trail.${format}`,
+    body,
+  };
+};
@@ -0,0 +1,210 @@
+import { solveFleetVrp, solveVrp, VrpStop, VrpVisit } from './vrp';
+
+// Points on a line, so distances are easy to reason about; one km takes one minute
+const lineMatrix = (positions: number[]) =>
+  positions.map(a => positions.map(b => Math.abs(a - b)));
+
+const pickup = (id: string, weight: number, extra: Partial<VrpStop> = {}): VrpStop => ({
+  id, kind: 'pickup', weight, volume: 0, serviceMinutes: 0, ...extra,
+});
+
+const delivery = (id: string, weight: number, pickupIndex?: number, extra: Partial<VrpStop> = {}): VrpStop => ({
+  id, kind: 'delivery', weight: -weight, volume: 0, serviceMinutes: 0, pickupIndex, ...extra,
+});
+
+const order = (visits: VrpVisit[]) => visits.map(visit => visit.stop);
+
+describe('solveVrp', () => {
+  it('visits every stop, each pickup before its delivery, along the shortest path', () => {
+    // Start at 0; A picked up at 2 and dropped at 8, B picked up at 4 and dropped at 6
+    const stops = [pickup('A', 10), delivery('A', 10, 0), pickup('B', 10), delivery('B', 10, 2)];
+    const matrix = lineMatrix([0, 2, 8, 4, 6]);
+
+    const solution = solveVrp({ stops, distances: matrix, durations: matrix, capacityWeight: 100, capacityVolume: 100 });
+    const sequence = order(solution.visits);
+
+    expect(solution.unassigned).toEqual([]);
+    expect(sequence).toEqual([0, 2, 3, 1]);
+    expect(solution.totalDistance).toBe(8);
+  });
+
+  it('never carries more than the vehicle capacity', () => {
+    // Picking both up first would be shorter, but 70 + 70 exceeds the 100 kg capacity
+    const stops = [pickup('A', 70), pickup('B', 70), delivery('A', 70, 0), delivery('B', 70, 1)];
+    const matrix = lineMatrix([0, 1, 2, 10, 11]);
+
+    const solution = solveVrp({ stops, distances: matrix, durations: matrix, capacityWeight: 100, capacityVolume: 100 });
+
+    expect(solution.unassigned).toEqual([]);
+    solution.visits.forEach(visit => expect(visit.weight).toBeLessThanOrEqual(100));
+    expect(Math.max(...solution.visits.map(visit => visit.weight))).toBe(70);
+  });
+
+  it('counts load already on board against the capacity', () => {
+    const stops = [pickup('A', 30), delivery('A', 30, 0)];
+    const matrix = lineMatrix([0, 1, 2]);
+
+    const solution = solveVrp({
+      stops, distances: matrix, durations: matrix, capacityWeight: 100, capacityVolume: 100, initialWeight: 80,
+    });
+
+    expect(solution.unassigned).toEqual([0, 1]);
+    expect(solution.visits).toEqual([]);
+  });
+
+  it('leaves out an order heavier than the vehicle and serves the rest', () => {
+    const stops = [pickup('A', 500), delivery('A', 500, 0), pickup('B', 10), delivery('B', 10, 2)];
+    const matrix = lineMatrix([0, 1, 2, 3, 4]);
+
+    const solution = solveVrp({ stops, distances: matrix, durations: matrix, capacityWeight: 100, capacityVolume: 100 });
+
+    expect(solution.unassigned).toEqual([0, 1]);
+    expect(solution.unassignedReasons).toEqual({ 0: 'capacity', 1: 'capacity' });
+    expect(order(solution.visits)).toEqual([2, 3]);
+  });
+
+  it('leaves out an order with a leg the matrix cannot route and says it is unreachable', () => {
+    const stops = [pickup('A', 10), delivery('A', 10, 0), pickup('B', 10), delivery('B', 10, 2)];
+    const matrix = lineMatrix([0, 1, 2, 3, 4]);
+    // Nothing reaches A's delivery
+    matrix.forEach((row, from) => {
+      if (from !== 2) row[2] = Infinity;
+    });
+
+    const solution = solveVrp({ stops, distances: matrix, durations: matrix, capacityWeight: 100, capacityVolume: 100 });
+
+    expect(solution.unassigned).toEqual([0, 1]);
+    expect(solution.unassignedReasons).toEqual({ 0: 'unreachable', 1: 'unreachable' });
+    expect(order(solution.visits)).toEqual([2, 3]);
+  });
+
+  it('calls an order unreachable when its legs cannot be routed, whatever its weight', () => {
+    const stops = [pickup('A', 500), delivery('A', 500, 0)];
+    const matrix = lineMatrix([0, 1, 2]);
+    matrix[1][2] = Infinity;
+
+    const solution = solveVrp({ stops, distances: matrix, durations: matrix, capacityWeight: 100, capacityVolume: 100 });
+
+    expect(solution.unassignedReasons).toEqual({ 0: 'unreachable', 1: 'unreachable' });
+  });
+
+  it('serves a tight time window first even when that is a detour', () => {
+    // The far stop must be reached within 10 minutes; the near one, behind the start, any time
+    const stops = [delivery('near', 0, undefined), delivery('far', 0, undefined, { latest: 10 })];
+    const matrix = lineMatrix([0, -2, 10]);
+
+    const solution = solveVrp({ stops, distances: matrix, durations: matrix, capacityWeight: 100, capacityVolume: 100 });
+
+    expect(order(solution.visits)).toEqual([1, 0]);
+    expect(solution.totalLateness).toBe(0);
+  });
+
+  it('waits for a window to open and reports lateness when a window cannot be met', () => {
+    const stops = [
+      delivery('early', 0, undefined, { earliest: 20, serviceMinutes: 5 }),
+      delivery('late', 0, undefined, { latest: 1 }),
+    ];
+    const matrix = lineMatrix([0, 5, 6]);
+
+    const solution = solveVrp({ stops, distances: matrix, durations: matrix, capacityWeight: 100, capacityVolume: 100 });
+    const early = solution.visits.find(visit => visit.stop === 0) as VrpVisit;
+
+    expect(solution.unassigned).toEqual([]);
+    expect(early.departure).toBe(25);
+    expect(solution.totalLateness).toBeGreaterThan(0);
+  });
+});
+
+describe('solveVrp time budget', () => {
+  it('returns a 200-order problem within the time budget, every order placed', () => {
+    // Orders spread along a line, pickups and deliveries interleaved
+    const stops = Array.from({ length: 200 }, (_, i) => [
+      pickup(`O${i}`, 1),
+      delivery(`O${i}`, 1, 2 * i, { latest: 600 }),
+    ]).flat();
+    const matrix = lineMatrix([0, ...stops.map((_, i) => (i * 37) % 101)]);
+    const budget = 500;
+
+    const started = Date.now();
+    const solution = solveVrp({
+      stops, distances: matrix, durations: matrix, capacityWeight: 1000, capacityVolume: 1000, timeBudgetMs: budget,
+    });
+    const elapsed = Date.now() - started;
+
+    // Allowance for the last step in progress when the deadline passes
+    expect(elapsed).toBeLessThan(budget + 200);
+    expect(solution.unassigned).toEqual([]);
+    expect(new Set(order(solution.visits)).size).toBe(400);
+  });
+});
+
+describe('solveFleetVrp', () => {
+  it('gives each order to the vehicle starting nearest to it', () => {
+    // Vehicles start at 0 and 100; one order near each
+    const stops = [pickup('A', 10), delivery('A', 10, 0), pickup('B', 10), delivery('B', 10, 2)];
+    const matrix = lineMatrix([0, 100, 95, 90, 5, 10]);
+
+    const solution = solveFleetVrp({
+      vehicles: [{ capacityWeight: 100, capacityVolume: 100 }, { capacityWeight: 100, capacityVolume: 100 }],
+      stops,
+      distances: matrix,
+      durations: matrix,
+    });
+
+    expect(solution.unassigned).toEqual([]);
+    expect(order(solution.routes[0].visits)).toEqual([2, 3]);
+    expect(order(solution.routes[1].visits)).toEqual([0, 1]);
+    expect(solution.totalDistance).toBe(20);
+  });
+
+  it('prefers the cheaper vehicle when both start in the same place', () => {
+    const stops = [pickup('A', 10), delivery('A', 10, 0)];
+    const matrix = lineMatrix([0, 0, 1, 2]);
+
+    const solution = solveFleetVrp({
+      vehicles: [
+        { capacityWeight: 100, capacityVolume: 100, costPerKm: 3 },
+        { capacityWeight: 100, capacityVolume: 100, costPerKm: 1 },
+      ],
+      stops,
+      distances: matrix,
+      durations: matrix,
+    });
+
+    expect(solution.routes[0].visits).toEqual([]);
+    expect(order(solution.routes[1].visits)).toEqual([0, 1]);
+    expect(solution.totalCost).toBe(2);
+  });
+
+  it('uses a larger vehicle for an order the nearer one cannot carry', () => {
+    const stops = [pickup('A', 150), delivery('A', 150, 0)];
+    const matrix = lineMatrix([0, 50, 1, 2]);
+
+    const solution = solveFleetVrp({
+      vehicles: [{ capacityWeight: 100, capacityVolume: 100 }, { capacityWeight: 200, capacityVolume: 100 }],
+      stops,
+      distances: matrix,
+      durations: matrix,
+    });
+
+    expect(solution.unassigned).toEqual([]);
+    expect(order(solution.routes[1].visits)).toEqual([0, 1]);
+  });
+
+  it('blames capacity when the only vehicle that can reach an order is too small', () => {
+    const stops = [pickup('A', 150), delivery('A', 150, 0)];
+    const matrix = lineMatrix([0, 50, 1, 2]);
+    // The larger vehicle has no route to the pickup
+    matrix[1][2] = Infinity;
+
+    const solution = solveFleetVrp({
+      vehicles: [{ capacityWeight: 100, capacityVolume: 100 }, { capacityWeight: 200, capacityVolume: 100 }],
+      stops,
+      distances: matrix,
+      durations: matrix,
+    });
+
+    expect(solution.unassigned).toEqual([0, 1]);
+    expect(solution.unassignedReasons).toEqual({ 0: 'capacity', 1: 'capacity' });
+  });
+});
@@ -0,0 +1,456 @@
+export type VrpStopKind = 'pickup' | 'delivery' | 'waypoint';
+
+// Why a job was left out: no vehicle had room for it, or a leg to or from it has no finite matrix cell
+export type VrpRejection = 'capacity' | 'unreachable';
+
+export interface VrpStop {
+  id: string;
+  kind: VrpStopKind;
+  // Load change when the stop is served: positive at pickups, negative at deliveries
+  weight: number;
+  volume: number;
+  // Time window in minutes from the vehicle's start time
+  earliest?: number;
+  latest?: number;
+  serviceMinutes: number;
+  // For a delivery, the index of its pickup when both are part of the problem
+  pickupIndex?: number;
+}
+
+export interface VrpProblem {
+  stops: VrpStop[];
+  // Matrices over [start, ...stops]: index 0 is the vehicle's start position
+  distances: number[][]; // in km
+  durations: number[][]; // in minutes
+  capacityWeight: number;
+  capacityVolume: number;
+  // Load already on board at the start (orders that are in transit)
+  initialWeight?: number;
+  initialVolume?: number;
+  timeBudgetMs?: number;
+}
+
+export interface VrpVehicle {
+  capacityWeight: number;
+  capacityVolume: number;
+  initialWeight?: number;
+  initialVolume?: number;
+  // Multiplier on distance in the objective; 1 minimises plain distance
+  costPerKm?: number;
+}
+
+export interface FleetVrpProblem {
+  vehicles: VrpVehicle[];
+  stops: VrpStop[];
+  // Matrices over [...vehicle starts, ...stops]: vehicle v starts at index v
+  distances: number[][]; // in km
+  durations: number[][]; // in minutes
+  timeBudgetMs?: number;
+}
+
+export interface VrpVisit {
+  stop: number;
+  arrival: number; // minutes from start
+  departure: number;
+  lateness: number;
+  weight: number; // load after the stop
+  volume: number;
+}
+
+export interface VrpSolution {
+  visits: VrpVisit[];
+  unassigned: number[];
+  // Keyed by the stops in `unassigned`
+  unassignedReasons: Record<number, VrpRejection>;
+  totalDistance: number;
+  totalDuration: number;
+  totalLateness: number;
+  iterations: number;
+}
+
+export interface FleetVrpRoute {
+  vehicle: number;
+  visits: VrpVisit[];
+  totalDistance: number;
+  totalDuration: number;
+  totalLateness: number;
+  cost: number;
+}
+
+export interface FleetVrpSolution {
+  routes: FleetVrpRoute[];
+  unassigned: number[];
+  unassignedReasons: Record<number, VrpRejection>;
+  totalDistance: number;
+  totalCost: number;
+  iterations: number;
+}
+
+interface Evaluation {
+  cost: number;
+  distance: number;
+  duration: number;
+  lateness: number;
+  visits: VrpVisit[];
+  // Set when the sequence cannot be driven
+  rejection?: VrpRejection;
+}
+
+interface Tour {
+  sequence: number[];
+  evaluation: Evaluation;
+}
+
+// Time windows are soft: each minute late costs as much as this many km
+const LATENESS_PENALTY = 100;
+const DEFAULT_TIME_BUDGET_MS = 500;
+const MAX_SEGMENT_LENGTH = 3;
+const EPSILON = 1e-9;
+
+const infeasible = (rejection?: VrpRejection): Evaluation => ({
+  cost: Infinity,
+  distance: Infinity,
+  duration: Infinity,
+  lateness: Infinity,
+  visits: [],
+  rejection,
+});
+
+/**
+ * Single-vehicle pickup-and-delivery solver with capacity and time windows.
+ *
+ * Capacity and pickup-before-delivery are hard constraints; time windows are
+ * soft and penalised per minute of lateness, so an over-constrained problem
+ * still yields the least-late sequence. Jobs (a pickup/delivery pair or a
+ * single stop) are placed by cheapest insertion, then the sequence is
+ * improved with Or-opt and 2-opt moves until no move helps or the time
+ * budget runs out.
+ */
+export const solveVrp = (problem: VrpProblem): VrpSolution => {
+  const solution = solveFleetVrp({
+    vehicles: [{
+      capacityWeight: problem.capacityWeight,
+      capacityVolume: problem.capacityVolume,
+      initialWeight: problem.initialWeight,
+      initialVolume: problem.initialVolume,
+    }],
+    stops: problem.stops,
+    distances: problem.distances,
+    durations: problem.durations,
+    timeBudgetMs: problem.timeBudgetMs,
+  });
+  const route = solution.routes[0];
+
+  return {
+    visits: route.visits,
+    unassigned: solution.unassigned,
+    unassignedReasons: solution.unassignedReasons,
+    totalDistance: route.totalDistance,
+    totalDuration: route.totalDuration,
+    totalLateness: route.totalLateness,
+    iterations: solution.iterations,
+  };
+};
+
+/**
+ * Multi-vehicle variant of {@link solveVrp}: every job goes to the vehicle
+ * where it is cheapest to insert, jobs are then relocated between vehicles
+ * while that lowers the combined cost, and each tour is finally improved on
+ * its own. Vehicles may start from different depots and differ in capacity
+ * and cost per km.
+ */
+export const solveFleetVrp = (problem: FleetVrpProblem): FleetVrpSolution => {
+  const budget = problem.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS;
+  const deadline = Date.now() + budget;
+  // Half the budget for placing jobs and moving them between vehicles, the rest for the tours themselves
+  const relocateDeadline = Date.now() + budget / 2;
+  const stopOffset = problem.vehicles.length;
+  const evaluate = (vehicle: number, sequence: number[]) =>
+    evaluateSequence(problem, stopOffset, vehicle, sequence);
+
+  const jobs = buildJobs(problem.stops);
+  const deadlineOf = (job: number[]) => problem.stops[job[job.length - 1]].latest ?? Infinity;
+  const nearestStart = (job: number[]) =>
+    Math.min(...problem.vehicles.map((_, v) => problem.distances[v][job[0] + stopOffset]));
+  // Tightest deadlines first, so they get the early positions
+  jobs.sort((a, b) => deadlineOf(a) - deadlineOf(b) || nearestStart(a) - nearestStart(b));
+
+  const tours: Tour[] = problem.vehicles.map((_, v) => ({ sequence: [], evaluation: evaluate(v, []) }));
+  const unassigned: number[] = [];
+  const unassignedReasons: Record<number, VrpRejection> = {};
+
+  jobs.forEach(job => {
+    let best: { vehicle: number; tour: Tour; delta: number } | null = null;
+    const rejections = new Set<VrpRejection>();
+
+    tours.forEach((tour, v) => {
+      const inserted = insertJob(tour.sequence, job, sequence => evaluate(v, sequence), relocateDeadline);
+      if ('rejection' in inserted) {
+        rejections.add(inserted.rejection);
+        return;
+      }
+
+      const delta = inserted.evaluation.cost - tour.evaluation.cost;
+      if (delta < (best?.delta ?? Infinity)) {
+        best = { vehicle: v, tour: inserted, delta };
+      }
+    });
+
+    if (best) {
+      const { vehicle, tour } = best as { vehicle: number; tour: Tour };
+      tours[vehicle] = tour;
+    } else {
+      // A vehicle that could reach the job but not carry it makes this a capacity problem
+      const reason = rejections.has('unreachable') && !rejections.has('capacity') ? 'unreachable' : 'capacity';
+      job.forEach(stop => {
+        unassigned.push(stop);
+        unassignedReasons[stop] = reason;
+      });
+    }
+  });
+
+  let iterations = 0;
+
+  // Relocate jobs between vehicles
+  let improved = tours.length > 1;
+  while (improved && Date.now() < relocateDeadline) {
+    improved = false;
+    iterations++;
+
+    for (let a = 0; a < tours.length && !improved; a++) {
+      for (const job of jobs) {
+        if (!tours[a].sequence.includes(job[0])) continue;
+
+        const remaining = tours[a].sequence.filter(stop => !job.includes(stop));
+        const reduced: Tour = { sequence: remaining, evaluation: evaluate(a, remaining) };
+
+        for (let b = 0; b < tours.length && !improved; b++) {
+          if (b === a) continue;
+
+          const inserted = insertJob(tours[b].sequence, job, sequence => evaluate(b, sequence), relocateDeadline);
+          if ('rejection' in inserted) continue;
+
+          const before = tours[a].evaluation.cost + tours[b].evaluation.cost;
+          const after = reduced.evaluation.cost + inserted.evaluation.cost;
+          if (after < before - EPSILON) {
+            tours[a] = reduced;
+            tours[b] = inserted;
+            improved = true;
+          }
+        }
+        if (improved || Date.now() >= relocateDeadline) break;
+      }
+    }
+  }
+
+  tours.forEach((tour, v) => {
+    // Split what is left evenly over the remaining tours
+    const tourDeadline = Date.now() + Math.max(0, deadline - Date.now()) / (tours.length - v);
+    const result = improveTour(tour, sequence => evaluate(v, sequence), tourDeadline);
+    tours[v] = result.tour;
+    iterations += result.iterations;
+  });
+
+  const routes = tours.map((tour, v) => ({
+    vehicle: v,
+    visits: tour.evaluation.visits,
+    totalDistance: tour.evaluation.distance,
+    totalDuration: tour.evaluation.duration,
+    totalLateness: tour.evaluation.lateness,
+    cost: tour.evaluation.cost,
+  }));
+
+  return {
+    routes,
+    unassigned,
+    unassignedReasons,
+    totalDistance: routes.reduce((sum, route) => sum + route.totalDistance, 0),
+    totalCost: routes.reduce((sum, route) => sum + route.cost, 0),
+    iterations,
+  };
+};
+
+// A paired pickup forms one job with its delivery; every other stop is a job on its own
+const buildJobs = (stops: VrpStop[]): number[][] => {
+  const pairedPickups = new Set<number>();
+  stops.forEach(stop => {
+    if (stop.pickupIndex !== undefined) pairedPickups.add(stop.pickupIndex);
+  });
+
+  const jobs: number[][] = [];
+  stops.forEach((stop, index) => {
+    if (pairedPickups.has(index)) return;
+    jobs.push(stop.pickupIndex !== undefined ? [stop.pickupIndex, index] : [index]);
+  });
+  return jobs;
+};
+
+// Every way of placing a job in a sequence, its delivery after its pickup
+function* insertionCandidates(sequence: number[], job: number[]): Generator<number[]> {
+  for (let i = 0; i <= sequence.length; i++) {
+    const withFirst = [...sequence.slice(0, i), job[0], ...sequence.slice(i)];
+
+    if (job.length === 1) {
+      yield withFirst;
+      continue;
+    }
+
+    for (let j = i + 1; j <= withFirst.length; j++) {
+      yield [...withFirst.slice(0, j), job[1], ...withFirst.slice(j)];
+    }
+  }
+}
+
+/**
+ * Cheapest feasible insertion of a job into a sequence. Trying every
+ * position is cubic in the tour length, so once the deadline passes the
+ * best position found so far is kept, or the job is appended to the end.
+ * When it fits nowhere, the rejection is capacity if some position could be
+ * driven but overloaded the vehicle, and unreachable if every position
+ * needed a leg the matrix has no value for.
+ */
+const insertJob = (
+  sequence: number[],
+  job: number[],
+  evaluate: (sequence: number[]) => Evaluation,
+  deadline: number
+): Tour | { rejection: VrpRejection } => {
+  let best: Tour | null = null;
+  let overloaded = false;
+
+  for (const candidate of insertionCandidates(sequence, job)) {
+    if (Date.now() >= deadline) break;
+
+    const evaluation = evaluate(candidate);
+    if (evaluation.rejection === 'capacity') overloaded = true;
+    if (evaluation.cost < (best?.evaluation.cost ?? Infinity)) {
+      best = { sequence: candidate, evaluation };
+    }
+  }
+
+  if (!best && Date.now() >= deadline) {
+    const appended = [...sequence, ...job];
+    const evaluation = evaluate(appended);
+    if (evaluation.rejection === 'capacity') overloaded = true;
+    if (evaluation.cost < Infinity) {
+      best = { sequence: appended, evaluation };
+    }
+  }
+
+  return best ?? { rejection: overloaded ? 'capacity' : 'unreachable' };
+};
+
+// Or-opt and 2-opt local search on one tour, first improvement, until stuck or out of time
+const improveTour = (
+  initial: Tour,
+  evaluate: (sequence: number[]) => Evaluation,
+  deadline: number
+): { tour: Tour; iterations: number } => {
+  let { sequence, evaluation: current } = initial;
+  let iterations = 0;
+  let improved = true;
+
+  while (improved && Date.now() < deadline) {
+    improved = false;
+    iterations++;
+
+    // Or-opt: move a segment of up to three stops elsewhere in the sequence
+    for (let length = 1; length <= MAX_SEGMENT_LENGTH && !improved; length++) {
+      for (let i = 0; i + length <= sequence.length && !improved; i++) {
+        const segment = sequence.slice(i, i + length);
+        const rest = [...sequence.slice(0, i), ...sequence.slice(i + length)];
+
+        for (let j = 0; j <= rest.length && !improved; j++) {
+          if (j === i) continue;
+          const candidate = [...rest.slice(0, j), ...segment, ...rest.slice(j)];
+          const evaluation = evaluate(candidate);
+          if (evaluation.cost < current.cost - EPSILON) {
+            sequence = candidate;
+            current = evaluation;
+            improved = true;
+          }
+        }
+        if (Date.now() >= deadline) break;
+      }
+    }
+
+    // 2-opt: reverse a subsequence
+    for (let i = 0; i < sequence.length - 1 && !improved; i++) {
+      for (let k = i + 1; k < sequence.length && !improved; k++) {
+        const candidate = [
+          ...sequence.slice(0, i),
+          ...sequence.slice(i, k + 1).reverse(),
+          ...sequence.slice(k + 1),
+        ];
+        const evaluation = evaluate(candidate);
+        if (evaluation.cost < current.cost - EPSILON) {
+          sequence = candidate;
+          current = evaluation;
+          improved = true;
+        }
+      }
+      if (Date.now() >= deadline) break;
+    }
+  }
+
+  return { tour: { sequence, evaluation: current }, iterations };
+};
+
+const evaluateSequence = (
+  problem: FleetVrpProblem,
+  stopOffset: number,
+  vehicleIndex: number,
+  sequence: number[]
+): Evaluation => {
+  const vehicle = problem.vehicles[vehicleIndex];
+  const visited = new Set<number>();
+  const visits: VrpVisit[] = [];
+  let weight = vehicle.initialWeight || 0;
+  let volume = vehicle.initialVolume || 0;
+  let time = 0;
+  let distance = 0;
+  let lateness = 0;
+  let previous = vehicleIndex;
+  let overloaded = false;
+
+  for (const stopIndex of sequence) {
+    const stop = problem.stops[stopIndex];
+
+    if (stop.pickupIndex !== undefined && !visited.has(stop.pickupIndex)) {
+      return infeasible();
+    }
+
+    const node = stopIndex + stopOffset;
+    distance += problem.distances[previous][node];
+    const arrival = time + problem.durations[previous][node];
+    const start = Math.max(arrival, stop.earliest ?? 0);
+    const late = stop.latest !== undefined ? Math.max(0, start - stop.latest) : 0;
+
+    if (!Number.isFinite(distance) || !Number.isFinite(arrival)) {
+      return infeasible('unreachable');
+    }
+
+    // Keep going, so a sequence that is also unreachable further on is reported as such
+    weight += stop.weight;
+    volume += stop.volume;
+    if (weight > vehicle.capacityWeight + EPSILON || volume > vehicle.capacityVolume + EPSILON) {
+      overloaded = true;
+    }
+
+    time = start + stop.serviceMinutes;
+    lateness += late;
+    visited.add(stopIndex);
+    visits.push({ stop: stopIndex, arrival, departure: time, lateness: late, weight, volume });
+    previous = node;
+  }
+
+  if (overloaded) return infeasible('capacity');
+
+  return {
+    cost: distance * (vehicle.costPerKm ?? 1) + lateness * LATENESS_PENALTY,
+    distance,
+    duration: time,
+    lateness,
+    visits,
+  };
+};